@@ -3,12 +3,20 @@
 -- ====================================
 -- Copy and paste this entire script into your Supabase SQL Editor
 -- This will create all necessary tables and configurations
+--
+-- NOTE: the versioned files in migrations/ are now the source of truth for the
+-- schema (see MIGRATIONS.md). This script matches migrations 0001-0006; after
+-- running it, record that with: npm run migrate -- baseline 0006
+-- and then apply the rest with: npm run migrate -- up
+-- Newer schema changes are only added as migrations.
 
 -- ====================================
 -- 1. BOOKINGS TABLE (for "Book Now" functionality)
 -- ====================================
 
--- Create the bookings table
+-- Create the bookings table. Hourly, daily and weekly rentals all live here,
+-- told apart by rental_type. Databases that still have a separate
+-- weekly_bookings table should apply migrations/0008_unify_weekly_bookings.sql.
 CREATE TABLE IF NOT EXISTS bookings (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   name TEXT NOT NULL,
@@ -16,11 +24,23 @@ CREATE TABLE IF NOT EXISTS bookings (
   address TEXT NOT NULL,
   category TEXT NOT NULL,
   model TEXT NOT NULL,
+  rental_type TEXT NOT NULL DEFAULT 'daily' CHECK (rental_type IN ('hourly', 'daily', 'weekly')),
   price_per_day NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  price_per_hour NUMERIC(10, 2),
   days INTEGER DEFAULT 1,
+  hours INTEGER,
+  weeks INTEGER,
+  base_amount NUMERIC(10, 2),
+  discount_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
   total_price NUMERIC(10, 2) DEFAULT 0,
+  price_breakdown JSONB,
+  promo_code TEXT,
+  promo_discount NUMERIC(10, 2) NOT NULL DEFAULT 0,
   status TEXT NOT NULL DEFAULT 'pending',
-  rental_type TEXT DEFAULT 'daily',
+  pickup_date DATE,
+  pickup_time TIME,
+  return_date DATE,
+  return_time TIME,
   created_at TIMESTAMPTZ DEFAULT now(),
   updated_at TIMESTAMPTZ DEFAULT now()
 );
@@ -75,6 +95,48 @@ BEGIN
         ALTER TABLE bookings ALTER COLUMN rental_type SET DEFAULT 'daily';
         RAISE NOTICE 'Updated rental_type column with default value';
     END IF;
+    
+    -- Check and add 'price_breakdown' column if it doesn't exist (itemized pricing-rules quote)
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
+                   WHERE table_name = 'bookings' AND column_name = 'price_breakdown') THEN
+        ALTER TABLE bookings ADD COLUMN price_breakdown JSONB;
+        RAISE NOTICE 'Added price_breakdown column to bookings table';
+    END IF;
+    
+    -- Check and add promo code columns if they don't exist
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
+                   WHERE table_name = 'bookings' AND column_name = 'promo_code') THEN
+        ALTER TABLE bookings ADD COLUMN promo_code TEXT;
+        ALTER TABLE bookings ADD COLUMN promo_discount NUMERIC(10, 2) NOT NULL DEFAULT 0;
+        RAISE NOTICE 'Added promo_code and promo_discount columns to bookings table';
+    END IF;
+    
+    -- Check and add hourly rental columns if they don't exist
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
+                   WHERE table_name = 'bookings' AND column_name = 'hours') THEN
+        ALTER TABLE bookings ADD COLUMN hours INTEGER;
+        ALTER TABLE bookings ADD COLUMN price_per_hour NUMERIC(10, 2);
+        RAISE NOTICE 'Added hours and price_per_hour columns to bookings table';
+    END IF;
+    
+    -- Check and add the unified-schema columns if they don't exist (see migrations/0003_bookings.sql)
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
+                   WHERE table_name = 'bookings' AND column_name = 'weeks') THEN
+        ALTER TABLE bookings ADD COLUMN weeks INTEGER;
+        ALTER TABLE bookings ADD COLUMN base_amount NUMERIC(10, 2);
+        ALTER TABLE bookings ADD COLUMN discount_amount NUMERIC(10, 2) NOT NULL DEFAULT 0;
+        RAISE NOTICE 'Added weeks, base_amount and discount_amount columns to bookings table';
+    END IF;
+    
+    -- Check and add the pickup/return date and time columns if they don't exist
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
+                   WHERE table_name = 'bookings' AND column_name = 'pickup_date') THEN
+        ALTER TABLE bookings ADD COLUMN pickup_date DATE;
+        ALTER TABLE bookings ADD COLUMN pickup_time TIME;
+        ALTER TABLE bookings ADD COLUMN return_date DATE;
+        ALTER TABLE bookings ADD COLUMN return_time TIME;
+        RAISE NOTICE 'Added pickup/return date and time columns to bookings table';
+    END IF;
 END $$;
 
 -- ====================================
@@ -95,15 +157,120 @@ CREATE TABLE IF NOT EXISTS contacts (
 );
 
 -- ====================================
--- 3. ROW LEVEL SECURITY (RLS) SETUP
+-- 3. VEHICLES AND VEHICLE UNITS (fleet catalog and inventory)
+-- ====================================
+
+-- Create the vehicles table. The app falls back to its bundled catalog
+-- (src/lib/catalog.ts) when this table is empty or unreachable.
+CREATE TABLE IF NOT EXISTS vehicles (
+  id TEXT PRIMARY KEY,
+  slug TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  category TEXT NOT NULL CHECK (category IN ('Sports Bike', 'Normal Bike', 'Scooty')),
+  daily_rate NUMERIC(10, 2) NOT NULL CHECK (daily_rate >= 0),
+  hourly_rate NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (hourly_rate >= 0),
+  min_hours INTEGER NOT NULL DEFAULT 2 CHECK (min_hours > 0),
+  monthly_rate NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (monthly_rate >= 0),
+  image_url TEXT,
+  engine TEXT NOT NULL,
+  power TEXT NOT NULL,
+  mileage TEXT NOT NULL,
+  spec_type TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Hourly pricing for tables created before hourly rentals existed
+ALTER TABLE vehicles ADD COLUMN IF NOT EXISTS hourly_rate NUMERIC(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE vehicles ADD COLUMN IF NOT EXISTS min_hours INTEGER NOT NULL DEFAULT 2;
+UPDATE vehicles SET hourly_rate = ROUND(daily_rate / 6) WHERE hourly_rate = 0;
+
+-- Monthly subscription pricing (see migrations/0007_monthly_subscriptions.sql)
+ALTER TABLE vehicles ADD COLUMN IF NOT EXISTS monthly_rate NUMERIC(10, 2) NOT NULL DEFAULT 0;
+UPDATE vehicles SET monthly_rate = ROUND(daily_rate * 50 / 3) WHERE monthly_rate = 0;
+
+-- Seed the current fleet (image_url left NULL so the bundled images are used)
+INSERT INTO vehicles (id, slug, name, category, daily_rate, hourly_rate, min_hours, monthly_rate, engine, power, mileage, spec_type, sort_order)
+VALUES
+  ('sb-royal-enfield-bullet', 'royal-enfield-bullet', 'Royal Enfield Bullet', 'Sports Bike', 900, 150, 2, 15000, '350cc', '18.6 HP', '40 kmpl', 'Sports', 1),
+  ('sb-bajaj-pulsar-150', 'bajaj-pulsar-150', 'Bajaj Pulsar 150', 'Sports Bike', 550, 90, 2, 9000, '150cc', '25 HP', '35 kmpl', 'Sports', 2),
+  ('sb-bajaj-pulsar-125', 'bajaj-pulsar-125', 'Bajaj Pulsar 125', 'Sports Bike', 550, 90, 2, 9000, '125cc', '17.1 HP', '42 kmpl', 'Sports', 3),
+  ('sb-tvs-apache-rtr-160', 'tvs-apache-rtr-160', 'TVS Apache RTR 160', 'Sports Bike', 600, 100, 2, 10000, '160cc', '24.5 HP', '38 kmpl', 'Sports', 4),
+  ('sb-tvs-raider', 'tvs-raider', 'TVS Raider', 'Sports Bike', 600, 100, 2, 10000, '125cc', '20 HP', '55 kmpl', 'Sports', 5),
+  ('nb-honda-shine', 'honda-shine', 'Honda Shine', 'Normal Bike', 450, 75, 2, 7500, '124cc', '10.7 HP', '55 kmpl', 'Street', 1),
+  ('nb-bajaj-platina', 'bajaj-platina', 'Bajaj Platina', 'Normal Bike', 450, 75, 2, 7500, '102cc', '8.1 HP', '70 kmpl', 'Street', 2),
+  ('nb-hero-splendor-plus', 'hero-splendor-plus', 'Hero Splendor Plus', 'Normal Bike', 450, 75, 2, 7500, '97cc', '8.02 HP', '60 kmpl', 'Street', 3),
+  ('nb-hero-passion', 'hero-passion', 'Hero Passion', 'Normal Bike', 450, 75, 2, 7500, '109cc', '8.4 HP', '60 kmpl', 'Street', 4),
+  ('nb-hero-hf-deluxe', 'hero-hf-deluxe', 'Hero HF Deluxe', 'Normal Bike', 450, 75, 2, 7500, '100cc', '12.4 HP', '50 kmpl', 'Street', 5),
+  ('sc-honda-activa-6g', 'honda-activa-6g', 'Honda Activa 6G', 'Scooty', 450, 75, 2, 7500, '109cc', '7.79 HP', '55 kmpl', 'Scooter', 1),
+  ('sc-tvs-zest-110', 'tvs-zest-110', 'TVS Zest 110', 'Scooty', 400, 70, 2, 6500, '109cc', '7.47 HP', '62 kmpl', 'Scooter', 2)
+ON CONFLICT (id) DO NOTHING;
+
+-- Physical units under each catalog vehicle. A vehicle without any units is
+-- treated by the app as a single unit.
+CREATE TABLE IF NOT EXISTS vehicle_units (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  vehicle_id TEXT NOT NULL REFERENCES vehicles(id) ON UPDATE CASCADE,
+  registration_number TEXT NOT NULL UNIQUE,
+  colour TEXT,
+  odometer_km INTEGER NOT NULL DEFAULT 0 CHECK (odometer_km >= 0),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'maintenance', 'retired')),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Example: register two Pulsar 150s
+-- INSERT INTO vehicle_units (vehicle_id, registration_number, colour, odometer_km)
+-- VALUES ('sb-bajaj-pulsar-150', 'MP04AB1234', 'Black', 12500),
+--        ('sb-bajaj-pulsar-150', 'MP04AB5678', 'Blue', 8300);
+
+-- Link bookings to the catalog vehicle and the assigned unit
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS vehicle_id TEXT REFERENCES vehicles(id) ON UPDATE CASCADE;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS unit_id UUID REFERENCES vehicle_units(id);
+
+-- ====================================
+-- 4. PROMO CODES TABLE (coupons entered at checkout)
+-- ====================================
+
+-- Usage is counted from bookings/monthly_subscriptions rows carrying the code,
+-- so there is no counter to keep in sync.
+CREATE TABLE IF NOT EXISTS promo_codes (
+  code TEXT PRIMARY KEY CHECK (code = upper(code)),
+  description TEXT,
+  kind TEXT NOT NULL CHECK (kind IN ('percentage', 'flat')),
+  value NUMERIC(10, 2) NOT NULL CHECK (value > 0),
+  applicable_categories TEXT[], -- NULL means every category
+  min_days INTEGER,
+  valid_from TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  max_uses INTEGER,
+  max_uses_per_customer INTEGER DEFAULT 1,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Example: 15% off scooties for the first 100 riders
+-- INSERT INTO promo_codes (code, description, kind, value, applicable_categories, expires_at, max_uses)
+-- VALUES ('SCOOTY15', '15% off any scooty', 'percentage', 15, ARRAY['Scooty'], '2025-12-31', 100);
+
+CREATE INDEX IF NOT EXISTS bookings_promo_code_idx ON bookings(promo_code) WHERE promo_code IS NOT NULL;
+
+-- ====================================
+-- 5. ROW LEVEL SECURITY (RLS) SETUP
 -- ====================================
 
--- Enable RLS on both tables
+-- Enable RLS on all tables
 ALTER TABLE bookings ENABLE ROW LEVEL SECURITY;
 ALTER TABLE contacts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vehicles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vehicle_units ENABLE ROW LEVEL SECURITY;
+ALTER TABLE promo_codes ENABLE ROW LEVEL SECURITY;
 
 -- ====================================
--- 4. DROP EXISTING POLICIES (if any)
+-- 6. DROP EXISTING POLICIES (if any)
 -- ====================================
 
 -- Bookings policies
@@ -116,8 +283,15 @@ DROP POLICY IF EXISTS "Anyone can create contacts" ON contacts;
 DROP POLICY IF EXISTS "Anyone can read contacts" ON contacts;
 DROP POLICY IF EXISTS "Anyone can view contacts" ON contacts;
 
+-- Vehicles policies
+DROP POLICY IF EXISTS "Anyone can view active vehicles" ON vehicles;
+DROP POLICY IF EXISTS "Anyone can view vehicle units" ON vehicle_units;
+
+-- Promo codes policies
+DROP POLICY IF EXISTS "Anyone can look up active promo codes" ON promo_codes;
+
 -- ====================================
--- 5. CREATE POLICIES FOR ANONYMOUS ACCESS
+-- 7. CREATE POLICIES FOR ANONYMOUS ACCESS
 -- ====================================
 
 -- Bookings table policies
@@ -146,22 +320,50 @@ CREATE POLICY "Anyone can view contacts"
   TO anon
   USING (true);
 
+-- Vehicles table policies (read-only; the owner edits rows from the dashboard)
+CREATE POLICY "Anyone can view active vehicles"
+  ON vehicles
+  FOR SELECT
+  TO anon
+  USING (is_active);
+
+-- Units are readable so the booking form can count and assign free units
+CREATE POLICY "Anyone can view vehicle units"
+  ON vehicle_units
+  FOR SELECT
+  TO anon
+  USING (true);
+
+-- Promo codes are validated in the booking form
+CREATE POLICY "Anyone can look up active promo codes"
+  ON promo_codes
+  FOR SELECT
+  TO anon
+  USING (is_active);
+
 -- ====================================
--- 6. CREATE INDEXES FOR PERFORMANCE
+-- 8. CREATE INDEXES FOR PERFORMANCE
 -- ====================================
 
 -- Bookings indexes
 CREATE INDEX IF NOT EXISTS bookings_created_at_idx ON bookings(created_at DESC);
 CREATE INDEX IF NOT EXISTS bookings_status_idx ON bookings(status);
 CREATE INDEX IF NOT EXISTS bookings_category_idx ON bookings(category);
+CREATE INDEX IF NOT EXISTS bookings_model_return_date_idx ON bookings(model, return_date);
+CREATE INDEX IF NOT EXISTS bookings_unit_id_idx ON bookings(unit_id);
+CREATE INDEX IF NOT EXISTS bookings_rental_type_idx ON bookings(rental_type, created_at DESC);
 
 -- Contacts indexes
 CREATE INDEX IF NOT EXISTS contacts_created_at_idx ON contacts(created_at DESC);
 CREATE INDEX IF NOT EXISTS contacts_status_idx ON contacts(status);
 CREATE INDEX IF NOT EXISTS contacts_email_idx ON contacts(email);
 
+-- Vehicles indexes
+CREATE INDEX IF NOT EXISTS vehicles_category_idx ON vehicles(category, sort_order);
+CREATE INDEX IF NOT EXISTS vehicle_units_vehicle_id_idx ON vehicle_units(vehicle_id, status);
+
 -- ====================================
--- 7. CREATE UPDATED_AT TRIGGER FUNCTION
+-- 9. CREATE UPDATED_AT TRIGGER FUNCTION
 -- ====================================
 
 -- Function to automatically update updated_at timestamp
@@ -174,7 +376,7 @@ END;
 $$ language 'plpgsql';
 
 -- ====================================
--- 8. CREATE TRIGGERS
+-- 10. CREATE TRIGGERS
 -- ====================================
 
 -- Trigger for bookings table
@@ -191,8 +393,29 @@ CREATE TRIGGER update_contacts_updated_at
     FOR EACH ROW
     EXECUTE FUNCTION update_updated_at_column();
 
+-- Trigger for vehicles table
+DROP TRIGGER IF EXISTS update_vehicles_updated_at ON vehicles;
+CREATE TRIGGER update_vehicles_updated_at
+    BEFORE UPDATE ON vehicles
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Trigger for promo_codes table
+DROP TRIGGER IF EXISTS update_promo_codes_updated_at ON promo_codes;
+CREATE TRIGGER update_promo_codes_updated_at
+    BEFORE UPDATE ON promo_codes
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Trigger for vehicle_units table
+DROP TRIGGER IF EXISTS update_vehicle_units_updated_at ON vehicle_units;
+CREATE TRIGGER update_vehicle_units_updated_at
+    BEFORE UPDATE ON vehicle_units
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
 -- ====================================
--- 9. INSERT TEST DATA
+-- 11. INSERT TEST DATA
 -- ====================================
 
 -- Test booking record
@@ -222,7 +445,7 @@ VALUES (
 ) ON CONFLICT DO NOTHING;
 
 -- ====================================
--- 10. VERIFICATION QUERIES
+-- 12. VERIFICATION QUERIES
 -- ====================================
 
 -- Verify bookings table
@@ -239,6 +462,21 @@ SELECT
   COUNT(*) FILTER (WHERE status = 'test') as test_records
 FROM contacts;
 
+-- Verify vehicles table
+SELECT 
+  'VEHICLES TABLE SETUP' as table_name,
+  COUNT(*) as total_records,
+  COUNT(*) FILTER (WHERE is_active) as active_records
+FROM vehicles;
+
+-- Verify vehicle units (units per model)
+SELECT 
+  'VEHICLE UNITS' as table_name,
+  vehicle_id,
+  COUNT(*) FILTER (WHERE status = 'active') as active_units
+FROM vehicle_units
+GROUP BY vehicle_id;
+
 -- Show table structures
 SELECT 
   'BOOKINGS COLUMNS' as info,
@@ -262,8 +500,12 @@ ORDER BY ordinal_position;
 -- SETUP COMPLETE!
 -- ====================================
 -- Your Supabase database is now ready for:
--- ✅ Book Now functionality (bookings table)
+-- ✅ Book Now functionality (bookings table, hourly/daily/weekly by rental_type)
 -- ✅ Contact Us functionality (contacts table)
+-- ✅ Fleet catalog and inventory (vehicles, vehicle_units tables)
+-- ✅ Checkout coupons (promo_codes table)
+-- ✅ Monthly subscription pricing (vehicles.monthly_rate); apply
+--    migrations/0007_monthly_subscriptions.sql for the subscription tables
 -- ✅ Anonymous access (no authentication required)
 -- ✅ Automatic timestamps and indexing
 -- ✅ Performance optimizations
@@ -0,0 +1,369 @@
+// migrate.js
+// Versioned schema migrations for the Supabase (Postgres) database.
+//
+// Migrations live in ./migrations as NNNN_description.sql, each with a
+// "-- migrate:up" section and a "-- migrate:down" section. Applied versions are
+// recorded in the schema_migrations table.
+//
+// Usage:
+//   node migrate.js status              List applied and pending migrations
+//   node migrate.js up [version]        Apply pending migrations, optionally stopping at a version
+//   node migrate.js down [count]        Roll back the last applied migration(s), 1 by default
+//   node migrate.js baseline <version>  Record migrations up to <version> as applied without running them
+//   node migrate.js drift               Compare the live schema with what the applied migrations produce
+//
+// Needs DATABASE_URL in .env: Supabase dashboard -> Project Settings -> Database
+// -> Connection string (URI). A local Postgres URL works the same way.
+
+import pg from 'pg';
+import dotenv from 'dotenv';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+dotenv.config();
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const MIGRATIONS_DIR = path.join(__dirname, 'migrations');
+
+const TRACKING_TABLE = 'schema_migrations';
+const SHADOW_SCHEMA = 'migration_shadow';
+const FILE_PATTERN = /^(\d{4})_([a-z0-9_]+)\.sql$/;
+
+// Any fixed number works; it only has to be the same for every runner
+const LOCK_ID = 4_271_901;
+
+// Tables that exist on purpose without a migration creating them
+const IGNORED_TABLES = [TRACKING_TABLE, 'weekly_bookings_legacy'];
+
+// Splits a migration file into its up and down SQL
+const parseMigration = (fileName, contents) => {
+  const upMarker = contents.indexOf('-- migrate:up');
+  const downMarker = contents.indexOf('-- migrate:down');
+
+  if (upMarker === -1 || downMarker === -1 || downMarker < upMarker) {
+    throw new Error(`${fileName} needs a "-- migrate:up" section followed by a "-- migrate:down" section`);
+  }
+
+  const up = contents.slice(upMarker + '-- migrate:up'.length, downMarker).trim();
+  const down = contents.slice(downMarker + '-- migrate:down'.length).trim();
+  // A down section with only comments marks the migration as irreversible
+  const hasDown = down.split('\n').some(line => line.trim() && !line.trim().startsWith('--'));
+
+  return { up, down: hasDown ? down : null };
+};
+
+// Reads every migration in version order
+export const loadMigrations = (dir = MIGRATIONS_DIR) => {
+  const migrations = fs.readdirSync(dir)
+    .filter(fileName => fileName.endsWith('.sql'))
+    .map((fileName) => {
+      const match = fileName.match(FILE_PATTERN);
+      if (!match) {
+        throw new Error(`Unexpected migration file name: ${fileName} (expected NNNN_description.sql)`);
+      }
+
+      const { up, down } = parseMigration(fileName, fs.readFileSync(path.join(dir, fileName), 'utf8'));
+      return {
+        version: match[1],
+        name: match[2],
+        fileName,
+        up,
+        down,
+        checksum: crypto.createHash('sha256').update(up).digest('hex')
+      };
+    })
+    .sort((a, b) => a.version.localeCompare(b.version));
+
+  const duplicate = migrations.find((migration, index) => index > 0 && migrations[index - 1].version === migration.version);
+  if (duplicate) {
+    throw new Error(`Two migrations share version ${duplicate.version}`);
+  }
+
+  return migrations;
+};
+
+export const connect = async (connectionString = process.env.DATABASE_URL) => {
+  if (!connectionString) {
+    throw new Error('Missing DATABASE_URL. Add the Postgres connection string from your Supabase project to .env');
+  }
+
+  const client = new pg.Client({ connectionString });
+  await client.connect();
+  return client;
+};
+
+const ensureTrackingTable = async (client) => {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS ${TRACKING_TABLE} (
+      version TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      checksum TEXT NOT NULL,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    )
+  `);
+};
+
+const fetchApplied = async (client) => {
+  const { rows } = await client.query(`SELECT version, name, checksum, applied_at FROM ${TRACKING_TABLE} ORDER BY version`);
+  return rows;
+};
+
+// Runs fn while holding a session lock, so two runners can't migrate at once
+const withLock = async (client, fn) => {
+  await client.query('SELECT pg_advisory_lock($1)', [LOCK_ID]);
+  try {
+    return await fn();
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [LOCK_ID]);
+  }
+};
+
+// Applied and pending migrations, plus applied versions whose file changed or disappeared
+export const getStatus = async (client, migrations = loadMigrations()) => {
+  await ensureTrackingTable(client);
+  const applied = await fetchApplied(client);
+  const appliedVersions = new Set(applied.map(row => row.version));
+
+  return {
+    applied,
+    pending: migrations.filter(migration => !appliedVersions.has(migration.version)),
+    modified: applied.filter((row) => {
+      const migration = migrations.find(candidate => candidate.version === row.version);
+      return migration && migration.checksum !== row.checksum;
+    }),
+    missing: applied.filter(row => !migrations.some(migration => migration.version === row.version))
+  };
+};
+
+// Applies pending migrations in order, each in its own transaction
+export const migrateUp = async (client, { target, migrations = loadMigrations() } = {}) => {
+  return withLock(client, async () => {
+    const { pending } = await getStatus(client, migrations);
+    const toApply = pending.filter(migration => !target || migration.version <= target);
+
+    for (const migration of toApply) {
+      console.log(`⬆️  Applying ${migration.fileName}...`);
+      try {
+        await client.query('BEGIN');
+        await client.query(migration.up);
+        await client.query(
+          `INSERT INTO ${TRACKING_TABLE} (version, name, checksum) VALUES ($1, $2, $3)`,
+          [migration.version, migration.name, migration.checksum]
+        );
+        await client.query('COMMIT');
+      } catch (err) {
+        await client.query('ROLLBACK');
+        throw new Error(`Failed to apply ${migration.fileName}: ${err.message}`);
+      }
+    }
+
+    return toApply;
+  });
+};
+
+// Rolls back the most recently applied migrations, newest first
+export const migrateDown = async (client, { count = 1, migrations = loadMigrations() } = {}) => {
+  return withLock(client, async () => {
+    const { applied } = await getStatus(client, migrations);
+    const toRevert = applied.slice(-count).reverse();
+
+    for (const row of toRevert) {
+      const migration = migrations.find(candidate => candidate.version === row.version);
+      if (!migration) {
+        throw new Error(`Can't roll back ${row.version}_${row.name}: its migration file is missing`);
+      }
+      if (!migration.down) {
+        throw new Error(`Can't roll back ${migration.fileName}: it is marked irreversible`);
+      }
+
+      console.log(`⬇️  Reverting ${migration.fileName}...`);
+      try {
+        await client.query('BEGIN');
+        await client.query(migration.down);
+        await client.query(`DELETE FROM ${TRACKING_TABLE} WHERE version = $1`, [migration.version]);
+        await client.query('COMMIT');
+      } catch (err) {
+        await client.query('ROLLBACK');
+        throw new Error(`Failed to revert ${migration.fileName}: ${err.message}`);
+      }
+    }
+
+    return toRevert;
+  });
+};
+
+// Records migrations up to a version as applied, for databases set up by hand before the runner existed
+export const baseline = async (client, version, migrations = loadMigrations()) => {
+  if (!migrations.some(migration => migration.version === version)) {
+    throw new Error(`No migration with version ${version}`);
+  }
+
+  await ensureTrackingTable(client);
+  const marked = migrations.filter(migration => migration.version <= version);
+  for (const migration of marked) {
+    await client.query(
+      `INSERT INTO ${TRACKING_TABLE} (version, name, checksum) VALUES ($1, $2, $3) ON CONFLICT (version) DO NOTHING`,
+      [migration.version, migration.name, migration.checksum]
+    );
+  }
+  return marked;
+};
+
+// Tables, columns, indexes and policies in one schema, as comparable strings
+const describeSchema = async (client, schema) => {
+  const [columns, indexes, policies] = await Promise.all([
+    client.query(
+      `SELECT c.table_name, c.column_name, c.data_type, c.udt_name, c.is_nullable
+       FROM information_schema.columns c
+       JOIN information_schema.tables t ON t.table_schema = c.table_schema AND t.table_name = c.table_name
+       WHERE c.table_schema = $1 AND t.table_type = 'BASE TABLE'`,
+      [schema]
+    ),
+    client.query('SELECT tablename, indexname FROM pg_indexes WHERE schemaname = $1', [schema]),
+    client.query('SELECT tablename, policyname FROM pg_policies WHERE schemaname = $1', [schema])
+  ]);
+
+  const keep = row => !IGNORED_TABLES.includes(row.table_name ?? row.tablename);
+
+  return {
+    tables: new Set(columns.rows.filter(keep).map(row => row.table_name)),
+    columns: new Map(columns.rows.filter(keep).map(row => [
+      `${row.table_name}.${row.column_name}`,
+      `${row.data_type === 'ARRAY' ? `${row.udt_name}` : row.data_type}${row.is_nullable === 'NO' ? ' NOT NULL' : ''}`
+    ])),
+    indexes: new Set(indexes.rows.filter(keep).map(row => `${row.tablename}.${row.indexname}`)),
+    policies: new Set(policies.rows.filter(keep).map(row => `${row.tablename}: "${row.policyname}"`))
+  };
+};
+
+/**
+ * Builds the schema the applied migrations should produce in a throwaway schema
+ * (rolled back afterwards) and compares it with the live public schema.
+ */
+export const detectDrift = async (client, migrations = loadMigrations()) => {
+  const status = await getStatus(client, migrations);
+  const appliedVersions = new Set(status.applied.map(row => row.version));
+
+  let expected;
+  try {
+    await client.query('BEGIN');
+    await client.query(`CREATE SCHEMA ${SHADOW_SCHEMA}`);
+    await client.query(`SET LOCAL search_path TO ${SHADOW_SCHEMA}`);
+    // Functions pinned to SET search_path = public would otherwise be checked against the
+    // live tables, which later migrations have changed (the status enum from 0016, for one).
+    // Only the schema is compared, so the bodies don't need checking; pg_dump does the same.
+    await client.query('SET LOCAL check_function_bodies = off');
+    for (const migration of migrations.filter(candidate => appliedVersions.has(candidate.version))) {
+      try {
+        await client.query(migration.up);
+      } catch (err) {
+        throw new Error(`Failed to replay ${migration.fileName} in the shadow schema: ${err.message}`);
+      }
+    }
+    expected = await describeSchema(client, SHADOW_SCHEMA);
+  } finally {
+    await client.query('ROLLBACK');
+  }
+
+  const actual = await describeSchema(client, 'public');
+  const drift = [];
+
+  expected.tables.forEach((table) => {
+    if (!actual.tables.has(table)) drift.push(`Missing table ${table}`);
+  });
+  actual.tables.forEach((table) => {
+    if (!expected.tables.has(table)) drift.push(`Unexpected table ${table} (not created by any applied migration)`);
+  });
+
+  expected.columns.forEach((definition, column) => {
+    const table = column.split('.')[0];
+    if (!actual.tables.has(table)) return;
+    if (!actual.columns.has(column)) {
+      drift.push(`Missing column ${column} (${definition})`);
+    } else if (actual.columns.get(column) !== definition) {
+      drift.push(`Column ${column} is ${actual.columns.get(column)}, expected ${definition}`);
+    }
+  });
+  actual.columns.forEach((definition, column) => {
+    const table = column.split('.')[0];
+    if (expected.tables.has(table) && !expected.columns.has(column)) {
+      drift.push(`Unexpected column ${column} (${definition})`);
+    }
+  });
+
+  expected.indexes.forEach((index) => {
+    if (actual.tables.has(index.split('.')[0]) && !actual.indexes.has(index)) drift.push(`Missing index ${index}`);
+  });
+  expected.policies.forEach((policy) => {
+    if (actual.tables.has(policy.split(':')[0]) && !actual.policies.has(policy)) drift.push(`Missing policy ${policy}`);
+  });
+
+  status.modified.forEach(row => drift.push(`Migration ${row.version}_${row.name} was edited after it was applied`));
+  status.missing.forEach(row => drift.push(`Migration ${row.version}_${row.name} is applied but its file is missing`));
+
+  return drift;
+};
+
+const printStatus = (status) => {
+  console.log('\n===== Migration Status =====\n');
+  status.applied.forEach((row) => {
+    const flag = status.modified.includes(row) ? '  ⚠️ edited since applied' : status.missing.includes(row) ? '  ⚠️ file missing' : '';
+    console.log(`✅ ${row.version}_${row.name}  (${new Date(row.applied_at).toISOString()})${flag}`);
+  });
+  status.pending.forEach(migration => console.log(`⏳ ${migration.fileName}  (pending)`));
+  console.log(`\n${status.applied.length} applied, ${status.pending.length} pending`);
+};
+
+const run = async ([command = 'status', arg]) => {
+  const client = await connect();
+  try {
+    switch (command) {
+      case 'status':
+        printStatus(await getStatus(client));
+        break;
+      case 'up': {
+        const applied = await migrateUp(client, { target: arg });
+        console.log(applied.length > 0 ? `\n✅ Applied ${applied.length} migration(s)` : '\n✅ Already up to date');
+        break;
+      }
+      case 'down': {
+        const reverted = await migrateDown(client, { count: arg ? parseInt(arg) : 1 });
+        console.log(`\n✅ Reverted ${reverted.length} migration(s)`);
+        break;
+      }
+      case 'baseline': {
+        if (!arg) throw new Error('Usage: node migrate.js baseline <version>');
+        const marked = await baseline(client, arg);
+        console.log(`\n✅ Recorded ${marked.length} migration(s) as applied without running them`);
+        break;
+      }
+      case 'drift': {
+        const drift = await detectDrift(client);
+        if (drift.length === 0) {
+          console.log('\n✅ Live schema matches the applied migrations');
+        } else {
+          console.log('\n⚠️ Schema drift detected:\n');
+          drift.forEach(line => console.log(`- ${line}`));
+          process.exitCode = 1;
+        }
+        break;
+      }
+      default:
+        throw new Error(`Unknown command "${command}". Use status, up, down, baseline or drift.`);
+    }
+  } finally {
+    await client.end();
+  }
+};
+
+// Only run the CLI when executed directly, not when imported by setup-bookings-table.js
+if (process.argv[1] && path.resolve(process.argv[1]) === __filename) {
+  run(process.argv.slice(2)).catch((err) => {
+    console.error(`\n❌ ${err.message}`);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,18 @@
+-- Roles that Supabase provides out of the box. Creating them here lets the
+-- later migrations (which grant policies to anon) run against a plain local
+-- Postgres too. On Supabase this is a no-op.
+
+-- migrate:up
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'anon') THEN
+        CREATE ROLE anon NOLOGIN;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'authenticated') THEN
+        CREATE ROLE authenticated NOLOGIN;
+    END IF;
+END $$;
+
+-- migrate:down
+-- Roles are shared by the whole cluster, so they are left in place.
+SELECT 1;
@@ -0,0 +1,13 @@
+-- Shared trigger function that keeps updated_at current on every table.
+
+-- migrate:up
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = now();
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- migrate:down
+DROP FUNCTION IF EXISTS update_updated_at_column();
@@ -0,0 +1,59 @@
+-- Bookings for hourly, daily and weekly rentals, told apart by rental_type.
+
+-- migrate:up
+CREATE TABLE bookings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  contact TEXT NOT NULL,
+  address TEXT NOT NULL,
+  category TEXT NOT NULL,
+  model TEXT NOT NULL,
+  rental_type TEXT NOT NULL DEFAULT 'daily' CHECK (rental_type IN ('hourly', 'daily', 'weekly')),
+  price_per_day NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  price_per_hour NUMERIC(10, 2),
+  days INTEGER DEFAULT 1,
+  hours INTEGER,
+  weeks INTEGER,
+  base_amount NUMERIC(10, 2),
+  discount_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  total_price NUMERIC(10, 2) DEFAULT 0,
+  price_breakdown JSONB,
+  promo_code TEXT,
+  promo_discount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'pending',
+  pickup_date DATE,
+  pickup_time TIME,
+  return_date DATE,
+  return_time TIME,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE bookings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can create bookings"
+  ON bookings
+  FOR INSERT
+  TO anon
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can view bookings"
+  ON bookings
+  FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE INDEX bookings_created_at_idx ON bookings(created_at DESC);
+CREATE INDEX bookings_status_idx ON bookings(status);
+CREATE INDEX bookings_category_idx ON bookings(category);
+CREATE INDEX bookings_model_return_date_idx ON bookings(model, return_date);
+CREATE INDEX bookings_rental_type_idx ON bookings(rental_type, created_at DESC);
+CREATE INDEX bookings_promo_code_idx ON bookings(promo_code) WHERE promo_code IS NOT NULL;
+
+CREATE TRIGGER update_bookings_updated_at
+    BEFORE UPDATE ON bookings
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- migrate:down
+DROP TABLE bookings;
@@ -0,0 +1,40 @@
+-- Messages from the Contact Us page.
+
+-- migrate:up
+CREATE TABLE contacts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  email TEXT NOT NULL,
+  phone TEXT,
+  subject TEXT NOT NULL,
+  message TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'new',
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE contacts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can create contacts"
+  ON contacts
+  FOR INSERT
+  TO anon
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can view contacts"
+  ON contacts
+  FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE INDEX contacts_created_at_idx ON contacts(created_at DESC);
+CREATE INDEX contacts_status_idx ON contacts(status);
+CREATE INDEX contacts_email_idx ON contacts(email);
+
+CREATE TRIGGER update_contacts_updated_at
+    BEFORE UPDATE ON contacts
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- migrate:down
+DROP TABLE contacts;
@@ -0,0 +1,93 @@
+-- Fleet catalog and the physical units under each model. The app falls back
+-- to its bundled catalog (src/lib/catalog.ts) when vehicles is empty or
+-- unreachable, and treats a vehicle without units as a single unit.
+
+-- migrate:up
+CREATE TABLE vehicles (
+  id TEXT PRIMARY KEY,
+  slug TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  category TEXT NOT NULL CHECK (category IN ('Sports Bike', 'Normal Bike', 'Scooty')),
+  daily_rate NUMERIC(10, 2) NOT NULL CHECK (daily_rate >= 0),
+  hourly_rate NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (hourly_rate >= 0),
+  min_hours INTEGER NOT NULL DEFAULT 2 CHECK (min_hours > 0),
+  monthly_rate NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (monthly_rate >= 0),
+  image_url TEXT,
+  engine TEXT NOT NULL,
+  power TEXT NOT NULL,
+  mileage TEXT NOT NULL,
+  spec_type TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Seed the current fleet (image_url left NULL so the bundled images are used)
+INSERT INTO vehicles (id, slug, name, category, daily_rate, hourly_rate, min_hours, monthly_rate, engine, power, mileage, spec_type, sort_order)
+VALUES
+  ('sb-royal-enfield-bullet', 'royal-enfield-bullet', 'Royal Enfield Bullet', 'Sports Bike', 900, 150, 2, 15000, '350cc', '18.6 HP', '40 kmpl', 'Sports', 1),
+  ('sb-bajaj-pulsar-150', 'bajaj-pulsar-150', 'Bajaj Pulsar 150', 'Sports Bike', 550, 90, 2, 9000, '150cc', '25 HP', '35 kmpl', 'Sports', 2),
+  ('sb-bajaj-pulsar-125', 'bajaj-pulsar-125', 'Bajaj Pulsar 125', 'Sports Bike', 550, 90, 2, 9000, '125cc', '17.1 HP', '42 kmpl', 'Sports', 3),
+  ('sb-tvs-apache-rtr-160', 'tvs-apache-rtr-160', 'TVS Apache RTR 160', 'Sports Bike', 600, 100, 2, 10000, '160cc', '24.5 HP', '38 kmpl', 'Sports', 4),
+  ('sb-tvs-raider', 'tvs-raider', 'TVS Raider', 'Sports Bike', 600, 100, 2, 10000, '125cc', '20 HP', '55 kmpl', 'Sports', 5),
+  ('nb-honda-shine', 'honda-shine', 'Honda Shine', 'Normal Bike', 450, 75, 2, 7500, '124cc', '10.7 HP', '55 kmpl', 'Street', 1),
+  ('nb-bajaj-platina', 'bajaj-platina', 'Bajaj Platina', 'Normal Bike', 450, 75, 2, 7500, '102cc', '8.1 HP', '70 kmpl', 'Street', 2),
+  ('nb-hero-splendor-plus', 'hero-splendor-plus', 'Hero Splendor Plus', 'Normal Bike', 450, 75, 2, 7500, '97cc', '8.02 HP', '60 kmpl', 'Street', 3),
+  ('nb-hero-passion', 'hero-passion', 'Hero Passion', 'Normal Bike', 450, 75, 2, 7500, '109cc', '8.4 HP', '60 kmpl', 'Street', 4),
+  ('nb-hero-hf-deluxe', 'hero-hf-deluxe', 'Hero HF Deluxe', 'Normal Bike', 450, 75, 2, 7500, '100cc', '12.4 HP', '50 kmpl', 'Street', 5),
+  ('sc-honda-activa-6g', 'honda-activa-6g', 'Honda Activa 6G', 'Scooty', 450, 75, 2, 7500, '109cc', '7.79 HP', '55 kmpl', 'Scooter', 1),
+  ('sc-tvs-zest-110', 'tvs-zest-110', 'TVS Zest 110', 'Scooty', 400, 70, 2, 6500, '109cc', '7.47 HP', '62 kmpl', 'Scooter', 2)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE vehicle_units (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  vehicle_id TEXT NOT NULL REFERENCES vehicles(id) ON UPDATE CASCADE,
+  registration_number TEXT NOT NULL UNIQUE,
+  colour TEXT,
+  odometer_km INTEGER NOT NULL DEFAULT 0 CHECK (odometer_km >= 0),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'maintenance', 'retired')),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Link bookings to the catalog vehicle and the assigned unit
+ALTER TABLE bookings ADD COLUMN vehicle_id TEXT REFERENCES vehicles(id) ON UPDATE CASCADE;
+ALTER TABLE bookings ADD COLUMN unit_id UUID REFERENCES vehicle_units(id);
+
+ALTER TABLE vehicles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vehicle_units ENABLE ROW LEVEL SECURITY;
+
+-- Read-only; the owner edits rows from the dashboard
+CREATE POLICY "Anyone can view active vehicles"
+  ON vehicles
+  FOR SELECT
+  TO anon
+  USING (is_active);
+
+-- Units are readable so the booking form can count and assign free units
+CREATE POLICY "Anyone can view vehicle units"
+  ON vehicle_units
+  FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE INDEX vehicles_category_idx ON vehicles(category, sort_order);
+CREATE INDEX vehicle_units_vehicle_id_idx ON vehicle_units(vehicle_id, status);
+CREATE INDEX bookings_unit_id_idx ON bookings(unit_id);
+
+CREATE TRIGGER update_vehicles_updated_at
+    BEFORE UPDATE ON vehicles
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_vehicle_units_updated_at
+    BEFORE UPDATE ON vehicle_units
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- migrate:down
+ALTER TABLE bookings DROP COLUMN unit_id;
+ALTER TABLE bookings DROP COLUMN vehicle_id;
+DROP TABLE vehicle_units;
+DROP TABLE vehicles;
@@ -0,0 +1,36 @@
+-- Coupons entered at checkout. Usage is counted from the booking rows carrying
+-- the code, so there is no counter to keep in sync.
+
+-- migrate:up
+CREATE TABLE promo_codes (
+  code TEXT PRIMARY KEY CHECK (code = upper(code)),
+  description TEXT,
+  kind TEXT NOT NULL CHECK (kind IN ('percentage', 'flat')),
+  value NUMERIC(10, 2) NOT NULL CHECK (value > 0),
+  applicable_categories TEXT[], -- NULL means every category
+  min_days INTEGER,
+  valid_from TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  max_uses INTEGER,
+  max_uses_per_customer INTEGER DEFAULT 1,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE promo_codes ENABLE ROW LEVEL SECURITY;
+
+-- Promo codes are validated in the booking form
+CREATE POLICY "Anyone can look up active promo codes"
+  ON promo_codes
+  FOR SELECT
+  TO anon
+  USING (is_active);
+
+CREATE TRIGGER update_promo_codes_updated_at
+    BEFORE UPDATE ON promo_codes
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- migrate:down
+DROP TABLE promo_codes;
@@ -0,0 +1,79 @@
+-- Monthly subscription rentals and their instalment schedule.
+
+-- migrate:up
+
+-- Create monthly_subscriptions table
+-- One row per subscription; return_date is the end of the current term and
+-- moves forward a month on each renewal.
+CREATE TABLE monthly_subscriptions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL,
+    contact TEXT NOT NULL,
+    address TEXT NOT NULL,
+    category TEXT NOT NULL,
+    model TEXT NOT NULL,
+    vehicle_id TEXT,
+    unit_id UUID,
+    monthly_rate INTEGER NOT NULL,
+    months INTEGER NOT NULL DEFAULT 1 CHECK (months > 0),
+    total_price INTEGER NOT NULL,
+    price_breakdown JSONB,
+    promo_code TEXT,
+    promo_discount INTEGER NOT NULL DEFAULT 0,
+    auto_renew BOOLEAN NOT NULL DEFAULT true,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'active', 'completed', 'terminated', 'cancelled')),
+    pickup_date DATE NOT NULL,
+    return_date DATE NOT NULL,
+    terminated_at TIMESTAMP WITH TIME ZONE,
+    termination_fee INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create subscription_instalments table
+-- One row per monthly payment, generated when the subscription is created
+-- and on each renewal.
+CREATE TABLE subscription_instalments (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    subscription_id UUID NOT NULL REFERENCES monthly_subscriptions(id) ON DELETE CASCADE,
+    instalment_number INTEGER NOT NULL CHECK (instalment_number > 0),
+    due_date DATE NOT NULL,
+    amount INTEGER NOT NULL CHECK (amount >= 0),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'cancelled')),
+    paid_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (subscription_id, instalment_number)
+);
+
+-- Enable Row Level Security
+ALTER TABLE monthly_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE subscription_instalments ENABLE ROW LEVEL SECURITY;
+
+-- Create policies to allow all operations (same as weekly_bookings; tighten later)
+CREATE POLICY "Allow all operations on monthly_subscriptions" ON monthly_subscriptions
+FOR ALL USING (true) WITH CHECK (true);
+
+CREATE POLICY "Allow all operations on subscription_instalments" ON subscription_instalments
+FOR ALL USING (true) WITH CHECK (true);
+
+-- Indexes for the admin list, status filters and availability lookups
+CREATE INDEX idx_monthly_subscriptions_created_at ON monthly_subscriptions(created_at DESC);
+CREATE INDEX idx_monthly_subscriptions_status ON monthly_subscriptions(status);
+CREATE INDEX idx_monthly_subscriptions_model_return_date ON monthly_subscriptions(model, return_date);
+
+-- Index for finding upcoming and overdue payments
+CREATE INDEX idx_subscription_instalments_due_date ON subscription_instalments(status, due_date);
+
+-- Keep updated_at current
+CREATE TRIGGER update_monthly_subscriptions_updated_at
+    BEFORE UPDATE ON monthly_subscriptions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_subscription_instalments_updated_at
+    BEFORE UPDATE ON subscription_instalments
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- migrate:down
+DROP TABLE subscription_instalments;
+DROP TABLE monthly_subscriptions;
@@ -0,0 +1,146 @@
+-- Moves rows from the old weekly_bookings table into bookings, for databases
+-- set up before all rentals shared one table. A no-op on fresh databases.
+-- weekly_bookings is renamed to weekly_bookings_legacy rather than dropped.
+-- Contact messages the old Contact Form fallback saved into bookings (as
+-- rental_type 'contact') are moved to contacts first, since they don't fit
+-- the rental_type check added at the end.
+
+-- migrate:up
+-- ====================================
+-- 1. MAKE SURE BOOKINGS HAS THE UNIFIED COLUMNS
+-- ====================================
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS rental_type TEXT DEFAULT 'daily';
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS vehicle_id TEXT;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS unit_id UUID;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS price_per_hour NUMERIC(10, 2);
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS hours INTEGER;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS weeks INTEGER;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS base_amount NUMERIC(10, 2);
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS discount_amount NUMERIC(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS price_breakdown JSONB;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS promo_code TEXT;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS promo_discount NUMERIC(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS pickup_date DATE;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS pickup_time TIME;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS return_date DATE;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS return_time TIME;
+
+-- ====================================
+-- 2. NORMALIZE EXISTING BOOKINGS ROWS
+-- ====================================
+
+-- The fallback kept the subject in model, the message truncated into address,
+-- and the email in the status as 'CONTACT: <email>'; contact holds the phone,
+-- or the email when no phone was given
+INSERT INTO contacts (name, email, phone, subject, message, status, created_at, updated_at)
+SELECT
+  b.name,
+  coalesce(
+    CASE WHEN b.status LIKE 'CONTACT:%' THEN nullif(trim(substr(b.status, 9)), '') END,
+    CASE WHEN b.contact LIKE '%@%' THEN b.contact END,
+    ''
+  ),
+  CASE WHEN b.contact NOT LIKE '%@%' THEN b.contact END,
+  coalesce(nullif(b.model, ''), 'General inquiry'),
+  coalesce(b.address, ''),
+  'new',
+  b.created_at,
+  b.updated_at
+FROM bookings b
+WHERE b.rental_type = 'contact' OR b.category = 'Contact Form';
+
+DELETE FROM bookings WHERE rental_type = 'contact' OR category = 'Contact Form';
+
+UPDATE bookings SET rental_type = 'daily' WHERE rental_type IS NULL;
+
+-- Base amount and discount from the stored quote, or rate × duration for older rows
+UPDATE bookings
+SET
+  base_amount = COALESCE(
+    (price_breakdown->>'baseAmount')::NUMERIC,
+    CASE WHEN rental_type = 'hourly' THEN price_per_hour * hours ELSE price_per_day * days END
+  ),
+  discount_amount = COALESCE((price_breakdown->>'totalDiscount')::NUMERIC, 0)
+WHERE base_amount IS NULL;
+
+-- ====================================
+-- 3. COPY WEEKLY_BOOKINGS ACROSS
+-- ====================================
+
+DO $$
+BEGIN
+    IF to_regclass('weekly_bookings') IS NOT NULL THEN
+
+        -- Older weekly tables may predate these columns
+        ALTER TABLE weekly_bookings ADD COLUMN IF NOT EXISTS vehicle_id TEXT;
+        ALTER TABLE weekly_bookings ADD COLUMN IF NOT EXISTS unit_id UUID;
+        ALTER TABLE weekly_bookings ADD COLUMN IF NOT EXISTS price_breakdown JSONB;
+        ALTER TABLE weekly_bookings ADD COLUMN IF NOT EXISTS promo_code TEXT;
+        ALTER TABLE weekly_bookings ADD COLUMN IF NOT EXISTS promo_discount INTEGER NOT NULL DEFAULT 0;
+
+        INSERT INTO bookings (
+            id, name, contact, address, category, model, vehicle_id, unit_id,
+            rental_type, price_per_day, days, weeks,
+            base_amount, discount_amount, total_price,
+            price_breakdown, promo_code, promo_discount, status,
+            pickup_date, pickup_time, return_date, return_time,
+            created_at, updated_at
+        )
+        SELECT
+            w.id, w.name, w.contact, w.address, w.category, w.model, w.vehicle_id, w.unit_id,
+            'weekly', w.price_per_day, w.weeks * 7, w.weeks,
+            w.original_price, w.savings, w.total_weeks_price,
+            -- Rows saved before the pricing rules get an equivalent one-line quote
+            COALESCE(w.price_breakdown, jsonb_build_object(
+                'rentalType', 'weekly',
+                'unit', 'day',
+                'quantity', w.weeks * 7,
+                'rate', w.price_per_day,
+                'days', w.weeks * 7,
+                'baseAmount', w.original_price,
+                'discounts', CASE WHEN w.savings > 0 THEN jsonb_build_array(jsonb_build_object(
+                    'ruleId', 'weekly-35',
+                    'label', 'Weekly discount (' || COALESCE(w.weekly_discount_percent, 35) || '%)',
+                    'kind', 'percentage',
+                    'value', COALESCE(w.weekly_discount_percent, 35),
+                    'amount', w.savings
+                )) ELSE '[]'::JSONB END,
+                'totalDiscount', w.savings,
+                'total', w.total_weeks_price
+            )),
+            w.promo_code, w.promo_discount, COALESCE(w.status, 'pending'),
+            -- Weekly bookings never stored times; use the app's default hand-over times
+            w.pickup_date, '09:00', w.return_date, '18:00',
+            w.created_at, w.updated_at
+        FROM weekly_bookings w
+        ON CONFLICT (id) DO NOTHING;
+
+        ALTER TABLE weekly_bookings RENAME TO weekly_bookings_legacy;
+        RAISE NOTICE 'Copied weekly_bookings into bookings and renamed it to weekly_bookings_legacy';
+    ELSE
+        RAISE NOTICE 'No weekly_bookings table found, nothing to copy';
+    END IF;
+END $$;
+
+-- ====================================
+-- 4. CONSTRAIN THE DISCRIMINATOR
+-- ====================================
+
+ALTER TABLE bookings ALTER COLUMN rental_type SET DEFAULT 'daily';
+ALTER TABLE bookings ALTER COLUMN rental_type SET NOT NULL;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint
+                   WHERE conname = 'bookings_rental_type_check' AND conrelid = to_regclass('bookings')) THEN
+        ALTER TABLE bookings
+            ADD CONSTRAINT bookings_rental_type_check CHECK (rental_type IN ('hourly', 'daily', 'weekly'));
+        RAISE NOTICE 'Added bookings_rental_type_check constraint';
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS bookings_rental_type_idx ON bookings(rental_type, created_at DESC);
+
+-- migrate:down
+-- Irreversible: the copied rows can't be told apart from new weekly bookings.
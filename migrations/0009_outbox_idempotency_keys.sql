@@ -0,0 +1,14 @@
+-- Idempotency keys for bookings replayed from the browser outbox. A replay whose
+-- first attempt did reach the database hits the unique constraint and is ignored.
+-- NULL keys don't collide, so rows created before this migration are unaffected.
+
+-- migrate:up
+ALTER TABLE bookings ADD COLUMN idempotency_key TEXT;
+ALTER TABLE bookings ADD CONSTRAINT bookings_idempotency_key_key UNIQUE (idempotency_key);
+
+ALTER TABLE monthly_subscriptions ADD COLUMN idempotency_key TEXT;
+ALTER TABLE monthly_subscriptions ADD CONSTRAINT monthly_subscriptions_idempotency_key_key UNIQUE (idempotency_key);
+
+-- migrate:down
+ALTER TABLE monthly_subscriptions DROP COLUMN idempotency_key;
+ALTER TABLE bookings DROP COLUMN idempotency_key;
@@ -0,0 +1,29 @@
+-- Site settings editable without a deploy: contact details, opening hours,
+-- promo banner and webhook URLs. Keys match src/lib/siteConfig.ts; a missing
+-- row falls back to the VITE_ environment variable, then to the built-in default.
+
+-- migrate:up
+CREATE TABLE settings (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL,
+  description TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE settings ENABLE ROW LEVEL SECURITY;
+
+-- Every page reads the settings
+CREATE POLICY "Anyone can read settings"
+  ON settings
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE TRIGGER update_settings_updated_at
+    BEFORE UPDATE ON settings
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- migrate:down
+DROP TABLE settings;
@@ -0,0 +1,23 @@
+-- Lets signed-in staff read and update bookings from the /admin dashboard.
+-- Customers still book as anon; only Supabase Auth users can change a booking.
+
+-- migrate:up
+CREATE POLICY "Signed-in users can view bookings"
+  ON bookings
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Signed-in users can update bookings"
+  ON bookings
+  FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE INDEX bookings_pickup_date_idx ON bookings(pickup_date);
+
+-- migrate:down
+DROP INDEX bookings_pickup_date_idx;
+DROP POLICY "Signed-in users can update bookings" ON bookings;
+DROP POLICY "Signed-in users can view bookings" ON bookings;
@@ -0,0 +1,335 @@
+-- Staff accounts and role-based access. Customers (anon) can only create
+-- bookings, subscriptions and contact messages; reading and changing them
+-- needs a Supabase Auth user listed in the staff table.
+--
+--   owner    full access, including deletes, promo codes, vehicles, settings and staff
+--   counter  reads and updates bookings, subscriptions and contact messages
+--
+-- Availability and promo limits still need booking data on the public site, so
+-- they are served by SECURITY DEFINER functions that return no customer details.
+--
+-- To add a staff member, create their user under Authentication → Users, then:
+--   INSERT INTO staff (user_id, name, role) VALUES ('<auth user id>', 'Name', 'counter');
+
+-- migrate:up
+
+-- Supabase provides auth.uid(); create a stand-in so plain Postgres can run this too
+CREATE SCHEMA IF NOT EXISTS auth;
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_proc p JOIN pg_namespace n ON n.oid = p.pronamespace
+        WHERE n.nspname = 'auth' AND p.proname = 'uid'
+    ) THEN
+        CREATE FUNCTION auth.uid() RETURNS UUID
+        LANGUAGE sql STABLE
+        AS $fn$ SELECT nullif(current_setting('request.jwt.claim.sub', true), '')::uuid $fn$;
+    END IF;
+END $$;
+
+-- ====================================
+-- 1. STAFF TABLE AND ROLE HELPERS
+-- ====================================
+
+-- user_id is the Supabase Auth user ID (auth.users.id)
+CREATE TABLE staff (
+  user_id UUID PRIMARY KEY,
+  name TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'counter')),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TRIGGER update_staff_updated_at
+    BEFORE UPDATE ON staff
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- SECURITY DEFINER so policies can check the role without a policy on staff recursing
+CREATE FUNCTION staff_role() RETURNS TEXT
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$ SELECT role FROM staff WHERE user_id = auth.uid() $$;
+
+CREATE FUNCTION is_staff() RETURNS BOOLEAN
+LANGUAGE sql STABLE
+AS $$ SELECT staff_role() IS NOT NULL $$;
+
+CREATE FUNCTION is_owner() RETURNS BOOLEAN
+LANGUAGE sql STABLE
+AS $$ SELECT coalesce(staff_role() = 'owner', false) $$;
+
+ALTER TABLE staff ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view their own record"
+  ON staff
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR is_owner());
+
+CREATE POLICY "Owners can manage staff"
+  ON staff
+  FOR ALL
+  TO authenticated
+  USING (is_owner())
+  WITH CHECK (is_owner());
+
+-- ====================================
+-- 2. BOOKINGS
+-- ====================================
+
+DROP POLICY "Anyone can create bookings" ON bookings;
+DROP POLICY "Anyone can view bookings" ON bookings;
+DROP POLICY "Signed-in users can view bookings" ON bookings;
+DROP POLICY "Signed-in users can update bookings" ON bookings;
+
+CREATE POLICY "Anyone can create bookings"
+  ON bookings
+  FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Staff can view bookings"
+  ON bookings
+  FOR SELECT
+  TO authenticated
+  USING (is_staff());
+
+CREATE POLICY "Staff can update bookings"
+  ON bookings
+  FOR UPDATE
+  TO authenticated
+  USING (is_staff())
+  WITH CHECK (is_staff());
+
+CREATE POLICY "Owners can delete bookings"
+  ON bookings
+  FOR DELETE
+  TO authenticated
+  USING (is_owner());
+
+-- ====================================
+-- 3. MONTHLY SUBSCRIPTIONS AND INSTALMENTS
+-- ====================================
+
+DROP POLICY "Allow all operations on monthly_subscriptions" ON monthly_subscriptions;
+DROP POLICY "Allow all operations on subscription_instalments" ON subscription_instalments;
+
+CREATE POLICY "Anyone can create subscriptions"
+  ON monthly_subscriptions
+  FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Staff can view subscriptions"
+  ON monthly_subscriptions
+  FOR SELECT
+  TO authenticated
+  USING (is_staff());
+
+CREATE POLICY "Staff can update subscriptions"
+  ON monthly_subscriptions
+  FOR UPDATE
+  TO authenticated
+  USING (is_staff())
+  WITH CHECK (is_staff());
+
+CREATE POLICY "Owners can delete subscriptions"
+  ON monthly_subscriptions
+  FOR DELETE
+  TO authenticated
+  USING (is_owner());
+
+-- The booking form writes the first schedule; renewals and terminations are staff-only
+CREATE POLICY "Anyone can create pending instalments"
+  ON subscription_instalments
+  FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (status = 'pending');
+
+CREATE POLICY "Staff can view instalments"
+  ON subscription_instalments
+  FOR SELECT
+  TO authenticated
+  USING (is_staff());
+
+CREATE POLICY "Staff can update instalments"
+  ON subscription_instalments
+  FOR UPDATE
+  TO authenticated
+  USING (is_staff())
+  WITH CHECK (is_staff());
+
+CREATE POLICY "Owners can delete instalments"
+  ON subscription_instalments
+  FOR DELETE
+  TO authenticated
+  USING (is_owner());
+
+-- ====================================
+-- 4. CONTACTS
+-- ====================================
+
+DROP POLICY "Anyone can create contacts" ON contacts;
+DROP POLICY "Anyone can view contacts" ON contacts;
+
+CREATE POLICY "Anyone can create contacts"
+  ON contacts
+  FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Staff can view contacts"
+  ON contacts
+  FOR SELECT
+  TO authenticated
+  USING (is_staff());
+
+CREATE POLICY "Staff can update contacts"
+  ON contacts
+  FOR UPDATE
+  TO authenticated
+  USING (is_staff())
+  WITH CHECK (is_staff());
+
+-- ====================================
+-- 5. OWNER-MANAGED CONFIGURATION
+-- ====================================
+
+CREATE POLICY "Owners can manage promo codes"
+  ON promo_codes
+  FOR ALL
+  TO authenticated
+  USING (is_owner())
+  WITH CHECK (is_owner());
+
+CREATE POLICY "Owners can manage vehicles"
+  ON vehicles
+  FOR ALL
+  TO authenticated
+  USING (is_owner())
+  WITH CHECK (is_owner());
+
+CREATE POLICY "Owners can manage vehicle units"
+  ON vehicle_units
+  FOR ALL
+  TO authenticated
+  USING (is_owner())
+  WITH CHECK (is_owner());
+
+CREATE POLICY "Owners can manage settings"
+  ON settings
+  FOR ALL
+  TO authenticated
+  USING (is_owner())
+  WITH CHECK (is_owner());
+
+-- Signed-in visitors still browse the public catalog
+CREATE POLICY "Signed-in users can view active vehicles"
+  ON vehicles
+  FOR SELECT
+  TO authenticated
+  USING (is_active);
+
+CREATE POLICY "Signed-in users can view vehicle units"
+  ON vehicle_units
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Signed-in users can look up active promo codes"
+  ON promo_codes
+  FOR SELECT
+  TO authenticated
+  USING (is_active);
+
+-- ====================================
+-- 6. PUBLIC READ FUNCTIONS
+-- ====================================
+
+-- Booked date ranges per model for availability checks, without customer details
+CREATE FUNCTION get_booked_windows(p_models TEXT[], p_from DATE)
+RETURNS TABLE (
+  source TEXT,
+  model TEXT,
+  unit_id UUID,
+  status TEXT,
+  pickup_date DATE,
+  return_date DATE,
+  pickup_time TIME,
+  return_time TIME
+)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT 'bookings', b.model, b.unit_id, b.status, b.pickup_date, b.return_date, b.pickup_time, b.return_time
+  FROM bookings b
+  WHERE b.model = ANY (p_models) AND b.return_date >= p_from
+  UNION ALL
+  SELECT 'monthly_subscriptions', s.model, s.unit_id, s.status, s.pickup_date, s.return_date, NULL, NULL
+  FROM monthly_subscriptions s
+  WHERE s.model = ANY (p_models) AND s.return_date >= p_from
+$$;
+
+-- Uses of a promo code, optionally by one customer; cancelled bookings don't count
+CREATE FUNCTION count_promo_redemptions(p_code TEXT, p_contact TEXT DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT (
+    (SELECT count(*) FROM bookings
+      WHERE promo_code = p_code AND status NOT IN ('cancelled', 'test')
+        AND (p_contact IS NULL OR contact = p_contact))
+    +
+    (SELECT count(*) FROM monthly_subscriptions
+      WHERE promo_code = p_code AND status NOT IN ('cancelled', 'test')
+        AND (p_contact IS NULL OR contact = p_contact))
+  )::INTEGER
+$$;
+
+GRANT EXECUTE ON FUNCTION get_booked_windows(TEXT[], DATE) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION count_promo_redemptions(TEXT, TEXT) TO anon, authenticated;
+
+-- migrate:down
+DROP FUNCTION count_promo_redemptions(TEXT, TEXT);
+DROP FUNCTION get_booked_windows(TEXT[], DATE);
+
+DROP POLICY "Signed-in users can look up active promo codes" ON promo_codes;
+DROP POLICY "Signed-in users can view vehicle units" ON vehicle_units;
+DROP POLICY "Signed-in users can view active vehicles" ON vehicles;
+DROP POLICY "Owners can manage settings" ON settings;
+DROP POLICY "Owners can manage vehicle units" ON vehicle_units;
+DROP POLICY "Owners can manage vehicles" ON vehicles;
+DROP POLICY "Owners can manage promo codes" ON promo_codes;
+
+DROP POLICY "Staff can update contacts" ON contacts;
+DROP POLICY "Staff can view contacts" ON contacts;
+DROP POLICY "Anyone can create contacts" ON contacts;
+CREATE POLICY "Anyone can create contacts" ON contacts FOR INSERT TO anon WITH CHECK (true);
+CREATE POLICY "Anyone can view contacts" ON contacts FOR SELECT TO anon USING (true);
+
+DROP POLICY "Owners can delete instalments" ON subscription_instalments;
+DROP POLICY "Staff can update instalments" ON subscription_instalments;
+DROP POLICY "Staff can view instalments" ON subscription_instalments;
+DROP POLICY "Anyone can create pending instalments" ON subscription_instalments;
+DROP POLICY "Owners can delete subscriptions" ON monthly_subscriptions;
+DROP POLICY "Staff can update subscriptions" ON monthly_subscriptions;
+DROP POLICY "Staff can view subscriptions" ON monthly_subscriptions;
+DROP POLICY "Anyone can create subscriptions" ON monthly_subscriptions;
+CREATE POLICY "Allow all operations on monthly_subscriptions" ON monthly_subscriptions
+FOR ALL USING (true) WITH CHECK (true);
+CREATE POLICY "Allow all operations on subscription_instalments" ON subscription_instalments
+FOR ALL USING (true) WITH CHECK (true);
+
+DROP POLICY "Owners can delete bookings" ON bookings;
+DROP POLICY "Staff can update bookings" ON bookings;
+DROP POLICY "Staff can view bookings" ON bookings;
+DROP POLICY "Anyone can create bookings" ON bookings;
+CREATE POLICY "Anyone can create bookings" ON bookings FOR INSERT TO anon WITH CHECK (true);
+CREATE POLICY "Anyone can view bookings" ON bookings FOR SELECT TO anon USING (true);
+CREATE POLICY "Signed-in users can view bookings" ON bookings FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Signed-in users can update bookings" ON bookings FOR UPDATE TO authenticated USING (true) WITH CHECK (true);
+
+DROP TABLE staff;
+DROP FUNCTION is_owner();
+DROP FUNCTION is_staff();
+DROP FUNCTION staff_role();
+-- auth.uid() is left in place; on Supabase it belongs to the auth schema
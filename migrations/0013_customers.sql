@@ -0,0 +1,91 @@
+-- Optional customer accounts. A customer signs in with a phone OTP or email
+-- magic link; their Supabase Auth user ID is their customers.id. Bookings and
+-- subscriptions made while signed in are linked to the account so the customer
+-- can see them under My Bookings. Guest bookings keep customer_id NULL.
+
+-- migrate:up
+CREATE TABLE customers (
+  id UUID PRIMARY KEY, -- Supabase Auth user ID (auth.users.id)
+  name TEXT NOT NULL,
+  contact TEXT NOT NULL,
+  address TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TRIGGER update_customers_updated_at
+    BEFORE UPDATE ON customers
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers can view their own profile"
+  ON customers
+  FOR SELECT
+  TO authenticated
+  USING (id = auth.uid() OR is_staff());
+
+CREATE POLICY "Customers can create their own profile"
+  ON customers
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (id = auth.uid());
+
+CREATE POLICY "Customers can update their own profile"
+  ON customers
+  FOR UPDATE
+  TO authenticated
+  USING (id = auth.uid())
+  WITH CHECK (id = auth.uid());
+
+ALTER TABLE bookings ADD COLUMN customer_id UUID REFERENCES customers(id) ON DELETE SET NULL;
+ALTER TABLE monthly_subscriptions ADD COLUMN customer_id UUID REFERENCES customers(id) ON DELETE SET NULL;
+
+CREATE INDEX bookings_customer_id_idx ON bookings(customer_id);
+CREATE INDEX monthly_subscriptions_customer_id_idx ON monthly_subscriptions(customer_id);
+
+-- The link comes from the session, not the request, so nobody can file a booking
+-- under someone else's account. Staff keep whatever customer_id they send.
+CREATE FUNCTION link_booking_customer() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+    IF NOT is_staff() THEN
+        NEW.customer_id := (SELECT id FROM customers WHERE id = auth.uid());
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER link_bookings_customer
+    BEFORE INSERT ON bookings
+    FOR EACH ROW
+    EXECUTE FUNCTION link_booking_customer();
+
+CREATE TRIGGER link_monthly_subscriptions_customer
+    BEFORE INSERT ON monthly_subscriptions
+    FOR EACH ROW
+    EXECUTE FUNCTION link_booking_customer();
+
+CREATE POLICY "Customers can view their own bookings"
+  ON bookings
+  FOR SELECT
+  TO authenticated
+  USING (customer_id = auth.uid());
+
+CREATE POLICY "Customers can view their own subscriptions"
+  ON monthly_subscriptions
+  FOR SELECT
+  TO authenticated
+  USING (customer_id = auth.uid());
+
+-- migrate:down
+DROP POLICY "Customers can view their own subscriptions" ON monthly_subscriptions;
+DROP POLICY "Customers can view their own bookings" ON bookings;
+DROP TRIGGER link_monthly_subscriptions_customer ON monthly_subscriptions;
+DROP TRIGGER link_bookings_customer ON bookings;
+DROP FUNCTION link_booking_customer();
+ALTER TABLE monthly_subscriptions DROP COLUMN customer_id;
+ALTER TABLE bookings DROP COLUMN customer_id;
+DROP TABLE customers;
@@ -0,0 +1,213 @@
+-- Short booking references (e.g. RR-7K3M9QXD) that customers can quote, and
+-- self-service lookup by reference plus contact number. Customers can cancel
+-- until a set number of hours before pickup (settings.cancellation_window_hours,
+-- default 24) and can ask for different dates; staff make date changes.
+-- Every customer action is written to booking_audit_log.
+
+-- migrate:up
+ALTER TABLE bookings ADD COLUMN reference TEXT;
+ALTER TABLE monthly_subscriptions ADD COLUMN reference TEXT;
+
+-- Existing rows get a reference from their ID
+UPDATE bookings SET reference = 'RR-' || upper(substr(md5(id::text), 1, 8)) WHERE reference IS NULL;
+UPDATE monthly_subscriptions SET reference = 'RR-' || upper(substr(md5(id::text), 1, 8)) WHERE reference IS NULL;
+
+-- The booking form sends a reference derived from the idempotency key; anything
+-- else (older clients, the legacy localStorage queue) gets one here
+CREATE FUNCTION set_booking_reference() RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.reference IS NULL THEN
+        NEW.reference := 'RR-' || upper(substr(md5(coalesce(NEW.idempotency_key, random()::text || clock_timestamp()::text)), 1, 8));
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_bookings_reference
+    BEFORE INSERT ON bookings
+    FOR EACH ROW
+    EXECUTE FUNCTION set_booking_reference();
+
+CREATE TRIGGER set_monthly_subscriptions_reference
+    BEFORE INSERT ON monthly_subscriptions
+    FOR EACH ROW
+    EXECUTE FUNCTION set_booking_reference();
+
+ALTER TABLE bookings ALTER COLUMN reference SET NOT NULL;
+ALTER TABLE monthly_subscriptions ALTER COLUMN reference SET NOT NULL;
+ALTER TABLE bookings ADD CONSTRAINT bookings_reference_key UNIQUE (reference);
+ALTER TABLE monthly_subscriptions ADD CONSTRAINT monthly_subscriptions_reference_key UNIQUE (reference);
+
+-- booking_id points at bookings or monthly_subscriptions, depending on booking_source
+CREATE TABLE booking_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_source TEXT NOT NULL CHECK (booking_source IN ('bookings', 'monthly_subscriptions')),
+  booking_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('cancelled', 'date_change_requested')),
+  actor TEXT NOT NULL CHECK (actor IN ('customer', 'staff')),
+  actor_id UUID, -- Supabase Auth user, when the actor was signed in
+  old_values JSONB,
+  new_values JSONB,
+  note TEXT,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX booking_audit_log_booking_idx ON booking_audit_log(booking_source, booking_id);
+
+ALTER TABLE booking_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Customers write through the functions below, never directly
+CREATE POLICY "Staff can view the booking audit log"
+  ON booking_audit_log
+  FOR SELECT
+  TO authenticated
+  USING (is_staff());
+
+-- Compares the last 10 digits, so "+91 98765 43210" matches "9876543210"
+CREATE FUNCTION contact_matches(p_stored TEXT, p_given TEXT) RETURNS BOOLEAN
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT length(regexp_replace(p_given, '\D', '', 'g')) >= 10
+     AND right(regexp_replace(p_stored, '\D', '', 'g'), 10) = right(regexp_replace(p_given, '\D', '', 'g'), 10)
+$$;
+
+CREATE FUNCTION cancellation_window_hours() RETURNS INTEGER
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT coalesce((SELECT value::INTEGER FROM settings WHERE key = 'cancellation_window_hours'), 24)
+$$;
+
+-- One booking by reference, only if the contact number matches. Pickup times are shop-local.
+CREATE FUNCTION lookup_booking(p_reference TEXT, p_contact TEXT)
+RETURNS TABLE (
+  source TEXT,
+  id UUID,
+  reference TEXT,
+  name TEXT,
+  model TEXT,
+  category TEXT,
+  rental_type TEXT,
+  status TEXT,
+  pickup_date DATE,
+  return_date DATE,
+  pickup_time TIME,
+  return_time TIME,
+  total_price NUMERIC,
+  created_at TIMESTAMPTZ,
+  cancel_deadline TIMESTAMPTZ,
+  can_cancel BOOLEAN,
+  can_request_change BOOLEAN
+)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  WITH found AS (
+    SELECT 'bookings' AS source, b.id, b.reference, b.name, b.model, b.category, b.rental_type, b.status,
+           b.pickup_date, b.return_date, b.pickup_time, b.return_time, b.total_price::NUMERIC, b.created_at,
+           b.status IN ('pending', 'confirmed') AS is_open
+    FROM bookings b
+    WHERE b.reference = upper(trim(p_reference)) AND contact_matches(b.contact, p_contact)
+    UNION ALL
+    SELECT 'monthly_subscriptions', s.id, s.reference, s.name, s.model, s.category, 'monthly', s.status,
+           s.pickup_date, s.return_date, NULL, NULL, s.total_price::NUMERIC, s.created_at,
+           s.status = 'pending'
+    FROM monthly_subscriptions s
+    WHERE s.reference = upper(trim(p_reference)) AND contact_matches(s.contact, p_contact)
+  ), timed AS (
+    SELECT found.*,
+           (pickup_date + coalesce(pickup_time, '09:00'::TIME)) AT TIME ZONE 'Asia/Kolkata' AS pickup_at
+    FROM found
+  )
+  SELECT source, id, reference, name, model, category, rental_type, status,
+         pickup_date, return_date, pickup_time, return_time, total_price, created_at,
+         pickup_at - make_interval(hours => cancellation_window_hours()),
+         is_open AND pickup_at - make_interval(hours => cancellation_window_hours()) > now(),
+         is_open AND pickup_at > now()
+  FROM timed
+$$;
+
+CREATE FUNCTION cancel_booking_by_reference(p_reference TEXT, p_contact TEXT, p_reason TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    v_booking RECORD;
+BEGIN
+    SELECT * INTO v_booking FROM lookup_booking(p_reference, p_contact);
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'No booking matches that reference and contact number' USING ERRCODE = 'P0002';
+    END IF;
+    IF NOT v_booking.can_cancel THEN
+        RAISE EXCEPTION 'This booking can no longer be cancelled online. Please call us.' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF v_booking.source = 'bookings' THEN
+        UPDATE bookings SET status = 'cancelled' WHERE id = v_booking.id;
+    ELSE
+        UPDATE monthly_subscriptions SET status = 'cancelled' WHERE id = v_booking.id;
+        UPDATE subscription_instalments SET status = 'cancelled'
+        WHERE subscription_id = v_booking.id AND status = 'pending';
+    END IF;
+
+    INSERT INTO booking_audit_log (booking_source, booking_id, action, actor, actor_id, old_values, new_values, note)
+    VALUES (
+        v_booking.source, v_booking.id, 'cancelled', 'customer', auth.uid(),
+        jsonb_build_object('status', v_booking.status),
+        jsonb_build_object('status', 'cancelled'),
+        nullif(trim(p_reason), '')
+    );
+END;
+$$;
+
+-- Date changes need a price and availability check, so the customer only asks; staff make the change
+CREATE FUNCTION request_booking_date_change(
+  p_reference TEXT,
+  p_contact TEXT,
+  p_pickup_date DATE,
+  p_return_date DATE,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    v_booking RECORD;
+BEGIN
+    SELECT * INTO v_booking FROM lookup_booking(p_reference, p_contact);
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'No booking matches that reference and contact number' USING ERRCODE = 'P0002';
+    END IF;
+    IF NOT v_booking.can_request_change THEN
+        RAISE EXCEPTION 'This booking can no longer be changed online. Please call us.' USING ERRCODE = 'P0001';
+    END IF;
+    IF p_pickup_date < current_date OR p_return_date < p_pickup_date THEN
+        RAISE EXCEPTION 'Choose a pickup date from today and a return date after it' USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO booking_audit_log (booking_source, booking_id, action, actor, actor_id, old_values, new_values, note)
+    VALUES (
+        v_booking.source, v_booking.id, 'date_change_requested', 'customer', auth.uid(),
+        jsonb_build_object('pickup_date', v_booking.pickup_date, 'return_date', v_booking.return_date),
+        jsonb_build_object('pickup_date', p_pickup_date, 'return_date', p_return_date),
+        nullif(trim(p_note), '')
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION lookup_booking(TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION cancel_booking_by_reference(TEXT, TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION request_booking_date_change(TEXT, TEXT, DATE, DATE, TEXT) TO anon, authenticated;
+
+-- migrate:down
+DROP FUNCTION request_booking_date_change(TEXT, TEXT, DATE, DATE, TEXT);
+DROP FUNCTION cancel_booking_by_reference(TEXT, TEXT, TEXT);
+DROP FUNCTION lookup_booking(TEXT, TEXT);
+DROP FUNCTION cancellation_window_hours();
+DROP FUNCTION contact_matches(TEXT, TEXT);
+DROP TABLE booking_audit_log;
+DROP TRIGGER set_monthly_subscriptions_reference ON monthly_subscriptions;
+DROP TRIGGER set_bookings_reference ON bookings;
+DROP FUNCTION set_booking_reference();
+ALTER TABLE monthly_subscriptions DROP COLUMN reference;
+ALTER TABLE bookings DROP COLUMN reference;
@@ -0,0 +1,270 @@
+-- Extending a booking past its return time. Each extension is its own line
+-- item in booking_extensions, priced separately; the booking's return date,
+-- length and total are moved forward to match. Customers extend through their
+-- booking reference, staff from the admin dashboard.
+
+-- migrate:up
+CREATE TABLE booking_extensions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  previous_return_date DATE NOT NULL,
+  previous_return_time TIME,
+  new_return_date DATE NOT NULL,
+  new_return_time TIME,
+  extra_days INTEGER NOT NULL DEFAULT 0 CHECK (extra_days >= 0),
+  extra_hours INTEGER NOT NULL DEFAULT 0 CHECK (extra_hours >= 0),
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount >= 0),
+  price_breakdown JSONB,
+  requested_by TEXT NOT NULL CHECK (requested_by IN ('customer', 'staff')),
+  actor_id UUID, -- Supabase Auth user, when signed in
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX booking_extensions_booking_id_idx ON booking_extensions(booking_id);
+
+ALTER TABLE booking_extensions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view booking extensions"
+  ON booking_extensions
+  FOR SELECT
+  TO authenticated
+  USING (is_staff());
+
+ALTER TABLE booking_audit_log DROP CONSTRAINT booking_audit_log_action_check;
+ALTER TABLE booking_audit_log ADD CONSTRAINT booking_audit_log_action_check
+  CHECK (action IN ('cancelled', 'date_change_requested', 'extended'));
+
+-- Shared by the customer and staff entry points below; not callable from the API
+CREATE FUNCTION apply_booking_extension(
+  p_booking_id UUID,
+  p_actor TEXT,
+  p_new_return_date DATE,
+  p_new_return_time TIME,
+  p_extra_days INTEGER,
+  p_extra_hours INTEGER,
+  p_amount NUMERIC,
+  p_price_breakdown JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    v_booking bookings%ROWTYPE;
+    v_extension_id UUID;
+BEGIN
+    SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+    END IF;
+    IF v_booking.status NOT IN ('pending', 'confirmed', 'ongoing') THEN
+        RAISE EXCEPTION 'A % booking can''t be extended', v_booking.status USING ERRCODE = 'P0001';
+    END IF;
+    IF v_booking.return_date IS NULL
+       OR p_new_return_date + coalesce(p_new_return_time, '00:00'::TIME)
+          <= v_booking.return_date + coalesce(v_booking.return_time, '00:00'::TIME) THEN
+        RAISE EXCEPTION 'The new return time must be after the current one' USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO booking_extensions (
+        booking_id, previous_return_date, previous_return_time, new_return_date, new_return_time,
+        extra_days, extra_hours, amount, price_breakdown, requested_by, actor_id
+    )
+    VALUES (
+        v_booking.id, v_booking.return_date, v_booking.return_time, p_new_return_date, p_new_return_time,
+        p_extra_days, p_extra_hours, p_amount, p_price_breakdown, p_actor, auth.uid()
+    )
+    RETURNING id INTO v_extension_id;
+
+    UPDATE bookings
+    SET return_date = p_new_return_date,
+        return_time = p_new_return_time,
+        days = CASE WHEN rental_type = 'hourly' THEN days ELSE coalesce(days, 0) + p_extra_days END,
+        hours = CASE WHEN rental_type = 'hourly' THEN coalesce(hours, 0) + p_extra_hours ELSE hours END,
+        total_price = coalesce(total_price, 0) + p_amount
+    WHERE id = v_booking.id;
+
+    INSERT INTO booking_audit_log (booking_source, booking_id, action, actor, actor_id, old_values, new_values)
+    VALUES (
+        'bookings', v_booking.id, 'extended', p_actor, auth.uid(),
+        jsonb_build_object('return_date', v_booking.return_date, 'return_time', v_booking.return_time, 'total_price', v_booking.total_price),
+        jsonb_build_object('return_date', p_new_return_date, 'return_time', p_new_return_time, 'total_price', coalesce(v_booking.total_price, 0) + p_amount)
+    );
+
+    RETURN v_extension_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_booking_extension(UUID, TEXT, DATE, TIME, INTEGER, INTEGER, NUMERIC, JSONB) FROM PUBLIC;
+
+CREATE FUNCTION extend_booking(
+  p_booking_id UUID,
+  p_new_return_date DATE,
+  p_new_return_time TIME,
+  p_extra_days INTEGER,
+  p_extra_hours INTEGER,
+  p_amount NUMERIC,
+  p_price_breakdown JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+    IF NOT is_staff() THEN
+        RAISE EXCEPTION 'Only staff can extend bookings from the dashboard' USING ERRCODE = '42501';
+    END IF;
+    RETURN apply_booking_extension(p_booking_id, 'staff', p_new_return_date, p_new_return_time, p_extra_days, p_extra_hours, p_amount, p_price_breakdown);
+END;
+$$;
+
+CREATE FUNCTION extend_booking_by_reference(
+  p_reference TEXT,
+  p_contact TEXT,
+  p_new_return_date DATE,
+  p_new_return_time TIME,
+  p_extra_days INTEGER,
+  p_extra_hours INTEGER,
+  p_amount NUMERIC,
+  p_price_breakdown JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    v_booking RECORD;
+BEGIN
+    SELECT * INTO v_booking FROM lookup_booking(p_reference, p_contact);
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'No booking matches that reference and contact number' USING ERRCODE = 'P0002';
+    END IF;
+    IF NOT v_booking.can_extend THEN
+        RAISE EXCEPTION 'This booking can''t be extended online. Please call us.' USING ERRCODE = 'P0001';
+    END IF;
+    RETURN apply_booking_extension(v_booking.id, 'customer', p_new_return_date, p_new_return_time, p_extra_days, p_extra_hours, p_amount, p_price_breakdown);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION extend_booking(UUID, DATE, TIME, INTEGER, INTEGER, NUMERIC, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION extend_booking_by_reference(TEXT, TEXT, DATE, TIME, INTEGER, INTEGER, NUMERIC, JSONB) TO anon, authenticated;
+
+-- The lookup now says whether the booking can be extended, and which vehicle and
+-- unit it is on so the page can price the extra time and check availability
+DROP FUNCTION lookup_booking(TEXT, TEXT);
+
+CREATE FUNCTION lookup_booking(p_reference TEXT, p_contact TEXT)
+RETURNS TABLE (
+  source TEXT,
+  id UUID,
+  reference TEXT,
+  name TEXT,
+  model TEXT,
+  category TEXT,
+  vehicle_id TEXT,
+  unit_id UUID,
+  rental_type TEXT,
+  status TEXT,
+  pickup_date DATE,
+  return_date DATE,
+  pickup_time TIME,
+  return_time TIME,
+  total_price NUMERIC,
+  created_at TIMESTAMPTZ,
+  cancel_deadline TIMESTAMPTZ,
+  can_cancel BOOLEAN,
+  can_request_change BOOLEAN,
+  can_extend BOOLEAN
+)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  WITH found AS (
+    SELECT 'bookings' AS source, b.id, b.reference, b.name, b.model, b.category, b.vehicle_id, b.unit_id, b.rental_type, b.status,
+           b.pickup_date, b.return_date, b.pickup_time, b.return_time, b.total_price::NUMERIC, b.created_at,
+           b.status IN ('pending', 'confirmed') AS is_open,
+           b.status IN ('pending', 'confirmed', 'ongoing') AND b.return_date IS NOT NULL AS is_extendable
+    FROM bookings b
+    WHERE b.reference = upper(trim(p_reference)) AND contact_matches(b.contact, p_contact)
+    UNION ALL
+    SELECT 'monthly_subscriptions', s.id, s.reference, s.name, s.model, s.category, s.vehicle_id, s.unit_id, 'monthly', s.status,
+           s.pickup_date, s.return_date, NULL, NULL, s.total_price::NUMERIC, s.created_at,
+           s.status = 'pending',
+           false -- Subscriptions renew instead
+    FROM monthly_subscriptions s
+    WHERE s.reference = upper(trim(p_reference)) AND contact_matches(s.contact, p_contact)
+  ), timed AS (
+    SELECT found.*,
+           (pickup_date + coalesce(pickup_time, '09:00'::TIME)) AT TIME ZONE 'Asia/Kolkata' AS pickup_at,
+           (return_date + coalesce(return_time, '18:00'::TIME)) AT TIME ZONE 'Asia/Kolkata' AS return_at
+    FROM found
+  )
+  SELECT source, id, reference, name, model, category, vehicle_id, unit_id, rental_type, status,
+         pickup_date, return_date, pickup_time, return_time, total_price, created_at,
+         pickup_at - make_interval(hours => cancellation_window_hours()),
+         is_open AND pickup_at - make_interval(hours => cancellation_window_hours()) > now(),
+         is_open AND pickup_at > now(),
+         is_extendable AND return_at > now()
+  FROM timed
+$$;
+
+GRANT EXECUTE ON FUNCTION lookup_booking(TEXT, TEXT) TO anon, authenticated;
+
+-- migrate:down
+DROP FUNCTION lookup_booking(TEXT, TEXT);
+
+CREATE FUNCTION lookup_booking(p_reference TEXT, p_contact TEXT)
+RETURNS TABLE (
+  source TEXT,
+  id UUID,
+  reference TEXT,
+  name TEXT,
+  model TEXT,
+  category TEXT,
+  rental_type TEXT,
+  status TEXT,
+  pickup_date DATE,
+  return_date DATE,
+  pickup_time TIME,
+  return_time TIME,
+  total_price NUMERIC,
+  created_at TIMESTAMPTZ,
+  cancel_deadline TIMESTAMPTZ,
+  can_cancel BOOLEAN,
+  can_request_change BOOLEAN
+)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  WITH found AS (
+    SELECT 'bookings' AS source, b.id, b.reference, b.name, b.model, b.category, b.rental_type, b.status,
+           b.pickup_date, b.return_date, b.pickup_time, b.return_time, b.total_price::NUMERIC, b.created_at,
+           b.status IN ('pending', 'confirmed') AS is_open
+    FROM bookings b
+    WHERE b.reference = upper(trim(p_reference)) AND contact_matches(b.contact, p_contact)
+    UNION ALL
+    SELECT 'monthly_subscriptions', s.id, s.reference, s.name, s.model, s.category, 'monthly', s.status,
+           s.pickup_date, s.return_date, NULL, NULL, s.total_price::NUMERIC, s.created_at,
+           s.status = 'pending'
+    FROM monthly_subscriptions s
+    WHERE s.reference = upper(trim(p_reference)) AND contact_matches(s.contact, p_contact)
+  ), timed AS (
+    SELECT found.*,
+           (pickup_date + coalesce(pickup_time, '09:00'::TIME)) AT TIME ZONE 'Asia/Kolkata' AS pickup_at
+    FROM found
+  )
+  SELECT source, id, reference, name, model, category, rental_type, status,
+         pickup_date, return_date, pickup_time, return_time, total_price, created_at,
+         pickup_at - make_interval(hours => cancellation_window_hours()),
+         is_open AND pickup_at - make_interval(hours => cancellation_window_hours()) > now(),
+         is_open AND pickup_at > now()
+  FROM timed
+$$;
+
+GRANT EXECUTE ON FUNCTION lookup_booking(TEXT, TEXT) TO anon, authenticated;
+
+DROP FUNCTION extend_booking_by_reference(TEXT, TEXT, DATE, TIME, INTEGER, INTEGER, NUMERIC, JSONB);
+DROP FUNCTION extend_booking(UUID, DATE, TIME, INTEGER, INTEGER, NUMERIC, JSONB);
+DROP FUNCTION apply_booking_extension(UUID, TEXT, DATE, TIME, INTEGER, INTEGER, NUMERIC, JSONB);
+
+DELETE FROM booking_audit_log WHERE action = 'extended';
+ALTER TABLE booking_audit_log DROP CONSTRAINT booking_audit_log_action_check;
+ALTER TABLE booking_audit_log ADD CONSTRAINT booking_audit_log_action_check
+  CHECK (action IN ('cancelled', 'date_change_requested'));
+
+DROP TABLE booking_extensions;
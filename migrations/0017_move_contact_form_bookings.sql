@@ -0,0 +1,37 @@
+-- Contact messages used to fall back into bookings when the contacts insert
+-- failed, saved as category 'Contact Form' with the message truncated into
+-- address and the subject in model. Move them into contacts and drop them from
+-- bookings, along with the 'created' events 0016 backfilled for them.
+--
+-- The email was kept in the status as 'CONTACT: <email>', which 0016 moved to
+-- legacy_status; contact holds the phone, or the email when no phone was given.
+--
+-- 0008 now moves these rows itself before adding its rental_type check, so on
+-- databases upgraded since then this finds nothing to move.
+
+-- migrate:up
+INSERT INTO contacts (name, email, phone, subject, message, status, created_at, updated_at)
+SELECT
+  b.name,
+  coalesce(
+    CASE WHEN b.legacy_status LIKE 'CONTACT:%' THEN nullif(trim(substr(b.legacy_status, 9)), '') END,
+    CASE WHEN b.contact LIKE '%@%' THEN b.contact END,
+    ''
+  ),
+  CASE WHEN b.contact NOT LIKE '%@%' THEN b.contact END,
+  coalesce(nullif(b.model, ''), 'General inquiry'),
+  coalesce(b.address, ''),
+  'new',
+  b.created_at,
+  b.updated_at
+FROM bookings b
+WHERE b.category = 'Contact Form';
+
+DELETE FROM booking_events e
+USING bookings b
+WHERE e.booking_source = 'bookings' AND e.booking_id = b.id AND b.category = 'Contact Form';
+
+DELETE FROM bookings WHERE category = 'Contact Form';
+
+-- migrate:down
+-- Irreversible: the moved messages stay in contacts.
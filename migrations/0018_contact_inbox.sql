@@ -0,0 +1,62 @@
+-- Staff inbox for Contact Us messages. A message moves new → read → replied →
+-- closed (any step can be skipped, and a closed message can be reopened as
+-- read). Staff can assign it to a colleague, link it to the booking or
+-- customer it is about, and leave internal notes the sender never sees.
+
+-- migrate:up
+UPDATE contacts SET status = 'new' WHERE status NOT IN ('new', 'read', 'replied', 'closed');
+
+ALTER TABLE contacts ADD CONSTRAINT contacts_status_check CHECK (status IN ('new', 'read', 'replied', 'closed'));
+ALTER TABLE contacts ADD COLUMN assigned_to UUID REFERENCES staff(user_id) ON DELETE SET NULL;
+ALTER TABLE contacts ADD COLUMN booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL;
+ALTER TABLE contacts ADD COLUMN customer_id UUID REFERENCES customers(id) ON DELETE SET NULL;
+
+CREATE INDEX contacts_assigned_to_idx ON contacts(assigned_to);
+
+-- Internal notes; author_id comes from the session so nobody can post as a colleague
+CREATE TABLE contact_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contact_id UUID NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+  author_id UUID REFERENCES staff(user_id) ON DELETE SET NULL DEFAULT auth.uid(),
+  body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX contact_notes_contact_id_idx ON contact_notes(contact_id, created_at);
+
+ALTER TABLE contact_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view contact notes"
+  ON contact_notes
+  FOR SELECT
+  TO authenticated
+  USING (is_staff());
+
+CREATE POLICY "Staff can add contact notes"
+  ON contact_notes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_staff() AND author_id = auth.uid());
+
+CREATE POLICY "Owners can delete contact notes"
+  ON contact_notes
+  FOR DELETE
+  TO authenticated
+  USING (is_owner());
+
+-- Counter staff need their colleagues' names to assign messages and sign notes
+CREATE POLICY "Staff can view the staff list"
+  ON staff
+  FOR SELECT
+  TO authenticated
+  USING (is_staff());
+
+-- migrate:down
+DROP POLICY "Staff can view the staff list" ON staff;
+DROP TABLE contact_notes;
+
+DROP INDEX contacts_assigned_to_idx;
+ALTER TABLE contacts DROP COLUMN customer_id;
+ALTER TABLE contacts DROP COLUMN booking_id;
+ALTER TABLE contacts DROP COLUMN assigned_to;
+ALTER TABLE contacts DROP CONSTRAINT contacts_status_check;
@@ -0,0 +1,45 @@
+-- Customer notifications. Each booking records the language the customer wants
+-- updates in, and every message the notify-booking edge function sends (or
+-- fails to send) is logged per channel in notification_deliveries. Only the
+-- function writes the log, using the service role; staff can read it.
+
+-- migrate:up
+ALTER TABLE bookings ADD COLUMN notification_language TEXT NOT NULL DEFAULT 'en'
+  CHECK (notification_language IN ('en', 'hi'));
+ALTER TABLE monthly_subscriptions ADD COLUMN notification_language TEXT NOT NULL DEFAULT 'en'
+  CHECK (notification_language IN ('en', 'hi'));
+
+CREATE TABLE notification_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_source TEXT NOT NULL CHECK (booking_source IN ('bookings', 'monthly_subscriptions')),
+  booking_id UUID NOT NULL,
+  reference TEXT NOT NULL,
+  event TEXT NOT NULL CHECK (event IN ('booking_created', 'status_changed')),
+  booking_status TEXT NOT NULL, -- The status the message was about
+  channel TEXT NOT NULL, -- Channel name, e.g. 'whatsapp' or 'sms-stub'
+  channel_kind TEXT NOT NULL CHECK (channel_kind IN ('whatsapp', 'sms', 'email', 'webhook')),
+  recipient TEXT,
+  language TEXT NOT NULL CHECK (language IN ('en', 'hi')),
+  subject TEXT NOT NULL,
+  body TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('sent', 'skipped', 'failed')),
+  error TEXT,
+  provider_message_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX notification_deliveries_booking_idx ON notification_deliveries(booking_source, booking_id, event, booking_status);
+CREATE INDEX notification_deliveries_created_at_idx ON notification_deliveries(created_at DESC);
+
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view notification deliveries"
+  ON notification_deliveries
+  FOR SELECT
+  TO authenticated
+  USING (is_staff());
+
+-- migrate:down
+DROP TABLE notification_deliveries;
+ALTER TABLE monthly_subscriptions DROP COLUMN notification_language;
+ALTER TABLE bookings DROP COLUMN notification_language;
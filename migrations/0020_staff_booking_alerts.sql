@@ -0,0 +1,167 @@
+-- Staff alerts for new bookings. Every booking or subscription insert queues
+-- one alert per active destination in staff_alerts, from a trigger, so no
+-- booking is missed whichever path created it. (Weekly rentals have lived in
+-- bookings since 0008, so there is no separate weekly_bookings table to watch.)
+--
+-- The staff-booking-alert edge function sends the queue. Point a Supabase
+-- database webhook at it for INSERTs on staff_alerts so alerts go out at once,
+-- and schedule it every few minutes (Integrations → Cron) to retry failures.
+-- An alert that keeps failing is marked 'dead' and copied to
+-- staff_alert_dead_letters for someone to follow up by hand.
+--
+-- Destinations are managed by owners:
+--   INSERT INTO staff_alert_destinations (kind, target, label) VALUES ('telegram', '<chat id>', 'Shop group');
+--   INSERT INTO staff_alert_destinations (kind, target, label) VALUES ('email', 'owner@example.com', 'Owner');
+--   INSERT INTO staff_alert_destinations (kind, target, label) VALUES ('webhook', 'https://hooks.slack.com/…', 'Slack');
+
+-- migrate:up
+CREATE TABLE staff_alert_destinations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind TEXT NOT NULL CHECK (kind IN ('webhook', 'telegram', 'email')),
+  target TEXT NOT NULL, -- Webhook URL, Telegram chat ID or email address
+  label TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TRIGGER update_staff_alert_destinations_updated_at
+    BEFORE UPDATE ON staff_alert_destinations
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE staff_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  destination_id UUID NOT NULL REFERENCES staff_alert_destinations(id) ON DELETE CASCADE,
+  booking_source TEXT NOT NULL CHECK (booking_source IN ('bookings', 'monthly_subscriptions')),
+  booking_id UUID NOT NULL,
+  payload JSONB NOT NULL, -- The booking details the alert shows, as they were at insert
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_error TEXT,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX staff_alerts_due_idx ON staff_alerts(next_attempt_at) WHERE status = 'pending';
+
+CREATE TABLE staff_alert_dead_letters (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  alert_id UUID REFERENCES staff_alerts(id) ON DELETE SET NULL,
+  destination_kind TEXT NOT NULL,
+  destination_target TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  attempts INTEGER NOT NULL,
+  last_error TEXT,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE staff_alert_destinations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE staff_alerts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE staff_alert_dead_letters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view alert destinations"
+  ON staff_alert_destinations
+  FOR SELECT
+  TO authenticated
+  USING (is_staff());
+
+CREATE POLICY "Owners can manage alert destinations"
+  ON staff_alert_destinations
+  FOR ALL
+  TO authenticated
+  USING (is_owner())
+  WITH CHECK (is_owner());
+
+CREATE POLICY "Staff can view staff alerts"
+  ON staff_alerts
+  FOR SELECT
+  TO authenticated
+  USING (is_staff());
+
+CREATE POLICY "Staff can view dead letters"
+  ON staff_alert_dead_letters
+  FOR SELECT
+  TO authenticated
+  USING (is_staff());
+
+CREATE POLICY "Owners can clear dead letters"
+  ON staff_alert_dead_letters
+  FOR DELETE
+  TO authenticated
+  USING (is_owner());
+
+-- SECURITY DEFINER: customers create bookings but can't see staff_alerts
+CREATE FUNCTION enqueue_staff_alerts() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    v_row JSONB := to_jsonb(NEW);
+BEGIN
+    INSERT INTO staff_alerts (destination_id, booking_source, booking_id, payload)
+    SELECT d.id, TG_TABLE_NAME, NEW.id, jsonb_build_object(
+        'reference', v_row->>'reference',
+        'name', v_row->>'name',
+        'contact', v_row->>'contact',
+        'model', v_row->>'model',
+        'rental_type', coalesce(v_row->>'rental_type', 'monthly'),
+        'pickup_date', v_row->>'pickup_date',
+        'pickup_time', v_row->>'pickup_time',
+        'return_date', v_row->>'return_date',
+        'return_time', v_row->>'return_time',
+        'total_price', (v_row->>'total_price')::NUMERIC,
+        'created_at', v_row->>'created_at'
+    )
+    FROM staff_alert_destinations d
+    WHERE d.is_active;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enqueue_bookings_staff_alerts
+    AFTER INSERT ON bookings
+    FOR EACH ROW
+    EXECUTE FUNCTION enqueue_staff_alerts();
+
+CREATE TRIGGER enqueue_monthly_subscriptions_staff_alerts
+    AFTER INSERT ON monthly_subscriptions
+    FOR EACH ROW
+    EXECUTE FUNCTION enqueue_staff_alerts();
+
+-- Hands the edge function up to p_limit due alerts and holds them for a few
+-- minutes, so an overlapping webhook call and cron run don't send one twice
+CREATE FUNCTION claim_staff_alerts(p_limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+  id UUID,
+  attempts INTEGER,
+  payload JSONB,
+  destination_kind TEXT,
+  destination_target TEXT
+)
+LANGUAGE sql
+AS $$
+  WITH due AS (
+    SELECT a.id FROM staff_alerts a
+    WHERE a.status = 'pending' AND a.next_attempt_at <= now()
+    ORDER BY a.next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE staff_alerts a SET next_attempt_at = now() + interval '5 minutes'
+  FROM due, staff_alert_destinations d
+  WHERE a.id = due.id AND d.id = a.destination_id
+  RETURNING a.id, a.attempts, a.payload, d.kind, d.target
+$$;
+
+-- Only the edge function (service role) may claim alerts
+REVOKE EXECUTE ON FUNCTION claim_staff_alerts(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- migrate:down
+DROP FUNCTION claim_staff_alerts(INTEGER);
+DROP TRIGGER enqueue_monthly_subscriptions_staff_alerts ON monthly_subscriptions;
+DROP TRIGGER enqueue_bookings_staff_alerts ON bookings;
+DROP FUNCTION enqueue_staff_alerts();
+DROP TABLE staff_alert_dead_letters;
+DROP TABLE staff_alerts;
+DROP TABLE staff_alert_destinations;
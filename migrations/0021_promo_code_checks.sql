@@ -0,0 +1,144 @@
+-- Promo codes are checked again when a booking or subscription is saved, not
+-- only in the booking form. The code has to be active, in date, valid for the
+-- vehicle's category and rental length, and under its usage limits, and the
+-- promo discount is worked out here from the code, so a hand-made request
+-- can't claim a bigger one. Saving locks the code's promo_codes row until the
+-- booking commits, so two bookings can't both take its last use.
+--
+-- count_promo_redemptions loses its per-customer argument, which let the public
+-- site ask how often any phone number had used a code. The per-customer limit
+-- is only checked here now.
+
+-- migrate:up
+
+-- Uses of a promo code; cancelled bookings don't count
+DROP FUNCTION count_promo_redemptions(TEXT, TEXT);
+
+CREATE FUNCTION count_promo_redemptions(p_code TEXT)
+RETURNS INTEGER
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT (
+    (SELECT count(*) FROM bookings WHERE promo_code = p_code AND status <> 'cancelled')
+    +
+    (SELECT count(*) FROM monthly_subscriptions WHERE promo_code = p_code AND status <> 'cancelled')
+  )::INTEGER
+$$;
+
+GRANT EXECUTE ON FUNCTION count_promo_redemptions(TEXT) TO anon, authenticated;
+
+-- Mirrors validatePromoCode and applyCoupon in src/lib. Written against
+-- to_jsonb(NEW) so one function serves both tables; jsonb_populate_record
+-- leaves out the columns a table doesn't have (subscriptions have no
+-- discount_amount).
+CREATE FUNCTION apply_promo_code() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    v_row JSONB := to_jsonb(NEW);
+    v_code TEXT := nullif(upper(trim(NEW.promo_code)), '');
+    v_claimed NUMERIC := coalesce(NEW.promo_discount, 0);
+    v_before_promo NUMERIC := coalesce(NEW.total_price, 0) + coalesce(NEW.promo_discount, 0);
+    v_discount NUMERIC := 0;
+    v_days NUMERIC;
+    v_already_saved BOOLEAN;
+    v_promo promo_codes%ROWTYPE;
+BEGIN
+    -- A retry of a booking that is already saved is left for the unique index to refuse.
+    -- Checked first, because its own earlier row would count against the usage limits.
+    EXECUTE format('SELECT EXISTS (SELECT 1 FROM %I WHERE idempotency_key = $1)', TG_TABLE_NAME)
+    INTO v_already_saved
+    USING v_row->>'idempotency_key';
+    IF v_already_saved THEN
+        RETURN NEW;
+    END IF;
+
+    IF v_code IS NOT NULL THEN
+        SELECT * INTO v_promo FROM promo_codes WHERE code = v_code FOR UPDATE;
+        IF NOT FOUND OR NOT v_promo.is_active THEN
+            RAISE EXCEPTION 'Promo code % is not valid', v_code USING ERRCODE = '23514';
+        END IF;
+        IF v_promo.valid_from > now() THEN
+            RAISE EXCEPTION 'Promo code % is not active yet', v_code USING ERRCODE = '23514';
+        END IF;
+        IF v_promo.expires_at < now() THEN
+            RAISE EXCEPTION 'Promo code % has expired', v_code USING ERRCODE = '23514';
+        END IF;
+        IF v_promo.applicable_categories IS NOT NULL AND NOT (NEW.category = ANY (v_promo.applicable_categories)) THEN
+            RAISE EXCEPTION 'Promo code % can''t be used for %', v_code, NEW.category USING ERRCODE = '23514';
+        END IF;
+
+        -- Same lengths as getRentalDays in the booking form
+        v_days := CASE
+            WHEN TG_TABLE_NAME = 'monthly_subscriptions' THEN (v_row->>'months')::NUMERIC * 30
+            WHEN v_row->>'rental_type' = 'hourly' THEN coalesce((v_row->>'hours')::NUMERIC, 0) / 24
+            ELSE coalesce((v_row->>'days')::NUMERIC, 0)
+        END;
+        IF v_days < v_promo.min_days THEN
+            RAISE EXCEPTION 'Promo code % needs a rental of at least % days', v_code, v_promo.min_days USING ERRCODE = '23514';
+        END IF;
+
+        IF v_promo.max_uses IS NOT NULL AND count_promo_redemptions(v_code) >= v_promo.max_uses THEN
+            RAISE EXCEPTION 'Promo code % has been fully redeemed', v_code USING ERRCODE = '23514';
+        END IF;
+        IF v_promo.max_uses_per_customer IS NOT NULL AND (
+            (SELECT count(*) FROM bookings
+              WHERE promo_code = v_code AND status <> 'cancelled'
+                AND (contact = NEW.contact OR contact_matches(contact, NEW.contact)))
+            +
+            (SELECT count(*) FROM monthly_subscriptions
+              WHERE promo_code = v_code AND status <> 'cancelled'
+                AND (contact = NEW.contact OR contact_matches(contact, NEW.contact)))
+        ) >= v_promo.max_uses_per_customer THEN
+            RAISE EXCEPTION 'Promo code % has already been used with this contact number', v_code USING ERRCODE = '23514';
+        END IF;
+
+        v_discount := least(
+            round(CASE WHEN v_promo.kind = 'percentage' THEN v_before_promo * v_promo.value / 100 ELSE v_promo.value END),
+            v_before_promo
+        );
+    END IF;
+
+    NEW := jsonb_populate_record(NEW, jsonb_build_object(
+        'promo_code', CASE WHEN v_discount > 0 THEN v_code END,
+        'promo_discount', v_discount,
+        'total_price', v_before_promo - v_discount,
+        'discount_amount', coalesce((v_row->>'discount_amount')::NUMERIC, 0) - v_claimed + v_discount
+    ));
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_bookings_promo_code
+    BEFORE INSERT ON bookings
+    FOR EACH ROW
+    EXECUTE FUNCTION apply_promo_code();
+
+CREATE TRIGGER apply_monthly_subscriptions_promo_code
+    BEFORE INSERT ON monthly_subscriptions
+    FOR EACH ROW
+    EXECUTE FUNCTION apply_promo_code();
+
+-- migrate:down
+DROP TRIGGER apply_monthly_subscriptions_promo_code ON monthly_subscriptions;
+DROP TRIGGER apply_bookings_promo_code ON bookings;
+DROP FUNCTION apply_promo_code();
+
+DROP FUNCTION count_promo_redemptions(TEXT);
+
+CREATE FUNCTION count_promo_redemptions(p_code TEXT, p_contact TEXT DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT (
+    (SELECT count(*) FROM bookings
+      WHERE promo_code = p_code AND status <> 'cancelled'
+        AND (p_contact IS NULL OR contact = p_contact))
+    +
+    (SELECT count(*) FROM monthly_subscriptions
+      WHERE promo_code = p_code AND status NOT IN ('cancelled', 'test')
+        AND (p_contact IS NULL OR contact = p_contact))
+  )::INTEGER
+$$;
+
+GRANT EXECUTE ON FUNCTION count_promo_redemptions(TEXT, TEXT) TO anon, authenticated;
@@ -0,0 +1,156 @@
+-- A unit can only be out on one rental at a time. The booking form picks a
+-- free unit, but two customers booking the same model at once could both be
+-- given the last one, so saving a booking or subscription now checks the unit
+-- against every other rental still holding it, in either table. Saving locks
+-- the unit's vehicle_units row until the rental commits, so two saves for the
+-- same unit queue up instead of both passing the check.
+--
+-- get_booked_windows is keyed by vehicle_id instead of model name, so two
+-- catalog entries with the same name no longer share their bookings. Older
+-- rows saved without a vehicle_id get one from their model name where only one
+-- vehicle has that name.
+
+-- migrate:up
+
+UPDATE bookings b
+SET vehicle_id = v.id
+FROM vehicles v
+WHERE b.vehicle_id IS NULL
+  AND v.name = b.model
+  AND (SELECT count(*) FROM vehicles other WHERE other.name = v.name) = 1;
+
+UPDATE monthly_subscriptions s
+SET vehicle_id = v.id
+FROM vehicles v
+WHERE s.vehicle_id IS NULL
+  AND v.name = s.model
+  AND (SELECT count(*) FROM vehicles other WHERE other.name = v.name) = 1;
+
+DROP FUNCTION get_booked_windows(TEXT[], DATE);
+
+-- Booked date ranges per vehicle for availability checks, without customer details
+CREATE FUNCTION get_booked_windows(p_vehicle_ids TEXT[], p_from DATE)
+RETURNS TABLE (
+  source TEXT,
+  vehicle_id TEXT,
+  unit_id UUID,
+  status TEXT,
+  pickup_date DATE,
+  return_date DATE,
+  pickup_time TIME,
+  return_time TIME
+)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT 'bookings', b.vehicle_id, b.unit_id, b.status::TEXT, b.pickup_date, b.return_date, b.pickup_time, b.return_time
+  FROM bookings b
+  WHERE b.vehicle_id = ANY (p_vehicle_ids) AND b.return_date >= p_from
+  UNION ALL
+  SELECT 'monthly_subscriptions', s.vehicle_id, s.unit_id, s.status, s.pickup_date, s.return_date, NULL, NULL
+  FROM monthly_subscriptions s
+  WHERE s.vehicle_id = ANY (p_vehicle_ids) AND s.return_date >= p_from
+$$;
+
+GRANT EXECUTE ON FUNCTION get_booked_windows(TEXT[], DATE) TO anon, authenticated;
+
+-- Mirrors findFreeUnits in src/lib/availability.ts: the same released statuses,
+-- and the modal's default hand-over times for rows without times. Written
+-- against to_jsonb(NEW) so one function serves both tables.
+CREATE FUNCTION check_unit_overlap() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    v_row JSONB := to_jsonb(NEW);
+    v_id UUID := (v_row->>'id')::UUID;
+    v_unit_id UUID := (v_row->>'unit_id')::UUID;
+    v_start TIMESTAMP;
+    v_end TIMESTAMP;
+    v_already_saved BOOLEAN;
+BEGIN
+    IF v_unit_id IS NULL
+       OR v_row->>'pickup_date' IS NULL OR v_row->>'return_date' IS NULL
+       OR v_row->>'status' IN ('cancelled', 'completed', 'terminated', 'test') THEN
+        RETURN NEW;
+    END IF;
+
+    -- A retry of a booking that is already saved is left for the unique index
+    -- to refuse; otherwise it would clash with its own earlier row
+    IF TG_OP = 'INSERT' THEN
+        EXECUTE format('SELECT EXISTS (SELECT 1 FROM %I WHERE idempotency_key = $1)', TG_TABLE_NAME)
+        INTO v_already_saved
+        USING v_row->>'idempotency_key';
+        IF v_already_saved THEN
+            RETURN NEW;
+        END IF;
+    END IF;
+
+    PERFORM 1 FROM vehicle_units WHERE id = v_unit_id FOR UPDATE;
+
+    v_start := (v_row->>'pickup_date')::DATE + coalesce((v_row->>'pickup_time')::TIME, '09:00');
+    v_end := (v_row->>'return_date')::DATE + coalesce((v_row->>'return_time')::TIME, '18:00');
+
+    IF EXISTS (
+        SELECT 1 FROM bookings b
+        WHERE b.unit_id = v_unit_id
+          AND b.id <> v_id
+          AND b.status::TEXT NOT IN ('cancelled', 'completed', 'terminated', 'test')
+          AND b.pickup_date + coalesce(b.pickup_time, '09:00') < v_end
+          AND v_start < b.return_date + coalesce(b.return_time, '18:00')
+    ) OR EXISTS (
+        SELECT 1 FROM monthly_subscriptions s
+        WHERE s.unit_id = v_unit_id
+          AND s.id <> v_id
+          AND s.status NOT IN ('cancelled', 'completed', 'terminated', 'test')
+          AND s.pickup_date + TIME '09:00' < v_end
+          AND v_start < s.return_date + TIME '18:00'
+    ) THEN
+        RAISE EXCEPTION 'Unit % is already booked between % and %', v_unit_id, v_start, v_end
+            USING ERRCODE = '23P01';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_bookings_unit_overlap
+    BEFORE INSERT OR UPDATE OF unit_id, status, pickup_date, pickup_time, return_date, return_time ON bookings
+    FOR EACH ROW
+    EXECUTE FUNCTION check_unit_overlap();
+
+CREATE TRIGGER check_monthly_subscriptions_unit_overlap
+    BEFORE INSERT OR UPDATE OF unit_id, status, pickup_date, return_date ON monthly_subscriptions
+    FOR EACH ROW
+    EXECUTE FUNCTION check_unit_overlap();
+
+-- migrate:down
+DROP TRIGGER check_monthly_subscriptions_unit_overlap ON monthly_subscriptions;
+DROP TRIGGER check_bookings_unit_overlap ON bookings;
+DROP FUNCTION check_unit_overlap();
+
+DROP FUNCTION get_booked_windows(TEXT[], DATE);
+
+CREATE FUNCTION get_booked_windows(p_models TEXT[], p_from DATE)
+RETURNS TABLE (
+  source TEXT,
+  model TEXT,
+  unit_id UUID,
+  status TEXT,
+  pickup_date DATE,
+  return_date DATE,
+  pickup_time TIME,
+  return_time TIME
+)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT 'bookings', b.model, b.unit_id, b.status::TEXT, b.pickup_date, b.return_date, b.pickup_time, b.return_time
+  FROM bookings b
+  WHERE b.model = ANY (p_models) AND b.return_date >= p_from
+  UNION ALL
+  SELECT 'monthly_subscriptions', s.model, s.unit_id, s.status, s.pickup_date, s.return_date, NULL, NULL
+  FROM monthly_subscriptions s
+  WHERE s.model = ANY (p_models) AND s.return_date >= p_from
+$$;
+
+GRANT EXECUTE ON FUNCTION get_booked_windows(TEXT[], DATE) TO anon, authenticated;
+
+-- The vehicle_id backfill is left in place; those columns were empty before
@@ -0,0 +1,53 @@
+-- Ending a subscription early in one transaction. The dashboard used to
+-- cancel the unpaid instalments and then mark the subscription terminated as
+-- two separate writes, so a failure in between left an active subscription
+-- with its instalments cancelled. Only an active subscription can be ended.
+
+-- migrate:up
+CREATE FUNCTION terminate_subscription(
+  p_subscription_id UUID,
+  p_last_day DATE,
+  p_fee INTEGER,
+  p_cancelled_instalment_ids UUID[]
+)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    v_subscription monthly_subscriptions%ROWTYPE;
+BEGIN
+    IF NOT is_staff() THEN
+        RAISE EXCEPTION 'Only staff can end subscriptions' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO v_subscription FROM monthly_subscriptions WHERE id = p_subscription_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Subscription not found' USING ERRCODE = 'P0002';
+    END IF;
+    IF v_subscription.status <> 'active' THEN
+        RAISE EXCEPTION 'A % subscription can''t be ended early', v_subscription.status USING ERRCODE = 'P0001';
+    END IF;
+    IF p_last_day < v_subscription.pickup_date OR p_last_day > v_subscription.return_date THEN
+        RAISE EXCEPTION 'The last day must fall within the current term' USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE subscription_instalments
+    SET status = 'cancelled'
+    WHERE subscription_id = p_subscription_id
+      AND id = ANY (p_cancelled_instalment_ids)
+      AND status = 'pending';
+
+    UPDATE monthly_subscriptions
+    SET status = 'terminated',
+        auto_renew = false,
+        return_date = p_last_day,
+        terminated_at = now(),
+        termination_fee = p_fee
+    WHERE id = p_subscription_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION terminate_subscription(UUID, DATE, INTEGER, UUID[]) TO authenticated;
+
+-- migrate:down
+DROP FUNCTION terminate_subscription(UUID, DATE, INTEGER, UUID[]);
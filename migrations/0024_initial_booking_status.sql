@@ -0,0 +1,35 @@
+-- New bookings and subscriptions from the public site always start as
+-- 'pending'. The status transition check only runs on updates, so an insert
+-- could otherwise arrive already 'confirmed' or 'active' and skip it. Staff
+-- inserts are left alone, and so is 'cancelled', which the dev tools use for
+-- test rows that mustn't hold a vehicle; nothing can move on from it.
+--
+-- BEFORE triggers fire in name order, so these run ahead of
+-- apply_*_promo_code and check_*_unit_overlap, which look at the status.
+
+-- migrate:up
+CREATE FUNCTION apply_initial_status() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+    IF NOT is_staff() AND NEW.status::TEXT IS DISTINCT FROM 'cancelled' THEN
+        NEW.status := 'pending';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_bookings_initial_status
+    BEFORE INSERT ON bookings
+    FOR EACH ROW
+    EXECUTE FUNCTION apply_initial_status();
+
+CREATE TRIGGER apply_monthly_subscriptions_initial_status
+    BEFORE INSERT ON monthly_subscriptions
+    FOR EACH ROW
+    EXECUTE FUNCTION apply_initial_status();
+
+-- migrate:down
+DROP TRIGGER apply_monthly_subscriptions_initial_status ON monthly_subscriptions;
+DROP TRIGGER apply_bookings_initial_status ON bookings;
+DROP FUNCTION apply_initial_status();
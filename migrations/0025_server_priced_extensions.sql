@@ -0,0 +1,330 @@
+-- Booking extensions are priced in the database. The extension RPCs used to
+-- store the extra days, hours, amount and price breakdown as the caller sent
+-- them, and the customer one is open to the public site, so a hand-made call
+-- could push the return date out for nothing. They now take only the new
+-- return time; the extra time is measured from the current return and priced
+-- from the vehicle's rates by quote_rental.
+
+-- migrate:up
+
+-- Mirrors quotePrice with DEFAULT_PRICING_RULES in src/lib/pricing.ts and
+-- returns the same PriceBreakdown shape. Both rules are exclusive, so at most
+-- one applies, and neither has dates, so the pickup date doesn't matter.
+CREATE FUNCTION quote_rental(p_vehicle_id TEXT, p_rental_type TEXT, p_quantity NUMERIC)
+RETURNS JSONB
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    v_vehicle vehicles%ROWTYPE;
+    v_unit TEXT;
+    v_rate NUMERIC;
+    v_days NUMERIC;
+    v_base NUMERIC;
+    v_rule_id TEXT;
+    v_label TEXT;
+    v_percent NUMERIC;
+    v_discount NUMERIC := 0;
+BEGIN
+    SELECT * INTO v_vehicle FROM vehicles WHERE id = p_vehicle_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Vehicle % not found', p_vehicle_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF p_rental_type = 'hourly' THEN
+        v_unit := 'hour';
+        v_rate := v_vehicle.hourly_rate;
+        v_days := p_quantity / 24;
+    ELSIF p_rental_type = 'monthly' THEN
+        v_unit := 'month';
+        v_rate := v_vehicle.monthly_rate;
+        v_days := p_quantity * 30;
+    ELSE
+        v_unit := 'day';
+        v_rate := v_vehicle.daily_rate;
+        v_days := p_quantity;
+    END IF;
+    v_base := v_rate * p_quantity;
+
+    IF p_rental_type = 'weekly' THEN
+        v_rule_id := 'weekly-35';
+        v_label := 'Weekly discount (35%)';
+        v_percent := 35;
+    ELSIF p_rental_type = 'daily' AND v_days = 1
+          AND p_vehicle_id IN ('sb-bajaj-pulsar-150', 'sb-bajaj-pulsar-125') THEN
+        v_rule_id := 'pulsar-24h-10';
+        v_label := 'Pulsar 24-hour offer (10%)';
+        v_percent := 10;
+    END IF;
+
+    IF v_rule_id IS NOT NULL THEN
+        v_discount := least(round(v_base * v_percent / 100), v_base);
+    END IF;
+
+    RETURN jsonb_build_object(
+        'rentalType', p_rental_type,
+        'unit', v_unit,
+        'quantity', p_quantity,
+        'rate', v_rate,
+        'days', v_days,
+        'baseAmount', v_base,
+        'discounts', CASE WHEN v_discount > 0 THEN jsonb_build_array(jsonb_build_object(
+            'ruleId', v_rule_id,
+            'label', v_label,
+            'kind', 'percentage',
+            'value', v_percent,
+            'amount', v_discount
+        )) ELSE '[]'::JSONB END,
+        'totalDiscount', v_discount,
+        'total', v_base - v_discount
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION quote_rental(TEXT, TEXT, NUMERIC) FROM PUBLIC;
+
+DROP FUNCTION extend_booking_by_reference(TEXT, TEXT, DATE, TIME, INTEGER, INTEGER, NUMERIC, JSONB);
+DROP FUNCTION extend_booking(UUID, DATE, TIME, INTEGER, INTEGER, NUMERIC, JSONB);
+DROP FUNCTION apply_booking_extension(UUID, TEXT, DATE, TIME, INTEGER, INTEGER, NUMERIC, JSONB);
+
+-- Mirrors quoteExtension in src/lib/extensions.ts: hourly bookings pay for the
+-- extra hours, everything else for the extra days as a daily rental
+CREATE FUNCTION apply_booking_extension(
+  p_booking_id UUID,
+  p_actor TEXT,
+  p_new_return_date DATE,
+  p_new_return_time TIME
+)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    v_booking bookings%ROWTYPE;
+    v_current_return TIMESTAMP;
+    v_new_return TIMESTAMP;
+    v_extra_seconds NUMERIC;
+    v_extra_days INTEGER := 0;
+    v_extra_hours INTEGER := 0;
+    v_quote JSONB;
+    v_amount NUMERIC;
+    v_extension_id UUID;
+BEGIN
+    SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+    END IF;
+    IF v_booking.status NOT IN ('pending', 'confirmed', 'ongoing') THEN
+        RAISE EXCEPTION 'A % booking can''t be extended', v_booking.status USING ERRCODE = 'P0001';
+    END IF;
+    IF v_booking.vehicle_id IS NULL THEN
+        RAISE EXCEPTION 'This booking has no vehicle on record, so it can''t be priced for an extension' USING ERRCODE = 'P0001';
+    END IF;
+    IF v_booking.return_date IS NULL THEN
+        RAISE EXCEPTION 'The new return time must be after the current one' USING ERRCODE = '22023';
+    END IF;
+
+    -- Bookings saved without a return time are handed back at the default time
+    v_current_return := v_booking.return_date + coalesce(v_booking.return_time, '18:00'::TIME);
+    v_new_return := p_new_return_date + coalesce(p_new_return_time, '18:00'::TIME);
+    IF v_new_return <= v_current_return THEN
+        RAISE EXCEPTION 'The new return time must be after the current one' USING ERRCODE = '22023';
+    END IF;
+
+    v_extra_seconds := extract(epoch FROM v_new_return - v_current_return);
+    IF v_booking.rental_type = 'hourly' THEN
+        v_extra_hours := ceil(v_extra_seconds / 3600);
+        v_quote := quote_rental(v_booking.vehicle_id, 'hourly', v_extra_hours);
+    ELSE
+        v_extra_days := ceil(v_extra_seconds / 86400);
+        v_quote := quote_rental(v_booking.vehicle_id, 'daily', v_extra_days);
+    END IF;
+    v_amount := (v_quote->>'total')::NUMERIC;
+
+    INSERT INTO booking_extensions (
+        booking_id, previous_return_date, previous_return_time, new_return_date, new_return_time,
+        extra_days, extra_hours, amount, price_breakdown, requested_by, actor_id
+    )
+    VALUES (
+        v_booking.id, v_booking.return_date, v_booking.return_time, p_new_return_date, p_new_return_time,
+        v_extra_days, v_extra_hours, v_amount, v_quote, p_actor, auth.uid()
+    )
+    RETURNING id INTO v_extension_id;
+
+    UPDATE bookings
+    SET return_date = p_new_return_date,
+        return_time = p_new_return_time,
+        days = CASE WHEN rental_type = 'hourly' THEN days ELSE coalesce(days, 0) + v_extra_days END,
+        hours = CASE WHEN rental_type = 'hourly' THEN coalesce(hours, 0) + v_extra_hours ELSE hours END,
+        total_price = coalesce(total_price, 0) + v_amount
+    WHERE id = v_booking.id;
+
+    INSERT INTO booking_events (booking_source, booking_id, action, actor, actor_id, old_values, new_values)
+    VALUES (
+        'bookings', v_booking.id, 'extended', p_actor, auth.uid(),
+        jsonb_build_object('return_date', v_booking.return_date, 'return_time', v_booking.return_time, 'total_price', v_booking.total_price),
+        jsonb_build_object('return_date', p_new_return_date, 'return_time', p_new_return_time, 'total_price', coalesce(v_booking.total_price, 0) + v_amount)
+    );
+
+    RETURN v_extension_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_booking_extension(UUID, TEXT, DATE, TIME) FROM PUBLIC;
+
+CREATE FUNCTION extend_booking(
+  p_booking_id UUID,
+  p_new_return_date DATE,
+  p_new_return_time TIME
+)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+    IF NOT is_staff() THEN
+        RAISE EXCEPTION 'Only staff can extend bookings from the dashboard' USING ERRCODE = '42501';
+    END IF;
+    RETURN apply_booking_extension(p_booking_id, 'staff', p_new_return_date, p_new_return_time);
+END;
+$$;
+
+CREATE FUNCTION extend_booking_by_reference(
+  p_reference TEXT,
+  p_contact TEXT,
+  p_new_return_date DATE,
+  p_new_return_time TIME
+)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    v_booking RECORD;
+BEGIN
+    SELECT * INTO v_booking FROM lookup_booking(p_reference, p_contact);
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'No booking matches that reference and contact number' USING ERRCODE = 'P0002';
+    END IF;
+    IF NOT v_booking.can_extend THEN
+        RAISE EXCEPTION 'This booking can''t be extended online. Please call us.' USING ERRCODE = 'P0001';
+    END IF;
+    RETURN apply_booking_extension(v_booking.id, 'customer', p_new_return_date, p_new_return_time);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION extend_booking(UUID, DATE, TIME) TO authenticated;
+GRANT EXECUTE ON FUNCTION extend_booking_by_reference(TEXT, TEXT, DATE, TIME) TO anon, authenticated;
+
+-- migrate:down
+DROP FUNCTION extend_booking_by_reference(TEXT, TEXT, DATE, TIME);
+DROP FUNCTION extend_booking(UUID, DATE, TIME);
+DROP FUNCTION apply_booking_extension(UUID, TEXT, DATE, TIME);
+DROP FUNCTION quote_rental(TEXT, TEXT, NUMERIC);
+
+CREATE FUNCTION apply_booking_extension(
+  p_booking_id UUID,
+  p_actor TEXT,
+  p_new_return_date DATE,
+  p_new_return_time TIME,
+  p_extra_days INTEGER,
+  p_extra_hours INTEGER,
+  p_amount NUMERIC,
+  p_price_breakdown JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    v_booking bookings%ROWTYPE;
+    v_extension_id UUID;
+BEGIN
+    SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+    END IF;
+    IF v_booking.status NOT IN ('pending', 'confirmed', 'ongoing') THEN
+        RAISE EXCEPTION 'A % booking can''t be extended', v_booking.status USING ERRCODE = 'P0001';
+    END IF;
+    IF v_booking.return_date IS NULL
+       OR p_new_return_date + coalesce(p_new_return_time, '00:00'::TIME)
+          <= v_booking.return_date + coalesce(v_booking.return_time, '00:00'::TIME) THEN
+        RAISE EXCEPTION 'The new return time must be after the current one' USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO booking_extensions (
+        booking_id, previous_return_date, previous_return_time, new_return_date, new_return_time,
+        extra_days, extra_hours, amount, price_breakdown, requested_by, actor_id
+    )
+    VALUES (
+        v_booking.id, v_booking.return_date, v_booking.return_time, p_new_return_date, p_new_return_time,
+        p_extra_days, p_extra_hours, p_amount, p_price_breakdown, p_actor, auth.uid()
+    )
+    RETURNING id INTO v_extension_id;
+
+    UPDATE bookings
+    SET return_date = p_new_return_date,
+        return_time = p_new_return_time,
+        days = CASE WHEN rental_type = 'hourly' THEN days ELSE coalesce(days, 0) + p_extra_days END,
+        hours = CASE WHEN rental_type = 'hourly' THEN coalesce(hours, 0) + p_extra_hours ELSE hours END,
+        total_price = coalesce(total_price, 0) + p_amount
+    WHERE id = v_booking.id;
+
+    INSERT INTO booking_events (booking_source, booking_id, action, actor, actor_id, old_values, new_values)
+    VALUES (
+        'bookings', v_booking.id, 'extended', p_actor, auth.uid(),
+        jsonb_build_object('return_date', v_booking.return_date, 'return_time', v_booking.return_time, 'total_price', v_booking.total_price),
+        jsonb_build_object('return_date', p_new_return_date, 'return_time', p_new_return_time, 'total_price', coalesce(v_booking.total_price, 0) + p_amount)
+    );
+
+    RETURN v_extension_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_booking_extension(UUID, TEXT, DATE, TIME, INTEGER, INTEGER, NUMERIC, JSONB) FROM PUBLIC;
+
+CREATE FUNCTION extend_booking(
+  p_booking_id UUID,
+  p_new_return_date DATE,
+  p_new_return_time TIME,
+  p_extra_days INTEGER,
+  p_extra_hours INTEGER,
+  p_amount NUMERIC,
+  p_price_breakdown JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+    IF NOT is_staff() THEN
+        RAISE EXCEPTION 'Only staff can extend bookings from the dashboard' USING ERRCODE = '42501';
+    END IF;
+    RETURN apply_booking_extension(p_booking_id, 'staff', p_new_return_date, p_new_return_time, p_extra_days, p_extra_hours, p_amount, p_price_breakdown);
+END;
+$$;
+
+CREATE FUNCTION extend_booking_by_reference(
+  p_reference TEXT,
+  p_contact TEXT,
+  p_new_return_date DATE,
+  p_new_return_time TIME,
+  p_extra_days INTEGER,
+  p_extra_hours INTEGER,
+  p_amount NUMERIC,
+  p_price_breakdown JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    v_booking RECORD;
+BEGIN
+    SELECT * INTO v_booking FROM lookup_booking(p_reference, p_contact);
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'No booking matches that reference and contact number' USING ERRCODE = 'P0002';
+    END IF;
+    IF NOT v_booking.can_extend THEN
+        RAISE EXCEPTION 'This booking can''t be extended online. Please call us.' USING ERRCODE = 'P0001';
+    END IF;
+    RETURN apply_booking_extension(v_booking.id, 'customer', p_new_return_date, p_new_return_time, p_extra_days, p_extra_hours, p_amount, p_price_breakdown);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION extend_booking(UUID, DATE, TIME, INTEGER, INTEGER, NUMERIC, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION extend_booking_by_reference(TEXT, TEXT, DATE, TIME, INTEGER, INTEGER, NUMERIC, JSONB) TO anon, authenticated;
@@ -0,0 +1,219 @@
+-- Bookings and subscriptions are priced in the database when they are saved.
+-- 0021 checked promo codes here but worked the discount out from the total
+-- the client sent, so a hand-made insert could still pick its own price. The
+-- price before the promo now comes from quote_rental, using the vehicle's
+-- rates and the length in days, hours or months, and the price columns and
+-- breakdown are overwritten to match. Rows without a vehicle_id can't be
+-- priced: they keep the price they were sent, for staff to check, and can't
+-- use a promo code.
+
+-- migrate:up
+
+-- Mirrors quotePrice and applyCoupon in src/lib/pricing.ts. Written against
+-- to_jsonb(NEW) so one function serves both tables; jsonb_populate_record
+-- leaves out the columns a table doesn't have (subscriptions have no
+-- price_per_day, base_amount or discount_amount). Amounts are rounded to
+-- whole rupees, since the subscription columns are integers.
+CREATE OR REPLACE FUNCTION apply_promo_code() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    v_row JSONB := to_jsonb(NEW);
+    v_code TEXT := nullif(upper(trim(NEW.promo_code)), '');
+    v_vehicle vehicles%ROWTYPE;
+    v_rental_type TEXT;
+    v_quantity NUMERIC;
+    v_quote JSONB;
+    v_breakdown JSONB;
+    v_before_promo NUMERIC;
+    v_discount NUMERIC := 0;
+    v_days NUMERIC;
+    v_already_saved BOOLEAN;
+    v_promo promo_codes%ROWTYPE;
+BEGIN
+    -- A retry of a booking that is already saved is left for the unique index to refuse.
+    -- Checked first, because its own earlier row would count against the usage limits.
+    EXECUTE format('SELECT EXISTS (SELECT 1 FROM %I WHERE idempotency_key = $1)', TG_TABLE_NAME)
+    INTO v_already_saved
+    USING v_row->>'idempotency_key';
+    IF v_already_saved THEN
+        RETURN NEW;
+    END IF;
+
+    IF v_row->>'vehicle_id' IS NULL THEN
+        IF v_code IS NOT NULL THEN
+            RAISE EXCEPTION 'Promo code % needs a vehicle from the catalog', v_code USING ERRCODE = '23514';
+        END IF;
+        NEW := jsonb_populate_record(NEW, jsonb_build_object('promo_code', NULL, 'promo_discount', 0));
+        RETURN NEW;
+    END IF;
+
+    SELECT * INTO v_vehicle FROM vehicles WHERE id = v_row->>'vehicle_id';
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Vehicle % not found', v_row->>'vehicle_id' USING ERRCODE = '23503';
+    END IF;
+
+    -- Same lengths as the booking form: days for daily and weekly rentals, hours or months otherwise
+    IF TG_TABLE_NAME = 'monthly_subscriptions' THEN
+        v_rental_type := 'monthly';
+        v_quantity := (v_row->>'months')::NUMERIC;
+    ELSE
+        v_rental_type := coalesce(v_row->>'rental_type', 'daily');
+        v_quantity := CASE WHEN v_rental_type = 'hourly'
+            THEN coalesce((v_row->>'hours')::NUMERIC, 0)
+            ELSE coalesce((v_row->>'days')::NUMERIC, 0)
+        END;
+    END IF;
+
+    v_quote := quote_rental(v_vehicle.id, v_rental_type, v_quantity);
+    v_breakdown := v_quote;
+    v_before_promo := round((v_quote->>'total')::NUMERIC);
+    v_days := (v_quote->>'days')::NUMERIC;
+
+    IF v_code IS NOT NULL THEN
+        SELECT * INTO v_promo FROM promo_codes WHERE code = v_code FOR UPDATE;
+        IF NOT FOUND OR NOT v_promo.is_active THEN
+            RAISE EXCEPTION 'Promo code % is not valid', v_code USING ERRCODE = '23514';
+        END IF;
+        IF v_promo.valid_from > now() THEN
+            RAISE EXCEPTION 'Promo code % is not active yet', v_code USING ERRCODE = '23514';
+        END IF;
+        IF v_promo.expires_at < now() THEN
+            RAISE EXCEPTION 'Promo code % has expired', v_code USING ERRCODE = '23514';
+        END IF;
+        IF v_promo.applicable_categories IS NOT NULL AND NOT (v_vehicle.category = ANY (v_promo.applicable_categories)) THEN
+            RAISE EXCEPTION 'Promo code % can''t be used for %', v_code, v_vehicle.category USING ERRCODE = '23514';
+        END IF;
+        IF v_days < v_promo.min_days THEN
+            RAISE EXCEPTION 'Promo code % needs a rental of at least % days', v_code, v_promo.min_days USING ERRCODE = '23514';
+        END IF;
+
+        IF v_promo.max_uses IS NOT NULL AND count_promo_redemptions(v_code) >= v_promo.max_uses THEN
+            RAISE EXCEPTION 'Promo code % has been fully redeemed', v_code USING ERRCODE = '23514';
+        END IF;
+        IF v_promo.max_uses_per_customer IS NOT NULL AND (
+            (SELECT count(*) FROM bookings
+              WHERE promo_code = v_code AND status <> 'cancelled'
+                AND (contact = NEW.contact OR contact_matches(contact, NEW.contact)))
+            +
+            (SELECT count(*) FROM monthly_subscriptions
+              WHERE promo_code = v_code AND status <> 'cancelled'
+                AND (contact = NEW.contact OR contact_matches(contact, NEW.contact)))
+        ) >= v_promo.max_uses_per_customer THEN
+            RAISE EXCEPTION 'Promo code % has already been used with this contact number', v_code USING ERRCODE = '23514';
+        END IF;
+
+        v_discount := least(
+            round(CASE WHEN v_promo.kind = 'percentage' THEN v_before_promo * v_promo.value / 100 ELSE v_promo.value END),
+            v_before_promo
+        );
+    END IF;
+
+    IF v_discount > 0 THEN
+        v_breakdown := v_quote || jsonb_build_object(
+            'discounts', (v_quote->'discounts') || jsonb_build_array(jsonb_build_object(
+                'ruleId', 'promo:' || v_code,
+                'label', 'Promo ' || v_code || CASE WHEN v_promo.kind = 'percentage' THEN ' (' || trim_scale(v_promo.value) || '%)' ELSE '' END,
+                'kind', v_promo.kind,
+                'value', trim_scale(v_promo.value),
+                'amount', v_discount
+            )),
+            'totalDiscount', (v_quote->>'totalDiscount')::NUMERIC + v_discount,
+            'total', v_before_promo - v_discount,
+            'promoCode', v_code
+        );
+    END IF;
+
+    NEW := jsonb_populate_record(NEW, jsonb_build_object(
+        'price_per_day', v_vehicle.daily_rate,
+        'price_per_hour', CASE WHEN v_rental_type = 'hourly' THEN v_vehicle.hourly_rate END,
+        'monthly_rate', round(v_vehicle.monthly_rate),
+        'base_amount', round((v_quote->>'baseAmount')::NUMERIC),
+        'discount_amount', round((v_quote->>'totalDiscount')::NUMERIC) + v_discount,
+        'promo_code', CASE WHEN v_discount > 0 THEN v_code END,
+        'promo_discount', v_discount,
+        'total_price', v_before_promo - v_discount,
+        'price_breakdown', v_breakdown
+    ));
+    RETURN NEW;
+END;
+$$;
+
+-- migrate:down
+CREATE OR REPLACE FUNCTION apply_promo_code() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    v_row JSONB := to_jsonb(NEW);
+    v_code TEXT := nullif(upper(trim(NEW.promo_code)), '');
+    v_claimed NUMERIC := coalesce(NEW.promo_discount, 0);
+    v_before_promo NUMERIC := coalesce(NEW.total_price, 0) + coalesce(NEW.promo_discount, 0);
+    v_discount NUMERIC := 0;
+    v_days NUMERIC;
+    v_already_saved BOOLEAN;
+    v_promo promo_codes%ROWTYPE;
+BEGIN
+    -- A retry of a booking that is already saved is left for the unique index to refuse.
+    -- Checked first, because its own earlier row would count against the usage limits.
+    EXECUTE format('SELECT EXISTS (SELECT 1 FROM %I WHERE idempotency_key = $1)', TG_TABLE_NAME)
+    INTO v_already_saved
+    USING v_row->>'idempotency_key';
+    IF v_already_saved THEN
+        RETURN NEW;
+    END IF;
+
+    IF v_code IS NOT NULL THEN
+        SELECT * INTO v_promo FROM promo_codes WHERE code = v_code FOR UPDATE;
+        IF NOT FOUND OR NOT v_promo.is_active THEN
+            RAISE EXCEPTION 'Promo code % is not valid', v_code USING ERRCODE = '23514';
+        END IF;
+        IF v_promo.valid_from > now() THEN
+            RAISE EXCEPTION 'Promo code % is not active yet', v_code USING ERRCODE = '23514';
+        END IF;
+        IF v_promo.expires_at < now() THEN
+            RAISE EXCEPTION 'Promo code % has expired', v_code USING ERRCODE = '23514';
+        END IF;
+        IF v_promo.applicable_categories IS NOT NULL AND NOT (NEW.category = ANY (v_promo.applicable_categories)) THEN
+            RAISE EXCEPTION 'Promo code % can''t be used for %', v_code, NEW.category USING ERRCODE = '23514';
+        END IF;
+
+        -- Same lengths as getRentalDays in the booking form
+        v_days := CASE
+            WHEN TG_TABLE_NAME = 'monthly_subscriptions' THEN (v_row->>'months')::NUMERIC * 30
+            WHEN v_row->>'rental_type' = 'hourly' THEN coalesce((v_row->>'hours')::NUMERIC, 0) / 24
+            ELSE coalesce((v_row->>'days')::NUMERIC, 0)
+        END;
+        IF v_days < v_promo.min_days THEN
+            RAISE EXCEPTION 'Promo code % needs a rental of at least % days', v_code, v_promo.min_days USING ERRCODE = '23514';
+        END IF;
+
+        IF v_promo.max_uses IS NOT NULL AND count_promo_redemptions(v_code) >= v_promo.max_uses THEN
+            RAISE EXCEPTION 'Promo code % has been fully redeemed', v_code USING ERRCODE = '23514';
+        END IF;
+        IF v_promo.max_uses_per_customer IS NOT NULL AND (
+            (SELECT count(*) FROM bookings
+              WHERE promo_code = v_code AND status <> 'cancelled'
+                AND (contact = NEW.contact OR contact_matches(contact, NEW.contact)))
+            +
+            (SELECT count(*) FROM monthly_subscriptions
+              WHERE promo_code = v_code AND status <> 'cancelled'
+                AND (contact = NEW.contact OR contact_matches(contact, NEW.contact)))
+        ) >= v_promo.max_uses_per_customer THEN
+            RAISE EXCEPTION 'Promo code % has already been used with this contact number', v_code USING ERRCODE = '23514';
+        END IF;
+
+        v_discount := least(
+            round(CASE WHEN v_promo.kind = 'percentage' THEN v_before_promo * v_promo.value / 100 ELSE v_promo.value END),
+            v_before_promo
+        );
+    END IF;
+
+    NEW := jsonb_populate_record(NEW, jsonb_build_object(
+        'promo_code', CASE WHEN v_discount > 0 THEN v_code END,
+        'promo_discount', v_discount,
+        'total_price', v_before_promo - v_discount,
+        'discount_amount', coalesce((v_row->>'discount_amount')::NUMERIC, 0) - v_claimed + v_discount
+    ));
+    RETURN NEW;
+END;
+$$;
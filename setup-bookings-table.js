@@ -1,27 +1,18 @@
 // setup-bookings-table.js
-// This script helps set up the bookings table in your Supabase project
+// This script helps set up the bookings table in your Supabase project.
+// The schema itself comes from the versioned files in ./migrations (see migrate.js).
 
 import { createClient } from '@supabase/supabase-js';
 import dotenv from 'dotenv';
-import fs from 'fs';
-import path from 'path';
-import { fileURLToPath } from 'url';
+import { connect, migrateUp } from './migrate.js';
 
 // Load environment variables
 dotenv.config();
 
-// Get the directory name
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-
 // Get Supabase credentials from .env
 const supabaseUrl = process.env.VITE_SUPABASE_URL;
 const supabaseKey = process.env.VITE_SUPABASE_ANON_KEY;
 
-// SQL to create the bookings table
-const sqlFilePath = path.join(__dirname, 'setup-bookings-table.sql');
-const createTableSQL = fs.readFileSync(sqlFilePath, 'utf8');
-
 // Log setup start
 console.log('\n===== Bookings Table Setup =====\n');
 console.log(`Using Supabase URL: ${supabaseUrl}`);
@@ -42,27 +33,30 @@ const supabase = createClient(supabaseUrl, supabaseKey);
 // Function to create the bookings table
 async function setupBookingsTable() {
   try {
-    console.log('\nAttempting to create bookings table...');
-    
-    // Use rpc to execute SQL directly (if available)
-    // Note: This requires the 'postgres' extension to be enabled
-    const { error } = await supabase.rpc('exec', { 
-      query: createTableSQL 
-    }).catch(() => {
-      // If rpc fails, we'll show instructions for manual setup
-      return { error: { message: 'RPC not available' } };
-    });
+    console.log('\nApplying schema migrations...');
 
-    if (error) {
-      console.log('\n⚠️ Could not create table automatically.');
-      console.log('Error:', error.message);
-      console.log('\nPlease follow these manual steps:');
+    // Migrations need a direct Postgres connection; the anon key can't run DDL
+    if (!process.env.DATABASE_URL) {
+      console.log('\n⚠️ DATABASE_URL is not set, so the schema could not be migrated automatically.');
+      console.log('\nEither add DATABASE_URL to .env and run this script again, or:');
       console.log('1. Go to your Supabase dashboard');
       console.log('2. Open the SQL Editor');
-      console.log('3. Copy and paste the SQL from setup-bookings-table.sql');
-      console.log('4. Run the SQL commands to create the table structure');
+      console.log('3. Run each file in the migrations folder in order (the "-- migrate:up" part)');
+      console.log('4. Once DATABASE_URL is set, record them with: npm run migrate -- baseline <last version>');
     } else {
-      console.log('\n✅ Bookings table created successfully!');
+      const client = await connect();
+      try {
+        const applied = await migrateUp(client);
+        console.log(applied.length > 0
+          ? `\n✅ Applied ${applied.length} migration(s)!`
+          : '\n✅ Schema already up to date!');
+      } catch (migrationError) {
+        console.log('\n⚠️ Could not apply migrations.');
+        console.log('Error:', migrationError.message);
+        console.log('\nRun "npm run migrate -- status" and "npm run migrate -- drift" to see what the database is missing.');
+      } finally {
+        await client.end();
+      }
     }
     
     // Check if we can connect to the table
@@ -13,7 +13,15 @@ import ContactPage from './pages/ContactPage';
 import SetupContactsTable from './pages/SetupContactsTable';
 import SetupPage from './pages/SetupPage';
 import SupabaseFixPage from './pages/SupabaseFixPage';
+import AdminPage from './pages/AdminPage';
+import AdminInboxPage from './pages/AdminInboxPage';
+import AdminSubscriptionsPage from './pages/AdminSubscriptionsPage';
+import MyBookingsPage from './pages/MyBookingsPage';
+import BookingLookupPage from './pages/BookingLookupPage';
+import AuthProvider from './components/AuthProvider';
+import RequireStaff from './components/RequireStaff';
 import { checkSupabaseEnv } from './utils/checkEnv';
+import { startOutboxSync } from './lib/outbox';
 
 function App() {
   // Get the basename from the current URL if it's a subdomain
@@ -38,28 +46,38 @@ function App() {
     console.log('Skipping Supabase connection test to prevent blocking');
   }, []);
 
+  // Retry bookings that were queued while Supabase was unreachable
+  useEffect(() => startOutboxSync(), []);
+
   return (
-    <Router basename={getBasename()}>
-      <div className="min-h-screen bg-white">
-        <Navbar />
-        <Routes>
-          <Route path="/" element={<HomePage />} />
-          <Route path="/test" element={<TestPage />} />
-          <Route path="/home" element={<HomePage />} />
-          <Route path="/sports-bikes" element={<SportsBikePage />} />
-          <Route path="/normal-bikes" element={<NormalBikePage />} />
-          <Route path="/scooties" element={<ScootyPage />} />
-          <Route path="/contact" element={<ContactPage />} />
-          <Route path="/setup-contacts" element={<SetupContactsTable />} />
-          <Route path="/setup-supabase" element={<SetupPage />} />
-          <Route path="/fix-supabase" element={<SupabaseFixPage />} />
-        </Routes>
-        <Footer />
-        <WhatsAppButton />
-        {/* Add Supabase Status Checker in development mode */}
-        {import.meta.env.DEV && <SupabaseStatusChecker />}
-      </div>
-    </Router>
+    <AuthProvider>
+      <Router basename={getBasename()}>
+        <div className="min-h-screen bg-white">
+          <Navbar />
+          <Routes>
+            <Route path="/" element={<HomePage />} />
+            <Route path="/test" element={<TestPage />} />
+            <Route path="/home" element={<HomePage />} />
+            <Route path="/sports-bikes" element={<SportsBikePage />} />
+            <Route path="/normal-bikes" element={<NormalBikePage />} />
+            <Route path="/scooties" element={<ScootyPage />} />
+            <Route path="/contact" element={<ContactPage />} />
+            <Route path="/setup-contacts" element={<SetupContactsTable />} />
+            <Route path="/setup-supabase" element={<SetupPage />} />
+            <Route path="/fix-supabase" element={<SupabaseFixPage />} />
+            <Route path="/booking/:ref?" element={<BookingLookupPage />} />
+            <Route path="/my-bookings" element={<MyBookingsPage />} />
+            <Route path="/admin" element={<RequireStaff><AdminPage /></RequireStaff>} />
+            <Route path="/admin/inbox" element={<RequireStaff><AdminInboxPage /></RequireStaff>} />
+            <Route path="/admin/subscriptions" element={<RequireStaff><AdminSubscriptionsPage /></RequireStaff>} />
+          </Routes>
+          <Footer />
+          <WhatsAppButton />
+          {/* Add Supabase Status Checker in development mode */}
+          {import.meta.env.DEV && <SupabaseStatusChecker />}
+        </div>
+      </Router>
+    </AuthProvider>
   );
 }
 
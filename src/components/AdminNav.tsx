@@ -0,0 +1,52 @@
+import React from 'react';
+import { NavLink } from 'react-router-dom';
+import { CalendarDays, Inbox, LogOut, Repeat } from 'lucide-react';
+import { STAFF_ROLE_LABELS } from '../lib/auth';
+import { useAuth } from '../hooks/useAuth';
+import { useUnreadContacts } from '../hooks/useUnreadContacts';
+
+const tabClass = ({ isActive }: { isActive: boolean }) =>
+  `flex items-center px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+    isActive ? 'bg-yellow-500 text-black' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+  }`;
+
+// Tabs shared by the admin pages, with the unread message count on the inbox
+const AdminNav: React.FC = () => {
+  const { session, staff, signOut } = useAuth();
+  const unread = useUnreadContacts();
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+      <nav className="flex gap-2">
+        <NavLink to="/admin" end className={tabClass}>
+          <CalendarDays className="h-4 w-4 mr-2" /> Bookings
+        </NavLink>
+        <NavLink to="/admin/subscriptions" className={tabClass}>
+          <Repeat className="h-4 w-4 mr-2" /> Subscriptions
+        </NavLink>
+        <NavLink to="/admin/inbox" className={tabClass}>
+          <Inbox className="h-4 w-4 mr-2" /> Inbox
+          {unread > 0 && (
+            <span className="ml-2 px-2 py-0.5 text-xs font-bold rounded-full bg-red-500 text-white" aria-label={`${unread} unread`}>
+              {unread}
+            </span>
+          )}
+        </NavLink>
+      </nav>
+      <div className="flex items-center gap-3">
+        <p className="text-sm text-gray-400">
+          Signed in as {staff?.name || session?.user.email}
+          {staff && ` · ${STAFF_ROLE_LABELS[staff.role]}`}
+        </p>
+        <button
+          onClick={() => signOut()}
+          className="flex items-center px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors text-sm"
+        >
+          <LogOut className="h-4 w-4 mr-2" /> Sign out
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AdminNav;
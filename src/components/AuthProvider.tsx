@@ -0,0 +1,75 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { supabase, type Customer, type StaffMember } from '../lib/supabase';
+import { AuthContext, fetchStaffMember, signInStaff, signOut, type AuthState } from '../lib/auth';
+import { fetchCustomer } from '../lib/customers';
+
+// Tracks the Supabase Auth session and the matching staff or customer record for the whole app
+const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [staff, setStaff] = useState<StaffMember | null>(null);
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [isCheckingSession, setIsCheckingSession] = useState(true);
+  const [recordsLoadedFor, setRecordsLoadedFor] = useState<string | null>(null);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setIsCheckingSession(false);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      setSession(nextSession);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  // Token refreshes hand over a new session for the same user; only reload on a user change
+  const userId = session?.user.id ?? null;
+
+  useEffect(() => {
+    if (!userId) {
+      setStaff(null);
+      setCustomer(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    // A failed lookup just means no staff or customer access; RLS has the final say anyway
+    Promise.all([
+      fetchStaffMember(userId).catch(() => null),
+      fetchCustomer(userId).catch(() => null)
+    ]).then(([member, profile]) => {
+      if (cancelled) return;
+      setStaff(member);
+      setCustomer(profile);
+      setRecordsLoadedFor(userId);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // Called after the customer saves their details
+  const refreshCustomer = useCallback(async () => {
+    if (userId) setCustomer(await fetchCustomer(userId));
+  }, [userId]);
+
+  const value = useMemo<AuthState>(() => ({
+    session,
+    staff,
+    customer,
+    // Still loading until the records match the current user
+    isLoading: isCheckingSession || (userId !== null && recordsLoadedFor !== userId),
+    signIn: signInStaff,
+    signOut,
+    refreshCustomer
+  }), [session, staff, customer, userId, isCheckingSession, recordsLoadedFor, refreshCustomer]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export default AuthProvider;
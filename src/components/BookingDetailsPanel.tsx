@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from 'react';
+import { X, Loader2, CalendarPlus } from 'lucide-react';
+import { getNextStatuses, type Booking, type BookingExtension, type BookingStatus } from '../lib/supabase';
+import { getStatusStyle } from '../lib/bookings';
+import { extendBooking, fetchBookingExtensions, type ExtensionQuote } from '../lib/extensions';
+import ExtendBookingForm from './ExtendBookingForm';
+import BookingTimeline from './BookingTimeline';
+
+interface BookingDetailsPanelProps {
+  booking: Booking;
+  isUpdating: boolean;
+  onClose: () => void;
+  onStatusChange: (booking: Booking, status: BookingStatus) => void;
+  onExtended: () => void;
+}
+
+// Statuses where the rider still has (or is about to get) the bike
+const EXTENDABLE_STATUSES = ['pending', 'confirmed', 'ongoing'];
+
+const TRANSITION_LABELS: Record<BookingStatus, string> = {
+  pending: 'Mark pending',
+  confirmed: 'Confirm',
+  ongoing: 'Start rental',
+  completed: 'Complete',
+  cancelled: 'Cancel booking'
+};
+
+const formatDate = (date: string | null, time?: string | null) => {
+  if (!date) return '—';
+  const day = new Date(date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+  return time ? `${day}, ${time.slice(0, 5)}` : day;
+};
+
+const durationLabel = (booking: Booking) => {
+  if (booking.rental_type === 'hourly') return `${booking.hours ?? 0} hours`;
+  if (booking.rental_type === 'weekly') return `${booking.weeks ?? 0} week(s) (${booking.days ?? 0} days)`;
+  return `${booking.days ?? 0} day(s)`;
+};
+
+const BookingDetailsPanel: React.FC<BookingDetailsPanelProps> = ({ booking, isUpdating, onClose, onStatusChange, onExtended }) => {
+  const nextStatuses = getNextStatuses(booking.status);
+  const [extensions, setExtensions] = useState<BookingExtension[]>([]);
+  const [showExtend, setShowExtend] = useState(false);
+
+  // Reload when the booking changes, so a new extension shows up straight away
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchBookingExtensions(booking.id)
+      .then((rows) => {
+        if (!cancelled) setExtensions(rows);
+      })
+      .catch((err) => console.error('Error loading booking extensions:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [booking.id, booking.updated_at]);
+
+  useEffect(() => {
+    setShowExtend(false);
+  }, [booking.id]);
+
+  const handleExtend = async (quote: ExtensionQuote) => {
+    await extendBooking(booking.id, quote);
+    setShowExtend(false);
+    onExtended();
+  };
+
+  const canExtend = EXTENDABLE_STATUSES.includes(booking.status) && !!booking.return_date;
+
+  const rows: [string, React.ReactNode][] = [
+    ['Reference', <span key="reference" className="font-mono">{booking.reference}</span>],
+    ['Customer', booking.name],
+    ['Contact', <a key="contact" href={`tel:${booking.contact}`} className="text-yellow-400 hover:text-yellow-300">{booking.contact}</a>],
+    ['Address', booking.address],
+    ['Vehicle', `${booking.model} (${booking.category})`],
+    ['Unit', booking.unit_id || 'Not assigned'],
+    ['Rental', `${booking.rental_type}, ${durationLabel(booking)}`],
+    ['Pickup', formatDate(booking.pickup_date, booking.pickup_time)],
+    ['Return', formatDate(booking.return_date, booking.return_time)],
+    ['Base amount', booking.base_amount !== null ? `₹${booking.base_amount}` : '—'],
+    ['Discounts', `₹${booking.discount_amount}`],
+    ['Promo code', booking.promo_code ? `${booking.promo_code} (−₹${booking.promo_discount})` : '—'],
+    ['Total', `₹${booking.total_price}`],
+    ['Booked on', new Date(booking.created_at).toLocaleString('en-IN')],
+    ['Last updated', new Date(booking.updated_at).toLocaleString('en-IN')]
+  ];
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-2xl p-6">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-white">{booking.name}</h2>
+          <span className={`inline-block mt-2 px-2 py-1 text-xs font-medium rounded border ${getStatusStyle(booking.status)}`}>
+            {booking.status}
+          </span>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-full transition-colors"
+          aria-label="Close details"
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <dl className="space-y-2 text-sm">
+        {rows.map(([label, value]) => (
+          <div key={label} className="flex justify-between gap-4">
+            <dt className="text-gray-400">{label}</dt>
+            <dd className="text-white text-right break-words">{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {booking.price_breakdown && booking.price_breakdown.discounts.length > 0 && (
+        <div className="mt-4 pt-4 border-t border-gray-700 text-sm">
+          <h3 className="text-gray-300 font-medium mb-2">Applied discounts</h3>
+          {booking.price_breakdown.discounts.map(discount => (
+            <div key={discount.ruleId} className="flex justify-between text-green-400">
+              <span>{discount.label}</span>
+              <span>−₹{discount.amount}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {extensions.length > 0 && (
+        <div className="mt-4 pt-4 border-t border-gray-700 text-sm">
+          <h3 className="text-gray-300 font-medium mb-2">Extensions</h3>
+          {extensions.map(extension => (
+            <div key={extension.id} className="flex justify-between gap-4 mb-1">
+              <span className="text-gray-300">
+                To {formatDate(extension.new_return_date, extension.new_return_time)}
+                {' '}({extension.extra_hours > 0 ? `+${extension.extra_hours}h` : `+${extension.extra_days}d`}, by {extension.requested_by})
+              </span>
+              <span className="text-white">₹{extension.amount}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-4 pt-4 border-t border-gray-700">
+        <h3 className="text-gray-300 font-medium text-sm mb-3">Timeline</h3>
+        <BookingTimeline bookingId={booking.id} refreshKey={booking.updated_at} />
+      </div>
+
+      <div className="mt-6 pt-4 border-t border-gray-700">
+        {nextStatuses.length > 0 ? (
+          <div className="flex flex-wrap gap-2">
+            {nextStatuses.map(status => (
+              <button
+                key={status}
+                onClick={() => onStatusChange(booking, status)}
+                disabled={isUpdating}
+                className={`px-4 py-2 rounded-lg text-sm font-semibold transition-colors disabled:opacity-50 ${
+                  status === 'cancelled'
+                    ? 'bg-red-600 text-white hover:bg-red-700'
+                    : 'bg-yellow-400 text-black hover:bg-yellow-300'
+                }`}
+              >
+                {isUpdating ? <Loader2 className="h-4 w-4 animate-spin" /> : TRANSITION_LABELS[status]}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-400">This booking is {booking.status}; no further changes are possible.</p>
+        )}
+        {canExtend && !showExtend && (
+          <button
+            onClick={() => setShowExtend(true)}
+            className="mt-3 flex items-center px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors text-sm"
+          >
+            <CalendarPlus className="h-4 w-4 mr-2" /> Extend rental
+          </button>
+        )}
+        {canExtend && showExtend && booking.return_date && (
+          <ExtendBookingForm
+            booking={{
+              rentalType: booking.rental_type,
+              returnDate: booking.return_date,
+              returnTime: booking.return_time,
+              unitId: booking.unit_id,
+              vehicleId: booking.vehicle_id,
+              model: booking.model
+            }}
+            onConfirm={handleExtend}
+            onCancel={() => setShowExtend(false)}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BookingDetailsPanel;
@@ -1,17 +1,33 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { X, User, Phone, MapPin, Loader2, CheckCircle } from 'lucide-react';
-import { supabase, type BookingInsert, type WeeklyBookingInsert } from '../lib/supabase';
-
-interface BookingData {
-  category: string;
-  model: string;
-  pricePerDay: number;
-}
+import { Link } from 'react-router-dom';
+import { X, User, Phone, MapPin, Loader2, CheckCircle, Tag, Clock, MessageCircle, XCircle } from 'lucide-react';
+import type { BookingInsert, MonthlySubscriptionInsert } from '../lib/supabase';
+import type { Vehicle } from '../lib/catalog';
+import { applyCoupon, couponDiscount, DAYS_PER_MONTH, discountPercent, getVehicleBadges, quotePrice, ruleMatchesVehicle, type PriceBreakdown, type RentalType } from '../lib/pricing';
+import { validatePromoCode, type PromoCode } from '../lib/promoCodes';
+import {
+  addMonths,
+  buildInstalmentSchedule,
+  EARLY_TERMINATION_FEE_PERCENT,
+  getRenewalDeadline,
+  MAX_SUBSCRIPTION_MONTHS,
+  MIN_SUBSCRIPTION_MONTHS,
+  RENEWAL_NOTICE_DAYS
+} from '../lib/subscriptions';
+import { checkAvailability, toDateInputValue, toDateTime, toTimeInputValue, type AvailabilityResult } from '../lib/availability';
+import { createIdempotencyKey, discardOutboxEntry, subscribeToOutbox } from '../lib/outbox';
+import { runBookingPipeline, type BookingSubmission } from '../lib/bookingSinks';
+import { toBookingReference } from '../lib/bookingLookup';
+import { saveCustomerProfile } from '../lib/customers';
+import { NOTIFICATION_LANGUAGES, type NotificationLanguage } from '../lib/notificationTemplates';
+import { getBookingWhatsAppUrl } from '../lib/whatsapp';
+import { useSiteConfig } from '../hooks/useSiteConfig';
+import { useAuth } from '../hooks/useAuth';
 
 interface BookingModalProps {
   isOpen: boolean;
   onClose: () => void;
-  bookingData: BookingData | null;
+  vehicle: Vehicle | null;
 }
 
 interface FormData {
@@ -19,12 +35,15 @@ interface FormData {
   contact: string;
   address: string;
   days: number;
-  bookingType: 'daily' | 'weekly';
+  bookingType: RentalType;
   weeks: number;
+  hours: number;
+  months: number;
   pickupDate: string;
   returnDate: string;
   pickupTime: string;
   returnTime: string;
+  language: NotificationLanguage; // For booking updates by WhatsApp, SMS or email
 }
 
 interface FormErrors {
@@ -33,6 +52,8 @@ interface FormErrors {
   address?: string;
   days?: string;
   weeks?: string;
+  hours?: string;
+  months?: string;
   pickupDate?: string;
   returnDate?: string;
   pickupTime?: string;
@@ -41,7 +62,25 @@ interface FormErrors {
 
 type BookingStep = 'form' | 'thank-you';
 
-const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, bookingData }) => {
+// 'queued' means the booking is only in this browser's outbox and hasn't reached us yet
+type SubmissionStatus = 'confirmed' | 'queued' | 'refused';
+
+// Longer than this and a daily rental is the better deal
+const MAX_HOURLY_HOURS = 12;
+
+// Form field holding the duration for each rental type, and its upper limit
+const DURATION_FIELDS: Record<RentalType, { field: 'hours' | 'days' | 'weeks' | 'months'; max: number }> = {
+  hourly: { field: 'hours', max: MAX_HOURLY_HOURS },
+  daily: { field: 'days', max: 30 },
+  weekly: { field: 'weeks', max: 12 },
+  monthly: { field: 'months', max: MAX_SUBSCRIPTION_MONTHS }
+};
+
+// Hindi-language browsers get their booking updates in Hindi unless they choose otherwise
+const defaultLanguage = (): NotificationLanguage =>
+  typeof navigator !== 'undefined' && navigator.language.toLowerCase().startsWith('hi') ? 'hi' : 'en';
+
+const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, vehicle }) => {
   const [currentStep, setCurrentStep] = useState<BookingStep>('form');
   const [formData, setFormData] = useState<FormData>({
     name: '',
@@ -50,13 +89,30 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, bookingDat
     days: 1,
     bookingType: 'daily',
     weeks: 1,
+    hours: 2,
+    months: 1,
     pickupDate: '',
     returnDate: '',
     pickupTime: '09:00',
-    returnTime: '18:00'
+    returnTime: '18:00',
+    language: defaultLanguage()
   });
   const [errors, setErrors] = useState<FormErrors>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submissionStatus, setSubmissionStatus] = useState<SubmissionStatus>('confirmed');
+  const [queuedSubmissionId, setQueuedSubmissionId] = useState<string | null>(null);
+  const [bookingReference, setBookingReference] = useState<string | null>(null);
+  // Only a booking that reached the database can be looked up by its reference
+  const [isInDatabase, setIsInDatabase] = useState(false);
+  const [isCheckingAvailability, setIsCheckingAvailability] = useState(false);
+  const [availabilityConflict, setAvailabilityConflict] = useState<AvailabilityResult | null>(null);
+  const [promoInput, setPromoInput] = useState('');
+  const [appliedPromo, setAppliedPromo] = useState<PromoCode | null>(null);
+  const [promoError, setPromoError] = useState('');
+  const [isApplyingPromo, setIsApplyingPromo] = useState(false);
+  const idempotencyKeyRef = useRef<string | null>(null);
+  const siteConfig = useSiteConfig();
+  const { session, staff, customer: savedCustomer, refreshCustomer } = useAuth();
   const modalRef = useRef<HTMLDivElement>(null);
   const firstInputRef = useRef<HTMLInputElement>(null);
 
@@ -87,12 +143,60 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, bookingDat
   useEffect(() => {
     if (isOpen) {
       setCurrentStep('form');
-      setFormData({ name: '', contact: '', address: '', days: 1, bookingType: 'daily', weeks: 1, pickupDate: '', returnDate: '', pickupTime: '09:00', returnTime: '18:00' });
+      setFormData({ name: '', contact: '', address: '', days: 1, bookingType: 'daily', weeks: 1, hours: 2, months: 1, pickupDate: '', returnDate: '', pickupTime: '09:00', returnTime: '18:00', language: defaultLanguage() });
       setErrors({});
       setIsSubmitting(false);
+      setSubmissionStatus('confirmed');
+      setQueuedSubmissionId(null);
+      setBookingReference(null);
+      setIsInDatabase(false);
+      setAvailabilityConflict(null);
+      setPromoInput('');
+      setAppliedPromo(null);
+      setPromoError('');
     }
   }, [isOpen]);
 
+  // Signed-in customers get their saved details filled in
+  useEffect(() => {
+    if (!isOpen || !savedCustomer) return;
+
+    setFormData(prev => ({
+      ...prev,
+      name: prev.name || savedCustomer.name,
+      contact: prev.contact || savedCustomer.contact,
+      address: prev.address || savedCustomer.address || ''
+    }));
+  }, [isOpen, savedCustomer]);
+
+  // Any change to the booking makes it a new one; resubmitting the same details reuses the key
+  useEffect(() => {
+    idempotencyKeyRef.current = null;
+  }, [isOpen, formData, appliedPromo]);
+
+  // Switch the thank-you screen over once the outbox delivers the queued booking, or the database refuses it
+  useEffect(() => {
+    if (!queuedSubmissionId) return;
+    let settled = false;
+
+    return subscribeToOutbox((entries) => {
+      if (settled) return;
+      const entry = entries.find(queued => queued.id === queuedSubmissionId);
+      if (entry?.refusedAt) {
+        settled = true;
+        setSubmissionStatus('refused');
+        setQueuedSubmissionId(null);
+        // The customer has been told; discarding it must not read as delivered above
+        void discardOutboxEntry(entry.id).catch(error => console.warn('Could not discard refused booking:', error));
+      } else if (!entry) {
+        settled = true;
+        setSubmissionStatus('confirmed');
+        setQueuedSubmissionId(null);
+        setIsInDatabase(true); // The outbox only delivers to Supabase
+      }
+    });
+  }, [queuedSubmissionId]);
+
   const handleClose = () => {
     if (!isSubmitting) {
       onClose();
@@ -185,6 +289,46 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, bookingDat
       }
     }
 
+    // Months and start date validation for monthly subscriptions
+    if (formData.bookingType === 'monthly') {
+      if (!formData.months || formData.months < MIN_SUBSCRIPTION_MONTHS) {
+        newErrors.months = `Subscriptions run for at least ${MIN_SUBSCRIPTION_MONTHS} month`;
+      } else if (formData.months > MAX_SUBSCRIPTION_MONTHS) {
+        newErrors.months = `Maximum subscription term is ${MAX_SUBSCRIPTION_MONTHS} months - it renews automatically after that`;
+      }
+
+      if (!formData.pickupDate) {
+        newErrors.pickupDate = 'Start date is required for subscriptions';
+      } else {
+        const pickupDate = new Date(formData.pickupDate);
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+
+        if (pickupDate < today) {
+          newErrors.pickupDate = 'Start date cannot be in the past';
+        }
+      }
+    }
+
+    // Hours, date and time validation for hourly bookings
+    if (formData.bookingType === 'hourly' && vehicle) {
+      if (!formData.hours || formData.hours < vehicle.minHours) {
+        newErrors.hours = `Minimum hourly rental is ${vehicle.minHours} hours`;
+      } else if (formData.hours > MAX_HOURLY_HOURS) {
+        newErrors.hours = `Hourly rentals are limited to ${MAX_HOURLY_HOURS} hours - choose a daily rental instead`;
+      }
+
+      if (!formData.pickupDate) {
+        newErrors.pickupDate = 'Pickup date is required';
+      }
+
+      if (!formData.pickupTime) {
+        newErrors.pickupTime = 'Pickup time is required';
+      } else if (formData.pickupDate && toDateTime(formData.pickupDate, formData.pickupTime) < new Date()) {
+        newErrors.pickupTime = 'Pickup time cannot be in the past';
+      }
+    }
+
     // Date and time validation for daily bookings
     if (formData.bookingType === 'daily') {
       // Pickup date validation
@@ -246,341 +390,213 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, bookingDat
     return Object.keys(newErrors).length === 0;
   };
 
-  const submitToSupabase = async (payload: BookingInsert): Promise<boolean> => {
-    try {
-      console.log('Connecting to Supabase URL:', import.meta.env.VITE_SUPABASE_URL);
-      console.log('Full payload being sent to Supabase:', payload);
+  // Rental length in days; hourly rentals count as a fraction of a day
+  const getRentalDays = () => {
+    if (formData.bookingType === 'weekly') return formData.weeks * 7;
+    if (formData.bookingType === 'hourly') return formData.hours / 24;
+    if (formData.bookingType === 'monthly') return formData.months * DAYS_PER_MONTH;
+    return formData.days;
+  };
 
-      if (!import.meta.env.VITE_SUPABASE_URL || !import.meta.env.VITE_SUPABASE_ANON_KEY) {
-        console.error('Missing Supabase environment variables');
-        throw new Error('Missing Supabase environment variables. Check your .env file.');
-      }
+  const calculatePrice = (selected: Vehicle, withPromo = true): PriceBreakdown => {
+    const breakdown = quotePrice({
+      vehicle: selected,
+      rentalType: formData.bookingType,
+      days: formData.bookingType === 'weekly' ? formData.weeks * 7 : formData.days,
+      hours: formData.hours,
+      months: formData.months,
+      pickupDate: formData.pickupDate || undefined
+    });
+    return withPromo && appliedPromo ? applyCoupon(breakdown, appliedPromo) : breakdown;
+  };
 
-      const bookingPayload: any = {
-        name: payload.name,
-        contact: payload.contact,
-        address: payload.address,
-        category: payload.category,
-        model: payload.model,
-        price_per_day: payload.price_per_day,
-        status: payload.status || 'pending',
-        rental_type: payload.rental_type || 'daily'
-      };
+  const handleApplyPromo = async () => {
+    if (!vehicle) return;
 
-      if (payload.days !== undefined) {
-        bookingPayload.days = payload.days;
-      }
-      
-      if (payload.total_price !== undefined) {
-        bookingPayload.total_price = payload.total_price;
+    setIsApplyingPromo(true);
+    setPromoError('');
+    try {
+      const result = await validatePromoCode(promoInput, {
+        category: vehicle.category,
+        days: getRentalDays()
+      });
+      if (result.valid) {
+        setAppliedPromo(result.promo);
+        setPromoInput(result.promo.code);
+      } else {
+        setAppliedPromo(null);
+        setPromoError(result.reason);
       }
+    } finally {
+      setIsApplyingPromo(false);
+    }
+  };
 
-      // Add date and time fields if they exist
-      if (payload.pickup_date) {
-        bookingPayload.pickup_date = payload.pickup_date;
-      }
-      
-      if (payload.return_date) {
-        bookingPayload.return_date = payload.return_date;
-      }
-      
-      if (payload.pickup_time) {
-        bookingPayload.pickup_time = payload.pickup_time;
-      }
-      
-      if (payload.return_time) {
-        bookingPayload.return_time = payload.return_time;
-      }
+  const handleRemovePromo = () => {
+    setAppliedPromo(null);
+    setPromoInput('');
+    setPromoError('');
+  };
 
-      console.log('Supabase client initialized with URL:', import.meta.env.VITE_SUPABASE_URL);
-      console.log('Submitting booking payload:', bookingPayload);
-
-      const { data, error } = await supabase
-        .from('bookings')
-        .insert([bookingPayload])
-        .select();
-
-      if (error) {
-        console.error('❌ Supabase insertion error details:');
-        console.error('Error code:', error.code);
-        console.error('Error message:', error.message);
-        console.error('Error details:', error.details);
-        console.error('Error hint:', error.hint);
-        console.error('Full error object:', error);
-        
-        // Alert user with detailed error for debugging
-        alert(`Supabase Error: ${error.message}\nCode: ${error.code}\nDetails: ${error.details || 'None'}`);
-        return false;
-      }
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    if (!validateForm() || !vehicle) return;
 
-      console.log('✅ Booking saved successfully to Supabase:', data);
-      return true;
-    } catch (error) {
-      console.error('Error submitting to Supabase:', error);
-      return false;
+    // Re-check the coupon now that the final duration is known
+    if (appliedPromo) {
+      const promoCheck = await validatePromoCode(appliedPromo.code, {
+        category: vehicle.category,
+        days: getRentalDays()
+      });
+      if (!promoCheck.valid) {
+        setAppliedPromo(null);
+        setPromoError(promoCheck.reason);
+        return;
+      }
     }
-  };
 
-  const submitWeeklyBookingToSupabase = async (payload: WeeklyBookingInsert): Promise<boolean> => {
-    try {
-      console.log('Connecting to Supabase URL:', import.meta.env.VITE_SUPABASE_URL);
-      console.log('Full weekly booking payload being sent to Supabase:', payload);
+    // Block the submission if every unit is already booked for these dates
+    const availability = await ensureAvailable();
+    if (availability && !availability.available) return;
 
-      if (!import.meta.env.VITE_SUPABASE_URL || !import.meta.env.VITE_SUPABASE_ANON_KEY) {
-        console.error('Missing Supabase environment variables');
-        throw new Error('Missing Supabase environment variables. Check your .env file.');
-      }
+    await submitBooking(availability?.unit?.id ?? null);
+  };
 
-      console.log('Supabase client initialized with URL:', import.meta.env.VITE_SUPABASE_URL);
-      console.log('Submitting weekly booking payload:', payload);
-
-      const { data, error } = await supabase
-        .from('weekly_bookings')
-        .insert([payload])
-        .select();
-
-      if (error) {
-        console.error('❌ Weekly booking Supabase insertion error details:');
-        console.error('Error code:', error.code);
-        console.error('Error message:', error.message);
-        console.error('Error details:', error.details);
-        console.error('Error hint:', error.hint);
-        console.error('Full error object:', error);
-        
-        // Alert user with detailed error for debugging
-        alert(`Weekly Booking Supabase Error: ${error.message}\nCode: ${error.code}\nDetails: ${error.details || 'None'}`);
-        return false;
-      }
+  // Returns null when the check itself failed, so the booking goes through unassigned
+  const ensureAvailable = async (): Promise<AvailabilityResult | null> => {
+    if (!vehicle) return null;
 
-      console.log('✅ Weekly booking saved successfully to Supabase:', data);
-      return true;
+    // Weekly and monthly rentals have no time pickers, so use the default hand-over times
+    const isDateOnly = formData.bookingType === 'weekly' || formData.bookingType === 'monthly';
+    const start = toDateTime(formData.pickupDate, isDateOnly ? '09:00' : formData.pickupTime);
+    const end = toDateTime(formData.returnDate, isDateOnly ? '18:00' : formData.returnTime);
+
+    setIsCheckingAvailability(true);
+    try {
+      const result = await checkAvailability(vehicle, start, end);
+      setAvailabilityConflict(result.available ? null : result);
+      return result;
     } catch (error) {
-      console.error('Error submitting weekly booking to Supabase:', error);
-      return false;
+      // Don't lose the booking because the check failed; staff confirm by phone anyway
+      console.warn('Availability check failed, continuing with submission:', error);
+      return null;
+    } finally {
+      setIsCheckingAvailability(false);
     }
   };
 
-  const submitToGoogleForm = async (payload: any): Promise<boolean> => {
-    try {
-      await fetch('https://script.google.com/macros/s/AKfycbxJQsVLGK7qgJ1bm9Ag0AEBL09pHf06vpjV7ZjnFYdNKM8y9HUhlQAnXwwG4gM-OCSs/exec', {
-        method: 'POST',
-        mode: 'no-cors',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payload)
-      });
-      
-      return true;
-    } catch (error) {
-      console.error('Error submitting to Google Form:', error);
-      return false;
+  const applyNextFreeSlot = () => {
+    const slot = availabilityConflict?.nextFreeSlot;
+    if (!slot) return;
+
+    handleInputChange('pickupDate', toDateInputValue(slot));
+    if (formData.bookingType === 'daily' || formData.bookingType === 'hourly') {
+      handleInputChange('pickupTime', toTimeInputValue(slot));
     }
+    setAvailabilityConflict(null);
   };
 
-  const calculatePrice = () => {
-    if (!bookingData) return { pricePerDay: 0, totalPrice: 0, discount: false, weeklyDiscount: false, originalPrice: 0, savings: 0 };
+  const submitBooking = async (unitId: string | null) => {
+    if (!vehicle) return;
     
-    let pricePerDay = bookingData.pricePerDay;
-    let totalPrice = 0;
-    let discount = false;
-    let weeklyDiscount = false;
-    let originalPrice = 0;
-    let savings = 0;
+    setIsSubmitting(true);
     
-    if (formData.bookingType === 'weekly') {
-      // Weekly booking calculations
-      const daysInWeeks = formData.weeks * 7;
-      originalPrice = pricePerDay * daysInWeeks;
-      
-      // Apply 35% weekly discount
-      weeklyDiscount = true;
-      totalPrice = Math.round(originalPrice * 0.65); // 35% off
-      savings = originalPrice - totalPrice;
-    } else {
-      // Daily booking calculations
-      totalPrice = pricePerDay * formData.days;
-      originalPrice = totalPrice;
-      
-      // Apply 10% discount for Pulsar bikes when booked for exactly 24 hours (1 day)
-      if (formData.days === 1 && 
-          (bookingData.model.includes('Pulsar 150') || 
-           bookingData.model.includes('Pulsar 125'))) {
-        discount = true;
-        totalPrice = Math.round(totalPrice * 0.9); // 10% off
-        savings = originalPrice - totalPrice;
-      }
+    const price = calculatePrice(vehicle);
+    const pricePerDay = vehicle.dailyRate;
+    const totalPrice = price.total;
+    const isHourly = formData.bookingType === 'hourly';
+    // Every sink gets the same key, so the booking is stored once however many of them reach us
+    if (!idempotencyKeyRef.current) {
+      idempotencyKeyRef.current = createIdempotencyKey();
     }
-    
-    return { pricePerDay, totalPrice, discount, weeklyDiscount, originalPrice, savings };
-  };
-
-  const storeBookingLocally = (payload: any) => {
-    try {
-      const existingBookings = JSON.parse(localStorage.getItem('pendingBookings') || '[]');
-      
-      const bookingWithTimestamp = {
-        ...payload,
-        savedAt: new Date().toISOString(),
-        id: `local-${Date.now()}`
+    const idempotencyKey = idempotencyKeyRef.current;
+
+    const customer = {
+      name: formData.name.trim(),
+      contact: formData.contact.replace(/\s+/g, ''),
+      address: formData.address.trim(),
+      category: vehicle.category,
+      model: vehicle.name,
+      vehicle_id: vehicle.id,
+      unit_id: unitId,
+      total_price: totalPrice,
+      price_breakdown: price,
+      promo_code: price.promoCode ?? null,
+      promo_discount: couponDiscount(price),
+      idempotency_key: idempotencyKey,
+      reference: toBookingReference(idempotencyKey),
+      notification_language: formData.language
+    };
+
+    let submission: BookingSubmission;
+    if (formData.bookingType === 'monthly') {
+      // Monthly subscriptions get their instalment schedule alongside them
+      const monthlyPayload: MonthlySubscriptionInsert = {
+        ...customer,
+        monthly_rate: vehicle.monthlyRate,
+        months: formData.months,
+        auto_renew: true,
+        status: 'pending',
+        pickup_date: formData.pickupDate,
+        return_date: formData.returnDate
       };
-      
-      existingBookings.push(bookingWithTimestamp);
-      localStorage.setItem('pendingBookings', JSON.stringify(existingBookings));
-      
-      console.log('Booking saved to localStorage as fallback');
-      return true;
-    } catch (err) {
-      console.error('Failed to save booking to localStorage:', err);
-      return false;
+      submission = { kind: 'subscription', payload: monthlyPayload, idempotencyKey };
+    } else {
+      // Weekly rentals have no time pickers, so they use the default hand-over times
+      const isWeekly = formData.bookingType === 'weekly';
+      const bookingPayload: BookingInsert = {
+        ...customer,
+        rental_type: formData.bookingType,
+        price_per_day: pricePerDay,
+        // An hourly rental is not a full day, so it is logged with 0 days
+        days: isWeekly ? formData.weeks * 7 : isHourly ? 0 : formData.days,
+        hours: isHourly ? formData.hours : undefined,
+        price_per_hour: isHourly ? vehicle.hourlyRate : undefined,
+        weeks: isWeekly ? formData.weeks : undefined,
+        base_amount: price.baseAmount,
+        discount_amount: price.totalDiscount,
+        status: 'pending',
+        pickup_date: formData.pickupDate,
+        pickup_time: isWeekly ? '09:00' : formData.pickupTime,
+        return_date: formData.returnDate,
+        return_time: isWeekly ? '18:00' : formData.returnTime
+      };
+      submission = { kind: 'booking', payload: bookingPayload, idempotencyKey };
     }
-  };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!validateForm() || !bookingData) return;
+    console.log(`${formData.bookingType} booking payload:`, submission.payload);
 
-    // Directly submit the booking
-    await submitBooking();
-  };
-
-  const submitBooking = async () => {
-    if (!bookingData) return;
-    
-    setIsSubmitting(true);
-    
-    const { pricePerDay, totalPrice, originalPrice, savings } = calculatePrice();
-    let successfulSubmission = false;
+    // Keep a signed-in customer's details current; the database links the booking to them
+    if (session && !staff) {
+      try {
+        await saveCustomerProfile(session.user.id, { name: customer.name, contact: customer.contact, address: customer.address });
+        refreshCustomer().catch(() => undefined);
+      } catch (err) {
+        console.error('❌ Could not save customer details; booking as a guest:', err);
+      }
+    }
 
     try {
-      if (formData.bookingType === 'weekly') {
-        // Weekly booking submission
-        const weeklyPayload: WeeklyBookingInsert = {
-          name: formData.name.trim(),
-          contact: formData.contact.replace(/\s+/g, ''),
-          address: formData.address.trim(),
-          category: bookingData.category,
-          model: bookingData.model,
-          price_per_day: pricePerDay,
-          weeks: formData.weeks,
-          total_weeks_price: totalPrice,
-          weekly_discount_percent: 35,
-          original_price: originalPrice,
-          savings: savings,
-          status: 'pending',
-          pickup_date: formData.pickupDate,
-          return_date: formData.returnDate
-        };
-
-        console.log('Weekly Booking Payload:', weeklyPayload);
-        console.log('Attempting to submit weekly booking to Supabase...');
-        
-        const supabaseSuccess = await submitWeeklyBookingToSupabase(weeklyPayload);
-        
-        if (supabaseSuccess) {
-          console.log('✅ Weekly booking submitted to Supabase successfully!');
-          successfulSubmission = true;
-        } else {
-          console.log('❌ Weekly booking Supabase submission failed, saving to localStorage...');
-          const localStorageSuccess = storeBookingLocally({
-            ...weeklyPayload,
-            bookingType: 'weekly',
-            timestamp: new Date().toISOString()
-          });
-          
-          if (localStorageSuccess) {
-            console.log('✅ Weekly booking saved to localStorage successfully!');
-            successfulSubmission = true;
-          }
-        }
-      } else {
-        // Daily booking submission (existing logic)
-        const supabasePayload: BookingInsert = {
-          name: formData.name.trim(),
-          contact: formData.contact.replace(/\s+/g, ''),
-          address: formData.address.trim(),
-          category: bookingData.category,
-          model: bookingData.model,
-          price_per_day: pricePerDay,
-          days: formData.days,
-          total_price: totalPrice,
-          status: 'pending',
-          rental_type: 'daily',
-          pickup_date: formData.pickupDate,
-          return_date: formData.returnDate,
-          pickup_time: formData.pickupTime,
-          return_time: formData.returnTime
-        };
-
-        const commonPayload = {
-          name: formData.name.trim(),
-          contact: formData.contact.replace(/\s+/g, ''),
-          address: formData.address.trim(),
-          category: bookingData.category,
-          model: bookingData.model,
-          pricePerDay: pricePerDay,
-          days: formData.days,
-          totalPrice: totalPrice,
-          timestamp: new Date().toISOString()
-        };
-
-        console.log('Daily Booking Payload:', supabasePayload);
-        console.log('Attempting to submit daily booking to Supabase...');
-        
-        const supabaseSuccess = await submitToSupabase(supabasePayload);
-        
-        if (supabaseSuccess) {
-          console.log('✅ Daily booking submitted to Supabase successfully!');
-          successfulSubmission = true;
-        } else {
-          console.log('❌ Supabase submission failed, trying Google Form as fallback...');
-          const googleFormSuccess = await submitToGoogleForm(commonPayload);
-          
-          if (googleFormSuccess) {
-            console.log('✅ Booking submitted to Google Form successfully!');
-            successfulSubmission = true;
-          } else {
-            console.log('❌ Google Form submission failed, saving to localStorage...');
-            const localStorageSuccess = storeBookingLocally(commonPayload);
-            
-            if (localStorageSuccess) {
-              console.log('✅ Booking saved to localStorage successfully!');
-              successfulSubmission = true;
-            }
-          }
-        }
-      }
-      
-      if (successfulSubmission) {
+      const result = await runBookingPipeline(submission);
+
+      if (result.outcome === 'confirmed' || result.outcome === 'queued') {
+        console.log(`✅ Booking taken by ${result.sink} (${result.outcome})`);
+        setSubmissionStatus(result.outcome);
+        setQueuedSubmissionId(result.outcome === 'queued' ? idempotencyKey : null);
+        setBookingReference(customer.reference);
+        setIsInDatabase(result.sink === 'supabase');
         setCurrentStep('thank-you');
+      } else if (result.outcome === 'rejected') {
+        console.error('❌ Booking was refused:', result.attempts);
+        alert('We couldn\'t accept this booking as entered. The vehicle may have just been booked for these dates, or a detail or promo code isn\'t valid. Please check and try again, or contact us directly.');
       } else {
-        console.error('❌ All submission methods failed!');
+        console.error('❌ All submission methods failed!', result.attempts);
         alert('There was an error submitting your booking. Please contact us directly with your booking details.');
       }
     } catch (error) {
       console.error('Submission error:', error);
-      
-      const localStorageSuccess = storeBookingLocally({
-        name: formData.name.trim(),
-        contact: formData.contact.replace(/\s+/g, ''),
-        address: formData.address.trim(),
-        category: bookingData.category,
-        model: bookingData.model,
-        pricePerDay: pricePerDay,
-        days: formData.days,
-        weeks: formData.weeks,
-        totalPrice: totalPrice,
-        bookingType: formData.bookingType,
-        timestamp: new Date().toISOString()
-      });
-      
-      if (localStorageSuccess) {
-        setCurrentStep('thank-you');
-        console.log('✅ Saved to localStorage after error!');
-      } else {
-        alert('There was an error submitting your booking. Please try again or contact us directly.');
-      }
+      alert('There was an error submitting your booking. Please try again or contact us directly.');
     } finally {
       setIsSubmitting(false);
     }
@@ -589,7 +605,7 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, bookingDat
   const handleInputChange = (field: keyof FormData, value: string | number) => {
     let processedValue: any = value;
     
-    if (field === 'days' || field === 'weeks') {
+    if (field === 'days' || field === 'weeks' || field === 'hours' || field === 'months') {
       processedValue = typeof value === 'string' ? parseInt(value) || 1 : value;
     }
     
@@ -615,6 +631,28 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, bookingDat
           newData.returnDate = returnDate.toISOString().split('T')[0];
         }
       }
+
+      // Auto-calculate the end of the first term for monthly subscriptions
+      if (newData.bookingType === 'monthly' && ['months', 'pickupDate', 'bookingType'].includes(field)) {
+        if (newData.pickupDate && newData.months) {
+          newData.returnDate = addMonths(newData.pickupDate, newData.months);
+        }
+      }
+
+      // Start hourly rentals at the vehicle's minimum
+      if (field === 'bookingType' && value === 'hourly' && vehicle) {
+        newData.hours = Math.max(newData.hours, vehicle.minHours);
+      }
+
+      // Auto-calculate return date and time for hourly bookings
+      if (newData.bookingType === 'hourly' && ['hours', 'pickupDate', 'pickupTime', 'bookingType'].includes(field)) {
+        if (newData.pickupDate && newData.pickupTime && newData.hours) {
+          const returnDateTime = toDateTime(newData.pickupDate, newData.pickupTime);
+          returnDateTime.setHours(returnDateTime.getHours() + newData.hours);
+          newData.returnDate = toDateInputValue(returnDateTime);
+          newData.returnTime = toTimeInputValue(returnDateTime);
+        }
+      }
       
       return newData;
     });
@@ -623,9 +661,24 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, bookingDat
     if (field in errors) {
       setErrors(prev => ({ ...prev, [field]: undefined }));
     }
+
+    // A different schedule needs a fresh availability check
+    if (field !== 'name' && field !== 'contact' && field !== 'address') {
+      setAvailabilityConflict(null);
+    }
   };
 
-  if (!isOpen || !bookingData) return null;
+  if (!isOpen || !vehicle) return null;
+
+  const price = calculatePrice(vehicle);
+  const duration = DURATION_FIELDS[formData.bookingType];
+  const durationLabel = `Number of ${duration.field.charAt(0).toUpperCase()}${duration.field.slice(1)}`;
+  const weeklyDiscountPercent = discountPercent(quotePrice({ vehicle, rentalType: 'weekly', days: 7 }));
+  // Offers this vehicle qualifies for with a different duration, shown as a tip
+  const missedOffers = getVehicleBadges(vehicle).filter(rule =>
+    ruleMatchesVehicle(rule, vehicle, formData.bookingType) &&
+    !price.discounts.some(discount => discount.ruleId === rule.id)
+  );
 
   return (
     <div 
@@ -659,12 +712,26 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, bookingDat
           /* Thank You State */
           <div className="p-8 text-center">
             <div className="mb-6">
-              <CheckCircle className="h-16 w-16 text-green-500 mx-auto mb-4" />
+              {submissionStatus === 'queued' ? (
+                <Clock className="h-16 w-16 text-yellow-400 mx-auto mb-4" />
+              ) : submissionStatus === 'refused' ? (
+                <XCircle className="h-16 w-16 text-red-500 mx-auto mb-4" />
+              ) : (
+                <CheckCircle className="h-16 w-16 text-green-500 mx-auto mb-4" />
+              )}
               <h2 className="text-2xl font-bold text-white mb-2">
-                Thanks, {formData.name.split(' ')[0]}!
+                {submissionStatus === 'queued'
+                  ? `Almost there, ${formData.name.split(' ')[0]}`
+                  : submissionStatus === 'refused'
+                    ? `Sorry, ${formData.name.split(' ')[0]}`
+                    : `Thanks, ${formData.name.split(' ')[0]}!`}
               </h2>
               <p className="text-gray-300">
-                We'll contact you shortly to confirm your <strong>{bookingData.model}</strong> booking for{' '}
+                {submissionStatus === 'queued'
+                  ? <>Your request for the <strong>{vehicle.name}</strong> is saved on this device but hasn't reached us yet. It covers{' '}</>
+                  : submissionStatus === 'refused'
+                    ? <>We couldn't accept your request for the <strong>{vehicle.name}</strong>. It covered{' '}</>
+                    : <>We'll contact you shortly to confirm your <strong>{vehicle.name}</strong> booking for{' '}</>}
                 {formData.bookingType === 'weekly' ? (
                   <>
                     <strong>{formData.weeks} week{formData.weeks > 1 ? 's' : ''} ({formData.weeks * 7} days)</strong>
@@ -674,24 +741,103 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, bookingDat
                       </span>
                     )}
                   </>
+                ) : formData.bookingType === 'monthly' ? (
+                  <>
+                    <strong>a {formData.months}-month subscription</strong>
+                    {formData.pickupDate && (
+                      <span className="block mt-1 text-gray-400 text-sm">
+                        Starting {new Date(formData.pickupDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}, billed ₹{vehicle.monthlyRate} monthly
+                      </span>
+                    )}
+                  </>
+                ) : formData.bookingType === 'hourly' ? (
+                  <>
+                    <strong>{formData.hours} hours</strong>
+                    {formData.pickupDate && (
+                      <span className="block mt-1 text-gray-400 text-sm">
+                        From {formData.pickupTime} to {formData.returnTime} on {new Date(formData.pickupDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                      </span>
+                    )}
+                  </>
                 ) : (
                   <strong>{formData.days} day{formData.days > 1 ? 's' : ''}</strong>
                 )}.
-                {formData.bookingType === 'weekly' && (
-                  <span className="block mt-1 text-green-400 font-medium">With 35% weekly discount applied!</span>
-                )}
-                {formData.bookingType === 'daily' && calculatePrice().discount && formData.days === 1 && (
-                  <span className="block mt-1 text-green-400 font-medium">With 10% discount applied!</span>
+                {price.discounts.length > 0 && (
+                  <span className="block mt-1 text-green-400 font-medium">
+                    With {price.discounts.map(discount => discount.label).join(' + ')} applied!
+                  </span>
                 )}
               </p>
             </div>
             
-            <div className="bg-green-900/30 border border-green-700 rounded-lg p-4 mb-6">
-              <p className="text-sm text-green-300">
-                <strong>What's next?</strong><br />
-                Our team will call you within 30 minutes to confirm availability and arrange pickup details.
-              </p>
-            </div>
+            {bookingReference && submissionStatus !== 'refused' && (
+              <div className="bg-gray-700 border border-gray-600 rounded-lg p-4 mb-4">
+                <p className="text-sm text-gray-300">Your booking reference</p>
+                <p className="text-2xl font-mono font-bold text-yellow-400 tracking-wider">{bookingReference}</p>
+                {isInDatabase ? (
+                  <p className="text-xs text-gray-400 mt-1">
+                    Quote it when you call us, or{' '}
+                    <Link to={`/booking/${bookingReference}`} onClick={handleClose} className="text-yellow-400 hover:text-yellow-300 underline">
+                      view, change or cancel this booking
+                    </Link>
+                    .
+                  </p>
+                ) : (
+                  <p className="text-xs text-gray-400 mt-1">
+                    Quote it when you call us. We'll confirm your booking shortly; you can look it up online once we have.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {submissionStatus === 'queued' ? (
+              <div className="bg-yellow-900/30 border border-yellow-700 rounded-lg p-4 mb-6" role="status">
+                <p className="text-sm text-yellow-300">
+                  <strong>Queued, not yet confirmed</strong><br />
+                  We couldn't reach our booking system. We'll keep retrying automatically while this site is open and as soon as you're back online. If it's urgent, please call or WhatsApp us on {siteConfig.phone}.
+                </p>
+              </div>
+            ) : submissionStatus === 'refused' ? (
+              <div className="bg-red-900/30 border border-red-700 rounded-lg p-4 mb-6" role="alert">
+                <p className="text-sm text-red-300">
+                  <strong>Not booked</strong><br />
+                  Our booking system turned this request down. The vehicle may have been booked for these dates in the meantime, or a detail or promo code isn't valid. Please call or WhatsApp us on {siteConfig.phone} and we'll sort it out.
+                </p>
+              </div>
+            ) : (
+              <div className="bg-green-900/30 border border-green-700 rounded-lg p-4 mb-6">
+                <p className="text-sm text-green-300">
+                  <strong>What's next?</strong><br />
+                  Our team will call you within 30 minutes to confirm availability and arrange pickup details.
+                </p>
+              </div>
+            )}
+
+            {/* Lets the customer confirm in one tap, with the booking details already typed out */}
+            <a
+              href={getBookingWhatsAppUrl(siteConfig, {
+                model: vehicle.name,
+                rentalType: formData.bookingType,
+                duration: formData.bookingType === 'hourly'
+                  ? `${formData.hours} hours`
+                  : formData.bookingType === 'weekly'
+                    ? `${formData.weeks} week${formData.weeks > 1 ? 's' : ''}`
+                    : formData.bookingType === 'monthly'
+                      ? `${formData.months} month${formData.months > 1 ? 's' : ''}`
+                      : `${formData.days} day${formData.days > 1 ? 's' : ''}`,
+                pickupDate: formData.pickupDate,
+                pickupTime: formData.bookingType === 'daily' || formData.bookingType === 'hourly' ? formData.pickupTime : null,
+                returnDate: formData.returnDate,
+                returnTime: formData.bookingType === 'daily' || formData.bookingType === 'hourly' ? formData.returnTime : null,
+                total: price.total,
+                reference: submissionStatus === 'refused' ? null : bookingReference
+              })}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="w-full mb-3 flex items-center justify-center bg-green-500 text-white py-3 px-6 rounded-lg font-semibold hover:bg-green-600 transition-colors duration-200"
+            >
+              <MessageCircle className="h-5 w-5 mr-2" /> Confirm on WhatsApp
+            </a>
 
             <button
               onClick={handleClose}
@@ -718,11 +864,11 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, bookingDat
               <div className="space-y-1 text-sm">
                 <div className="flex justify-between">
                   <span className="text-gray-300">Category:</span>
-                  <span className="font-medium text-white">{bookingData.category}</span>
+                  <span className="font-medium text-white">{vehicle.category}</span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-300">Model:</span>
-                  <span className="font-medium text-white">{bookingData.model}</span>
+                  <span className="font-medium text-white">{vehicle.name}</span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-300">Rental Type:</span>
@@ -747,54 +893,42 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, bookingDat
                         <span className="font-medium text-white">{new Date(formData.returnDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}</span>
                       </div>
                     )}
-                    <div className="flex justify-between">
-                      <span className="text-gray-300">Price per day:</span>
-                      <span className="font-medium text-yellow-400">₹{bookingData.pricePerDay}</span>
-                    </div>
-                    <div className="flex justify-between items-center">
-                      <span className="text-gray-300">Original total:</span>
-                      <span className="text-gray-400 line-through">₹{calculatePrice().originalPrice}</span>
-                    </div>
-                    <div className="flex justify-between items-center">
-                      <span className="text-gray-300">Weekly discount (35%):</span>
-                      <span className="text-green-400 font-medium">-₹{calculatePrice().savings}</span>
-                    </div>
                   </>
                 ) : (
-                  <>
-                    <div className="flex justify-between">
-                      <span className="text-gray-300">Duration:</span>
-                      <span className="font-medium text-white">{formData.days} day{formData.days > 1 ? 's' : ''}</span>
-                    </div>
-                    {calculatePrice().discount && formData.days === 1 ? (
-                      <div className="flex justify-between items-center">
-                        <span className="text-gray-300">Price per day:</span>
-                        <div className="text-right">
-                          <div className="flex items-center gap-2">
-                            <span className="text-gray-400 line-through">₹{bookingData.pricePerDay}</span>
-                            <span className="font-medium text-yellow-400">₹{Math.round(bookingData.pricePerDay * 0.9)}</span>
-                          </div>
-                          <div className="text-xs text-green-400 font-semibold">10% OFF APPLIED!</div>
-                        </div>
-                      </div>
-                    ) : (
-                      <div className="flex justify-between">
-                        <span className="text-gray-300">Price per day:</span>
-                        <span className="font-medium text-yellow-400">₹{bookingData.pricePerDay}</span>
-                      </div>
-                    )}
-                  </>
+                  <div className="flex justify-between">
+                    <span className="text-gray-300">Duration:</span>
+                    <span className="font-medium text-white">
+                      {formData.bookingType === 'hourly'
+                        ? `${formData.hours} hours`
+                        : formData.bookingType === 'monthly'
+                          ? `${formData.months} month${formData.months > 1 ? 's' : ''}`
+                          : `${formData.days} day${formData.days > 1 ? 's' : ''}`}
+                    </span>
+                  </div>
                 )}
+
+                {/* Itemized price from the pricing rules */}
+                <div className="flex justify-between">
+                  <span className="text-gray-300">Price per {price.unit}:</span>
+                  <span className="font-medium text-yellow-400">₹{price.rate}</span>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-gray-300">Rental ({price.quantity} {price.unit}{price.quantity > 1 ? 's' : ''}):</span>
+                  <span className={price.discounts.length > 0 ? 'text-gray-400 line-through' : 'font-medium text-white'}>₹{price.baseAmount}</span>
+                </div>
+                {price.discounts.map(discount => (
+                  <div key={discount.ruleId} className="flex justify-between items-center">
+                    <span className="text-gray-300">{discount.label}:</span>
+                    <span className="text-green-400 font-medium">-₹{discount.amount}</span>
+                  </div>
+                ))}
                 
                 <div className="flex justify-between items-center pt-1 border-t border-gray-600 mt-1">
                   <span className="text-gray-300 font-semibold">Final Total:</span>
                   <div className="text-right">
-                    <span className="font-bold text-yellow-400 text-lg">₹{calculatePrice().totalPrice}</span>
-                    {formData.bookingType === 'weekly' && (
-                      <div className="text-xs text-green-400 font-semibold">WEEKLY DISCOUNT APPLIED!</div>
-                    )}
-                    {formData.bookingType === 'daily' && calculatePrice().discount && formData.days === 1 && (
-                      <div className="text-xs text-green-400">You save ₹{calculatePrice().savings}!</div>
+                    <span className="font-bold text-yellow-400 text-lg">₹{price.total}</span>
+                    {price.totalDiscount > 0 && (
+                      <div className="text-xs text-green-400">You save ₹{price.totalDiscount}!</div>
                     )}
                   </div>
                 </div>
@@ -839,6 +973,21 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, bookingDat
                     Booking Type *
                   </label>
                   <div className="grid grid-cols-2 gap-3">
+                    <button
+                      type="button"
+                      onClick={() => handleInputChange('bookingType', 'hourly')}
+                      className={`
+                        p-3 rounded-lg border-2 transition-all duration-200 text-left
+                        ${formData.bookingType === 'hourly' 
+                          ? 'border-yellow-400 bg-yellow-400/10 text-yellow-400' 
+                          : 'border-gray-600 bg-gray-700 text-gray-300 hover:border-gray-500'
+                        }
+                      `}
+                      disabled={isSubmitting}
+                    >
+                      <div className="font-medium">Hourly Rental</div>
+                      <div className="text-xs text-gray-400">₹{vehicle.hourlyRate}/hour, min {vehicle.minHours} hours</div>
+                    </button>
                     <button
                       type="button"
                       onClick={() => handleInputChange('bookingType', 'daily')}
@@ -867,10 +1016,29 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, bookingDat
                       disabled={isSubmitting}
                     >
                       <div className="font-medium">Weekly Rental</div>
-                      <div className="text-xs text-gray-400">35% OFF - Best Value!</div>
-                      <div className="absolute -top-1 -right-1 bg-green-500 text-black text-xs px-1 py-0.5 rounded text-black font-bold">
-                        SAVE 35%
+                      <div className="text-xs text-gray-400">
+                        {weeklyDiscountPercent > 0 ? `${weeklyDiscountPercent}% OFF - Best Value!` : '7-day blocks'}
                       </div>
+                      {weeklyDiscountPercent > 0 && (
+                        <div className="absolute -top-1 -right-1 bg-green-500 text-black text-xs px-1 py-0.5 rounded text-black font-bold">
+                          SAVE {weeklyDiscountPercent}%
+                        </div>
+                      )}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleInputChange('bookingType', 'monthly')}
+                      className={`
+                        p-3 rounded-lg border-2 transition-all duration-200 text-left
+                        ${formData.bookingType === 'monthly' 
+                          ? 'border-yellow-400 bg-yellow-400/10 text-yellow-400' 
+                          : 'border-gray-600 bg-gray-700 text-gray-300 hover:border-gray-500'
+                        }
+                      `}
+                      disabled={isSubmitting}
+                    >
+                      <div className="font-medium">Monthly Subscription</div>
+                      <div className="text-xs text-gray-400">₹{vehicle.monthlyRate}/month, renews monthly</div>
                     </button>
                   </div>
                 </div>
@@ -903,6 +1071,27 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, bookingDat
                   )}
                 </div>
 
+                {/* Language for booking updates */}
+                <div>
+                  <label htmlFor="language" className="block text-sm font-medium text-gray-300 mb-1">
+                    Booking updates in
+                  </label>
+                  <div className="relative">
+                    <MessageCircle className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-500" />
+                    <select
+                      id="language"
+                      value={formData.language}
+                      onChange={(e) => handleInputChange('language', e.target.value)}
+                      className="w-full pl-10 pr-4 py-3 bg-gray-700 border border-gray-600 rounded-lg focus:ring-2 focus:ring-yellow-400 focus:border-transparent transition-colors text-white"
+                      disabled={isSubmitting}
+                    >
+                      {(Object.keys(NOTIFICATION_LANGUAGES) as NotificationLanguage[]).map(language => (
+                        <option key={language} value={language}>{NOTIFICATION_LANGUAGES[language]}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
                 {/* Pickup Address */}
                 <div>
                   <label htmlFor="address" className="block text-sm font-medium text-gray-300 mb-1">
@@ -934,7 +1123,7 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, bookingDat
                 {/* Booking Duration */}
                 <div>
                   <label htmlFor="duration" className="block text-sm font-medium text-gray-300 mb-1">
-                    {formData.bookingType === 'weekly' ? 'Number of Weeks *' : 'Number of Days *'}
+                    {durationLabel} *
                   </label>
                   <div className="flex items-center gap-2">
                     <div className="relative flex-1">
@@ -944,7 +1133,7 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, bookingDat
                         pattern="[0-9]*"
                         inputMode="numeric"
                         autoComplete="off"
-                        value={formData.bookingType === 'weekly' ? formData.weeks : formData.days}
+                        value={formData[duration.field]}
                         onFocus={(e) => {
                           // Select all text on focus for easier editing
                           e.target.select();
@@ -969,7 +1158,7 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, bookingDat
                           
                           // Parse to number and apply limits
                           let numValue = parseInt(value);
-                          const maxValue = formData.bookingType === 'weekly' ? 12 : 30;
+                          const maxValue = duration.max;
                           
                           if (numValue > maxValue) {
                             numValue = maxValue;
@@ -979,12 +1168,12 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, bookingDat
                           }
                           
                           console.log('Setting duration value:', numValue);
-                          handleInputChange(formData.bookingType === 'weekly' ? 'weeks' : 'days', numValue);
+                          handleInputChange(duration.field, numValue);
                         }}
                         onBlur={(e) => {
                           // If field is empty when user leaves, set to 1
                           if (e.target.value === '' || parseInt(e.target.value) < 1) {
-                            handleInputChange(formData.bookingType === 'weekly' ? 'weeks' : 'days', 1);
+                            handleInputChange(duration.field, 1);
                           }
                         }}
                         onKeyDown={(e) => {
@@ -1014,32 +1203,109 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, bookingDat
                         }}
                         className={`
                           w-full px-4 py-3 bg-gray-700 border rounded-lg focus:ring-2 focus:ring-yellow-400 focus:border-transparent transition-colors text-white placeholder-gray-400
-                          ${(formData.bookingType === 'weekly' ? errors.weeks : errors.days) ? 'border-red-500' : 'border-gray-600'}
+                          ${errors[duration.field] ? 'border-red-500' : 'border-gray-600'}
                         `}
-                        placeholder={formData.bookingType === 'weekly' ? 'Enter weeks' : 'Enter days'}
+                        placeholder={`Enter ${duration.field}`}
                         disabled={isSubmitting}
-                        aria-describedby={(formData.bookingType === 'weekly' ? errors.weeks : errors.days) ? 'duration-error' : undefined}
+                        aria-describedby={errors[duration.field] ? 'duration-error' : undefined}
                       />
                     </div>
                     <div className="text-yellow-400 font-medium min-w-0">
-                      {formData.bookingType === 'weekly' && calculatePrice().weeklyDiscount ? (
+                      {price.totalDiscount > 0 ? (
                         <div className="text-right">
                           <div className="flex items-center gap-1">
-                            <span className="text-gray-400 line-through text-sm">₹{calculatePrice().originalPrice}</span>
-                            <span className="text-lg">₹{calculatePrice().totalPrice}</span>
+                            <span className="text-gray-400 line-through text-sm">₹{price.baseAmount}</span>
+                            <span className="text-lg">₹{price.total}</span>
                           </div>
-                          <div className="text-xs text-green-400">Save ₹{calculatePrice().savings}!</div>
+                          <div className="text-xs text-green-400">Save ₹{price.totalDiscount}!</div>
                         </div>
                       ) : (
-                        <span>₹{calculatePrice().totalPrice} total</span>
+                        <span>₹{price.total} total</span>
                       )}
                     </div>
                   </div>
-                  {((formData.bookingType === 'weekly' && errors.weeks) || (formData.bookingType === 'daily' && errors.days)) && (
+                  {errors[duration.field] && (
                     <p id="duration-error" className="mt-1 text-sm text-red-600" role="alert">
-                      {formData.bookingType === 'weekly' ? errors.weeks : errors.days}
+                      {errors[duration.field]}
                     </p>
                   )}
+
+                  {/* Hourly Booking Date & Time Selection */}
+                  {formData.bookingType === 'hourly' && (
+                    <div className="mt-4 space-y-4">
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {/* Pickup Date */}
+                        <div>
+                          <label htmlFor="hourlyPickupDate" className="block text-sm font-medium text-gray-300 mb-1">
+                            Pickup Date *
+                          </label>
+                          <input
+                            id="hourlyPickupDate"
+                            type="date"
+                            value={formData.pickupDate}
+                            onChange={(e) => handleInputChange('pickupDate', e.target.value)}
+                            min={new Date().toISOString().split('T')[0]}
+                            className={`
+                              w-full px-4 py-3 bg-gray-700 border rounded-lg focus:ring-2 focus:ring-yellow-400 focus:border-transparent transition-colors text-white
+                              ${errors.pickupDate ? 'border-red-500' : 'border-gray-600'}
+                            `}
+                            disabled={isSubmitting}
+                            aria-describedby={errors.pickupDate ? 'hourly-pickup-date-error' : undefined}
+                          />
+                          {errors.pickupDate && (
+                            <p id="hourly-pickup-date-error" className="mt-1 text-sm text-red-600" role="alert">
+                              {errors.pickupDate}
+                            </p>
+                          )}
+                        </div>
+
+                        {/* Pickup Time */}
+                        <div>
+                          <label htmlFor="hourlyPickupTime" className="block text-sm font-medium text-gray-300 mb-1">
+                            Pickup Time *
+                          </label>
+                          <input
+                            id="hourlyPickupTime"
+                            type="time"
+                            value={formData.pickupTime}
+                            onChange={(e) => handleInputChange('pickupTime', e.target.value)}
+                            className={`
+                              w-full px-4 py-3 bg-gray-700 border rounded-lg focus:ring-2 focus:ring-yellow-400 focus:border-transparent transition-colors text-white
+                              ${errors.pickupTime ? 'border-red-500' : 'border-gray-600'}
+                            `}
+                            disabled={isSubmitting}
+                            aria-describedby={errors.pickupTime ? 'hourly-pickup-time-error' : undefined}
+                          />
+                          {errors.pickupTime && (
+                            <p id="hourly-pickup-time-error" className="mt-1 text-sm text-red-600" role="alert">
+                              {errors.pickupTime}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+
+                      {formData.pickupDate && formData.returnDate && (
+                        <div className="p-3 bg-blue-900/20 border border-blue-700/50 rounded-lg">
+                          <div className="flex items-center gap-2 mb-1">
+                            <span className="text-blue-400 text-sm font-semibold">⏱️ Rental Schedule</span>
+                          </div>
+                          <p className="text-xs text-blue-300">
+                            Pickup: {new Date(formData.pickupDate).toLocaleDateString('en-US', { 
+                              weekday: 'short', 
+                              month: 'short', 
+                              day: 'numeric' 
+                            })} at {formData.pickupTime}<br/>
+                            Return: {new Date(formData.returnDate).toLocaleDateString('en-US', { 
+                              weekday: 'short', 
+                              month: 'short', 
+                              day: 'numeric' 
+                            })} at {formData.returnTime}<br/>
+                            Duration: {formData.hours} hours
+                          </p>
+                        </div>
+                      )}
+                    </div>
+                  )}
                   
                   {/* Daily Booking Date & Time Selection */}
                   {formData.bookingType === 'daily' && (
@@ -1179,6 +1445,79 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, bookingDat
                     </div>
                   )}
                   
+                  {/* Monthly Subscription Start Date & Schedule */}
+                  {formData.bookingType === 'monthly' && (
+                    <div className="mt-4 space-y-4">
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {/* Start Date */}
+                        <div>
+                          <label htmlFor="monthlyPickupDate" className="block text-sm font-medium text-gray-300 mb-1">
+                            Start Date *
+                          </label>
+                          <input
+                            id="monthlyPickupDate"
+                            type="date"
+                            value={formData.pickupDate}
+                            onChange={(e) => handleInputChange('pickupDate', e.target.value)}
+                            min={new Date().toISOString().split('T')[0]}
+                            className={`
+                              w-full px-4 py-3 bg-gray-700 border rounded-lg focus:ring-2 focus:ring-yellow-400 focus:border-transparent transition-colors text-white
+                              ${errors.pickupDate ? 'border-red-500' : 'border-gray-600'}
+                            `}
+                            disabled={isSubmitting}
+                            aria-describedby={errors.pickupDate ? 'monthly-pickup-date-error' : undefined}
+                          />
+                          {errors.pickupDate && (
+                            <p id="monthly-pickup-date-error" className="mt-1 text-sm text-red-600" role="alert">
+                              {errors.pickupDate}
+                            </p>
+                          )}
+                        </div>
+
+                        {/* Term End Date */}
+                        <div>
+                          <label htmlFor="monthlyReturnDate" className="block text-sm font-medium text-gray-300 mb-1">
+                            Term Ends
+                            <span className="text-xs text-blue-400 ml-1">(Auto-calculated)</span>
+                          </label>
+                          <input
+                            id="monthlyReturnDate"
+                            type="date"
+                            value={formData.returnDate}
+                            readOnly
+                            className="w-full px-4 py-3 bg-gray-600 border border-gray-500 rounded-lg transition-colors text-gray-300 cursor-not-allowed"
+                            disabled={isSubmitting}
+                          />
+                        </div>
+                      </div>
+
+                      {formData.pickupDate && formData.returnDate && (
+                        <div className="p-3 bg-blue-900/20 border border-blue-700/50 rounded-lg">
+                          <div className="flex items-center gap-2 mb-1">
+                            <span className="text-blue-400 text-sm font-semibold">🗓️ Payment Schedule</span>
+                          </div>
+                          <p className="text-xs text-blue-300">
+                            {buildInstalmentSchedule(formData.pickupDate, formData.months, price.total).map(instalment => (
+                              <span key={instalment.instalment_number}>
+                                Month {instalment.instalment_number}: ₹{instalment.amount} due {new Date(instalment.due_date).toLocaleDateString('en-US', { 
+                                  month: 'short', 
+                                  day: 'numeric', 
+                                  year: 'numeric' 
+                                })}<br/>
+                              </span>
+                            ))}
+                          </p>
+                          <p className="mt-2 text-xs text-gray-400">
+                            Renews automatically at ₹{vehicle.monthlyRate}/month unless cancelled by{' '}
+                            {new Date(getRenewalDeadline({ return_date: formData.returnDate })).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}{' '}
+                            ({RENEWAL_NOTICE_DAYS} days before the term ends). Ending early: the current month is charged in full, later
+                            instalments are cancelled and a fee of {EARLY_TERMINATION_FEE_PERCENT}% of one month applies.
+                          </p>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
                   {/* Weekly Booking Date Selection */}
                   {formData.bookingType === 'weekly' && (
                     <div className="mt-4 space-y-4">
@@ -1266,7 +1605,9 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, bookingDat
                         <span className="text-green-400 text-sm font-semibold">🎉 Weekly Deal Active!</span>
                       </div>
                       <p className="text-xs text-green-300">
-                        • 35% OFF on total rental cost<br/>
+                        {price.discounts.map(discount => (
+                          <span key={discount.ruleId}>• {discount.label} on total rental cost<br/></span>
+                        ))}
                         • {formData.weeks} week{formData.weeks > 1 ? 's' : ''} = {formData.weeks * 7} days of riding<br/>
                         • Best value for extended trips
                       </p>
@@ -1274,22 +1615,115 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, bookingDat
                   )}
                   
                   {/* Daily Booking Tips */}
-                  {formData.bookingType === 'daily' && bookingData.model.includes("Pulsar") && formData.days !== 1 && (
-                    <div className="mt-2 py-2 px-3 bg-yellow-900/30 border border-yellow-700/50 rounded-lg">
-                      <p className="text-xs text-yellow-200 font-medium">💡 Tip: Book for exactly 24 hours to get 10% OFF on this Pulsar!</p>
+                  {missedOffers.map(rule => (
+                    <div key={rule.id} className="mt-2 py-2 px-3 bg-yellow-900/30 border border-yellow-700/50 rounded-lg">
+                      <p className="text-xs text-yellow-200 font-medium">💡 Tip: {rule.badge} on this {vehicle.name}!</p>
                     </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Promo Code */}
+              <div className="mt-4">
+                <label htmlFor="promoCode" className="block text-sm font-medium text-gray-300 mb-1">
+                  Promo Code
+                </label>
+                <div className="flex gap-2">
+                  <div className="relative flex-1">
+                    <Tag className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-500" />
+                    <input
+                      id="promoCode"
+                      type="text"
+                      value={promoInput}
+                      onChange={(e) => {
+                        setPromoInput(e.target.value.toUpperCase());
+                        setPromoError('');
+                      }}
+                      className={`
+                        w-full pl-10 pr-4 py-3 bg-gray-700 border rounded-lg focus:ring-2 focus:ring-yellow-400 focus:border-transparent transition-colors text-white placeholder-gray-400 uppercase
+                        ${promoError ? 'border-red-500' : appliedPromo ? 'border-green-500' : 'border-gray-600'}
+                      `}
+                      placeholder="Have a WhatsApp promo code?"
+                      disabled={isSubmitting || !!appliedPromo}
+                      aria-describedby={promoError ? 'promo-code-error' : undefined}
+                    />
+                  </div>
+                  {appliedPromo ? (
+                    <button
+                      type="button"
+                      onClick={handleRemovePromo}
+                      disabled={isSubmitting}
+                      className="px-4 py-3 border border-gray-600 text-gray-300 rounded-lg font-semibold hover:bg-gray-700 transition-colors disabled:opacity-50"
+                    >
+                      Remove
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={handleApplyPromo}
+                      disabled={isSubmitting || isApplyingPromo || !promoInput.trim()}
+                      className="px-4 py-3 bg-gray-600 text-white rounded-lg font-semibold hover:bg-gray-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
+                    >
+                      {isApplyingPromo ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Apply'}
+                    </button>
                   )}
                 </div>
+                {promoError && (
+                  <p id="promo-code-error" className="mt-1 text-sm text-red-600" role="alert">
+                    {promoError}
+                  </p>
+                )}
+                {appliedPromo && (
+                  <p className="mt-1 text-xs text-green-400">
+                    {appliedPromo.description || `Code ${appliedPromo.code} applied`} – you save ₹{couponDiscount(price)}
+                  </p>
+                )}
               </div>
 
+              {/* Availability Conflict */}
+              {availabilityConflict && (
+                <div className="mt-6 p-3 bg-red-900/30 border border-red-700 rounded-lg" role="alert">
+                  <p className="text-sm text-red-300 font-medium">
+                    {availabilityConflict.totalUnits > 1
+                      ? `All ${availabilityConflict.totalUnits} units of the ${vehicle.name} are booked for part of the selected period.`
+                      : `This ${vehicle.name} is already booked for part of the selected period.`}
+                  </p>
+                  {availabilityConflict.nextFreeSlot && (
+                    <div className="mt-2 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                      <p className="text-xs text-red-200">
+                        Next free slot: {availabilityConflict.nextFreeSlot.toLocaleString('en-US', {
+                          weekday: 'short',
+                          month: 'short',
+                          day: 'numeric',
+                          hour: 'numeric',
+                          minute: '2-digit'
+                        })}
+                      </p>
+                      <button
+                        type="button"
+                        onClick={applyNextFreeSlot}
+                        className="text-xs font-semibold text-yellow-400 hover:text-yellow-300 underline"
+                      >
+                        Use this slot
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Buttons */}
               <div className="flex flex-col sm:flex-row gap-3 mt-6">
                 <button
                   type="submit"
-                  disabled={isSubmitting}
+                  disabled={isSubmitting || isCheckingAvailability}
                   className="flex-1 bg-gradient-to-r from-yellow-400 to-yellow-500 text-black py-3 px-6 rounded-lg font-semibold hover:from-yellow-300 hover:to-yellow-400 focus:ring-2 focus:ring-yellow-400 focus:ring-offset-2 focus:ring-offset-gray-800 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center shadow-lg"
                 >
-                  {isSubmitting ? (
+                  {isCheckingAvailability ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Checking availability...
+                    </>
+                  ) : isSubmitting ? (
                     <>
                       <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                       Submitting...
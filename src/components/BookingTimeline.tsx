@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { CalendarClock, CalendarPlus, CircleDot, Loader2, PlusCircle } from 'lucide-react';
+import { fetchBookingEvents, type BookingEvent } from '../lib/supabase';
+
+interface BookingTimelineProps {
+  bookingId: string;
+  source?: BookingEvent['booking_source'];
+  refreshKey?: string; // Change it (e.g. to updated_at) to reload after an edit
+}
+
+const ACTOR_LABELS: Record<BookingEvent['actor'], string> = {
+  customer: 'Customer',
+  staff: 'Staff',
+  system: 'System'
+};
+
+const ICONS: Record<BookingEvent['action'], React.ElementType> = {
+  created: PlusCircle,
+  status_changed: CircleDot,
+  date_change_requested: CalendarClock,
+  extended: CalendarPlus
+};
+
+const formatDate = (date: unknown, time?: unknown) => {
+  if (typeof date !== 'string') return '—';
+  const day = new Date(date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' });
+  return typeof time === 'string' ? `${day}, ${time.slice(0, 5)}` : day;
+};
+
+const describeEvent = (event: BookingEvent): string => {
+  const from = event.old_values || {};
+  const to = event.new_values || {};
+
+  switch (event.action) {
+    case 'created':
+      return 'Booking created';
+    case 'status_changed':
+      return `${String(from.status ?? '?')} → ${String(to.status ?? '?')}`;
+    case 'date_change_requested':
+      return `Asked to move to ${formatDate(to.pickup_date)} – ${formatDate(to.return_date)}`;
+    case 'extended':
+      return `Extended to ${formatDate(to.return_date, to.return_time)} (₹${String(from.total_price ?? '?')} → ₹${String(to.total_price ?? '?')})`;
+  }
+};
+
+// Everything that happened to a booking, oldest first, from the booking_events table
+const BookingTimeline: React.FC<BookingTimelineProps> = ({ bookingId, source = 'bookings', refreshKey }) => {
+  const [events, setEvents] = useState<BookingEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setError('');
+
+    fetchBookingEvents(bookingId, source)
+      .then((rows) => {
+        if (!cancelled) setEvents(rows);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load timeline');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [bookingId, source, refreshKey]);
+
+  if (isLoading) {
+    return <Loader2 className="h-5 w-5 text-yellow-400 animate-spin" />;
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-400">{error}</p>;
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-gray-400">Nothing recorded yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-600 ml-2 space-y-4">
+      {events.map(event => {
+        const Icon = ICONS[event.action];
+        return (
+          <li key={event.id} className="ml-5">
+            <span className="absolute -left-2.5 flex items-center justify-center w-5 h-5 bg-gray-800 rounded-full">
+              <Icon className="h-4 w-4 text-yellow-400" />
+            </span>
+            <div className="text-sm text-white">{describeEvent(event)}</div>
+            <div className="text-xs text-gray-400">
+              {ACTOR_LABELS[event.actor]} · {new Date(event.created_at).toLocaleString('en-IN')}
+            </div>
+            {event.note && <div className="text-xs text-gray-300 mt-1">“{event.note}”</div>}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default BookingTimeline;
@@ -0,0 +1,305 @@
+import React, { useEffect, useState } from 'react';
+import { X, Loader2, Mail, Phone, Link2, Unlink } from 'lucide-react';
+import { CONTACT_STATUSES, type ContactMessage, type ContactNote, type Customer, type StaffMember } from '../lib/supabase';
+import {
+  CONTACT_STATUS_LABELS,
+  CONTACT_STATUS_STYLES,
+  addContactNote,
+  fetchContactNotes,
+  fetchLinkableCustomers,
+  fetchLinkedBooking,
+  fetchMessagesFromSender,
+  findBookingByReference,
+  type ContactUpdate,
+  type LinkedBooking
+} from '../lib/contacts';
+
+interface ContactMessagePanelProps {
+  message: ContactMessage;
+  staffMembers: StaffMember[];
+  isUpdating: boolean;
+  onClose: () => void;
+  onUpdate: (message: ContactMessage, changes: ContactUpdate) => Promise<void>;
+  onSelect: (id: string) => void;
+}
+
+const inputClass = 'w-full p-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm placeholder-gray-400 focus:border-yellow-400 focus:ring-1 focus:ring-yellow-400 transition-colors';
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString('en-IN');
+
+const ContactMessagePanel: React.FC<ContactMessagePanelProps> = ({ message, staffMembers, isUpdating, onClose, onUpdate, onSelect }) => {
+  const [notes, setNotes] = useState<ContactNote[]>([]);
+  const [earlier, setEarlier] = useState<ContactMessage[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [linkedBooking, setLinkedBooking] = useState<LinkedBooking | null>(null);
+  const [noteInput, setNoteInput] = useState('');
+  const [isSavingNote, setIsSavingNote] = useState(false);
+  const [referenceInput, setReferenceInput] = useState('');
+  const [linkError, setLinkError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setNoteInput('');
+    setReferenceInput('');
+    setLinkError('');
+
+    fetchContactNotes(message.id)
+      .then((rows) => {
+        if (!cancelled) setNotes(rows);
+      })
+      .catch((err) => console.error('Error loading notes:', err));
+
+    fetchMessagesFromSender(message.email, message.id)
+      .then((rows) => {
+        if (!cancelled) setEarlier(rows);
+      })
+      .catch((err) => console.error('Error loading earlier messages:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [message.id, message.email]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchLinkableCustomers({ email: message.email, phone: message.phone, customer_id: message.customer_id })
+      .then((rows) => {
+        if (!cancelled) setCustomers(rows);
+      })
+      .catch((err) => console.error('Error loading customers:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [message.email, message.phone, message.customer_id]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLinkedBooking(null);
+    if (!message.booking_id) return;
+
+    fetchLinkedBooking(message.booking_id)
+      .then((booking) => {
+        if (!cancelled) setLinkedBooking(booking);
+      })
+      .catch((err) => console.error('Error loading linked booking:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [message.booking_id]);
+
+  const staffName = (userId: string | null) =>
+    staffMembers.find(member => member.user_id === userId)?.name || 'Former staff';
+
+  const handleAddNote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!noteInput.trim()) return;
+
+    setIsSavingNote(true);
+    try {
+      const note = await addContactNote(message.id, noteInput);
+      setNotes(prev => [...prev, note]);
+      setNoteInput('');
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to add note');
+    } finally {
+      setIsSavingNote(false);
+    }
+  };
+
+  const handleLinkBooking = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!referenceInput.trim()) return;
+
+    setLinkError('');
+    try {
+      const booking = await findBookingByReference(referenceInput);
+      if (!booking) {
+        setLinkError('No booking has that reference.');
+        return;
+      }
+      await onUpdate(message, { booking_id: booking.id });
+      setReferenceInput('');
+    } catch (err) {
+      setLinkError(err instanceof Error ? err.message : 'Failed to link booking');
+    }
+  };
+
+  const replySubject = encodeURIComponent(`Re: ${message.subject}`);
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-2xl p-6">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-white">{message.subject}</h2>
+          <p className="text-sm text-gray-400">
+            {message.name} · {formatDateTime(message.created_at)}
+          </p>
+          <span className={`inline-block mt-2 px-2 py-1 text-xs font-medium rounded border ${CONTACT_STATUS_STYLES[message.status]}`}>
+            {CONTACT_STATUS_LABELS[message.status]}
+          </span>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-full transition-colors"
+          aria-label="Close message"
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <p className="text-gray-200 text-sm whitespace-pre-wrap mb-4">{message.message}</p>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <a
+          href={`mailto:${message.email}?subject=${replySubject}`}
+          className="flex items-center px-3 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors text-sm"
+        >
+          <Mail className="h-4 w-4 mr-2" /> {message.email}
+        </a>
+        {message.phone && (
+          <a
+            href={`tel:${message.phone}`}
+            className="flex items-center px-3 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors text-sm"
+          >
+            <Phone className="h-4 w-4 mr-2" /> {message.phone}
+          </a>
+        )}
+      </div>
+
+      <div className="pt-4 border-t border-gray-700 grid grid-cols-2 gap-3">
+        <label className="text-sm text-gray-400">
+          Status
+          <select
+            value={message.status}
+            onChange={e => onUpdate(message, { status: e.target.value as ContactMessage['status'] })}
+            disabled={isUpdating}
+            className={`${inputClass} mt-1`}
+          >
+            {CONTACT_STATUSES.map(status => <option key={status} value={status}>{CONTACT_STATUS_LABELS[status]}</option>)}
+          </select>
+        </label>
+        <label className="text-sm text-gray-400">
+          Assigned to
+          <select
+            value={message.assigned_to || ''}
+            onChange={e => onUpdate(message, { assigned_to: e.target.value || null })}
+            disabled={isUpdating}
+            className={`${inputClass} mt-1`}
+          >
+            <option value="">Nobody</option>
+            {staffMembers.map(member => <option key={member.user_id} value={member.user_id}>{member.name}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="mt-4 pt-4 border-t border-gray-700 text-sm">
+        <h3 className="text-gray-300 font-medium mb-2">Linked booking</h3>
+        {message.booking_id ? (
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-white">
+              {linkedBooking
+                ? <><span className="font-mono">{linkedBooking.reference}</span> · {linkedBooking.model} · {linkedBooking.status}</>
+                : 'Loading…'}
+            </span>
+            <button
+              onClick={() => onUpdate(message, { booking_id: null })}
+              disabled={isUpdating}
+              className="flex items-center text-gray-400 hover:text-white transition-colors"
+            >
+              <Unlink className="h-4 w-4 mr-1" /> Unlink
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleLinkBooking} className="flex gap-2">
+            <input
+              value={referenceInput}
+              onChange={e => setReferenceInput(e.target.value)}
+              className={inputClass}
+              placeholder="Booking reference, e.g. RR-7K3QX9PD"
+              aria-label="Booking reference"
+            />
+            <button
+              type="submit"
+              disabled={isUpdating || !referenceInput.trim()}
+              className="flex items-center px-3 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50"
+            >
+              <Link2 className="h-4 w-4 mr-1" /> Link
+            </button>
+          </form>
+        )}
+        {linkError && <p className="mt-2 text-red-400">{linkError}</p>}
+      </div>
+
+      <div className="mt-4 pt-4 border-t border-gray-700 text-sm">
+        <h3 className="text-gray-300 font-medium mb-2">Customer account</h3>
+        {customers.length === 0 ? (
+          <p className="text-gray-400">No customer account uses this email or phone.</p>
+        ) : (
+          <select
+            value={message.customer_id || ''}
+            onChange={e => onUpdate(message, { customer_id: e.target.value || null })}
+            disabled={isUpdating}
+            className={inputClass}
+            aria-label="Customer account"
+          >
+            <option value="">Not linked</option>
+            {customers.map(customer => (
+              <option key={customer.id} value={customer.id}>{customer.name} ({customer.contact})</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {earlier.length > 0 && (
+        <div className="mt-4 pt-4 border-t border-gray-700 text-sm">
+          <h3 className="text-gray-300 font-medium mb-2">Other messages from {message.email}</h3>
+          {earlier.map(other => (
+            <button
+              key={other.id}
+              onClick={() => onSelect(other.id)}
+              className="w-full flex justify-between gap-4 mb-1 text-left hover:bg-gray-700/50 rounded px-1 transition-colors"
+            >
+              <span className="text-white truncate">{other.subject}</span>
+              <span className="text-gray-400 whitespace-nowrap">{new Date(other.created_at).toLocaleDateString('en-IN')}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-4 pt-4 border-t border-gray-700 text-sm">
+        <h3 className="text-gray-300 font-medium mb-2">Internal notes</h3>
+        {notes.length === 0 && <p className="text-gray-400 mb-2">No notes yet. The sender never sees these.</p>}
+        {notes.map(note => (
+          <div key={note.id} className="mb-3">
+            <div className="text-white whitespace-pre-wrap">{note.body}</div>
+            <div className="text-xs text-gray-400">
+              {staffName(note.author_id)} · {formatDateTime(note.created_at)}
+            </div>
+          </div>
+        ))}
+        <form onSubmit={handleAddNote} className="space-y-2">
+          <textarea
+            value={noteInput}
+            onChange={e => setNoteInput(e.target.value)}
+            rows={2}
+            className={inputClass}
+            placeholder="Add a note for the team"
+            aria-label="New note"
+          />
+          <button
+            type="submit"
+            disabled={isSavingNote || !noteInput.trim()}
+            className="px-4 py-2 rounded-lg text-sm font-semibold bg-yellow-400 text-black hover:bg-yellow-300 transition-colors disabled:opacity-50"
+          >
+            {isSavingNote ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Add note'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ContactMessagePanel;
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { Loader2, Mail, Phone } from 'lucide-react';
+import { sendCustomerSignInCode, verifyCustomerPhoneCode } from '../lib/auth';
+
+const inputClass = 'w-full p-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:border-yellow-400 focus:ring-1 focus:ring-yellow-400 transition-colors disabled:opacity-50';
+
+type Method = 'phone' | 'email';
+
+// Passwordless sign-in for customers: a one-time code by SMS, or a magic link by email
+const CustomerSignIn: React.FC = () => {
+  const [method, setMethod] = useState<Method>('phone');
+  const [phone, setPhone] = useState('');
+  const [email, setEmail] = useState('');
+  const [code, setCode] = useState('');
+  const [codeSent, setCodeSent] = useState(false);
+  const [linkSent, setLinkSent] = useState(false);
+  const [error, setError] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError('');
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSend = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      if (method === 'phone') {
+        await sendCustomerSignInCode({ phone });
+        setCodeSent(true);
+      } else {
+        await sendCustomerSignInCode({ email });
+        setLinkSent(true);
+      }
+    });
+  };
+
+  // The session arrives through onAuthStateChange; nothing else to do here
+  const handleVerify = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(() => verifyCustomerPhoneCode(phone, code));
+  };
+
+  const switchMethod = (next: Method) => {
+    setMethod(next);
+    setCodeSent(false);
+    setLinkSent(false);
+    setError('');
+  };
+
+  return (
+    <div className="max-w-md mx-auto bg-gray-800 border border-gray-700 rounded-2xl shadow-2xl p-8">
+      <h1 className="text-2xl font-bold text-white mb-2">Sign in to see your bookings</h1>
+      <p className="text-gray-400 text-sm mb-6">No password needed. Signing in is optional; you can still book as a guest.</p>
+
+      <div className="grid grid-cols-2 gap-2 mb-6">
+        {(['phone', 'email'] as Method[]).map(option => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => switchMethod(option)}
+            className={`flex items-center justify-center py-2 rounded-lg text-sm font-medium transition-colors ${
+              method === option ? 'bg-yellow-400 text-black' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            {option === 'phone' ? <Phone className="h-4 w-4 mr-2" /> : <Mail className="h-4 w-4 mr-2" />}
+            {option === 'phone' ? 'Phone' : 'Email'}
+          </button>
+        ))}
+      </div>
+
+      {linkSent ? (
+        <p className="text-green-400">
+          We've emailed a sign-in link to {email}. Open it on this device to continue.
+        </p>
+      ) : codeSent ? (
+        <form onSubmit={handleVerify} className="space-y-4">
+          <p className="text-sm text-gray-300">Enter the code we sent to {phone}.</p>
+          <input
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={e => setCode(e.target.value)}
+            disabled={isBusy}
+            className={inputClass}
+            placeholder="6-digit code"
+            required
+          />
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          <button
+            type="submit"
+            disabled={isBusy}
+            className="w-full bg-yellow-500 hover:bg-yellow-400 text-black font-bold py-3 rounded-lg transition-colors disabled:opacity-50 flex items-center justify-center"
+          >
+            {isBusy ? <Loader2 className="h-5 w-5 animate-spin" /> : 'Verify'}
+          </button>
+          <button type="button" onClick={() => switchMethod('phone')} className="w-full text-sm text-gray-400 hover:text-white">
+            Use a different number
+          </button>
+        </form>
+      ) : (
+        <form onSubmit={handleSend} className="space-y-4">
+          {method === 'phone' ? (
+            <input
+              type="tel"
+              value={phone}
+              onChange={e => setPhone(e.target.value)}
+              disabled={isBusy}
+              className={inputClass}
+              placeholder="10-digit mobile number"
+              autoComplete="tel"
+              required
+            />
+          ) : (
+            <input
+              type="email"
+              value={email}
+              onChange={e => setEmail(e.target.value)}
+              disabled={isBusy}
+              className={inputClass}
+              placeholder="Email address"
+              autoComplete="email"
+              required
+            />
+          )}
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          <button
+            type="submit"
+            disabled={isBusy}
+            className="w-full bg-yellow-500 hover:bg-yellow-400 text-black font-bold py-3 rounded-lg transition-colors disabled:opacity-50 flex items-center justify-center"
+          >
+            {isBusy ? <Loader2 className="h-5 w-5 animate-spin" /> : method === 'phone' ? 'Send code' : 'Email me a link'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default CustomerSignIn;
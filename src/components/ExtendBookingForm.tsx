@@ -0,0 +1,116 @@
+import React, { useMemo, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { isExtensionAvailable, quoteExtension, type ExtendableBooking, type ExtensionQuote } from '../lib/extensions';
+import { toDateInputValue, toDateTime } from '../lib/availability';
+import { useVehicles } from '../hooks/useVehicles';
+
+interface ExtendBookingFormProps {
+  booking: ExtendableBooking & { vehicleId: string | null; model: string };
+  onConfirm: (quote: ExtensionQuote) => Promise<void>;
+  onCancel: () => void;
+}
+
+const inputClass = 'w-full p-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm focus:border-yellow-400 focus:ring-1 focus:ring-yellow-400 transition-colors disabled:opacity-50';
+
+// Picks a later return time, shows the price of the extra time and confirms it once the bike is free
+const ExtendBookingForm: React.FC<ExtendBookingFormProps> = ({ booking, onConfirm, onCancel }) => {
+  const { vehicles } = useVehicles();
+  const currentReturnTime = (booking.returnTime || '18:00').slice(0, 5);
+  const [returnDate, setReturnDate] = useState(() => {
+    // Riders usually ask for one more day, or two more hours on an hourly rental
+    const next = toDateTime(booking.returnDate, currentReturnTime);
+    if (booking.rentalType !== 'hourly') next.setDate(next.getDate() + 1);
+    return toDateInputValue(next);
+  });
+  const [returnTime, setReturnTime] = useState(() => {
+    if (booking.rentalType !== 'hourly') return currentReturnTime;
+    const [hours, minutes] = currentReturnTime.split(':').map(Number);
+    return `${String(Math.min(hours + 2, 23)).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+  });
+  const [error, setError] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const vehicle = vehicles.find(item => item.id === booking.vehicleId) || vehicles.find(item => item.name === booking.model);
+
+  const quote = useMemo(() => {
+    if (!vehicle || !returnDate || !returnTime) return null;
+    try {
+      return quoteExtension(booking, vehicle, returnDate, returnTime);
+    } catch {
+      return null;
+    }
+  }, [booking, vehicle, returnDate, returnTime]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!vehicle || !quote) return;
+
+    setIsWorking(true);
+    setError('');
+    try {
+      if (!(await isExtensionAvailable(booking, vehicle, quote))) {
+        setError('The bike is already booked for part of that time. Try a shorter extension or call us.');
+        return;
+      }
+      await onConfirm(quote);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to extend booking');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <label className="text-sm text-gray-300">
+          New return date
+          <input type="date" value={returnDate} min={booking.returnDate} onChange={e => setReturnDate(e.target.value)} disabled={isWorking} className={`${inputClass} mt-1`} required />
+        </label>
+        <label className="text-sm text-gray-300">
+          New return time
+          <input type="time" value={returnTime} onChange={e => setReturnTime(e.target.value)} disabled={isWorking} className={`${inputClass} mt-1`} required />
+        </label>
+      </div>
+
+      {!vehicle ? (
+        <p className="text-sm text-red-400">This vehicle is no longer in the catalog, so the extension can't be priced online.</p>
+      ) : quote ? (
+        <div className="text-sm bg-gray-700/50 rounded-lg p-3 space-y-1">
+          <div className="flex justify-between text-gray-300">
+            <span>{quote.price.quantity} extra {quote.price.unit}{quote.price.quantity > 1 ? 's' : ''} × ₹{quote.price.rate}</span>
+            <span>₹{quote.price.baseAmount}</span>
+          </div>
+          {quote.price.discounts.map(discount => (
+            <div key={discount.ruleId} className="flex justify-between text-green-400">
+              <span>{discount.label}</span>
+              <span>−₹{discount.amount}</span>
+            </div>
+          ))}
+          <div className="flex justify-between text-white font-semibold">
+            <span>Extension total</span>
+            <span>₹{quote.price.total}</span>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-400">Pick a return time after the current one.</p>
+      )}
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={isWorking || !quote}
+          className="flex items-center bg-yellow-500 hover:bg-yellow-400 text-black font-bold py-2 px-6 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {isWorking ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Extend booking'}
+        </button>
+        <button type="button" onClick={onCancel} disabled={isWorking} className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors text-sm">
+          Never mind
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default ExtendBookingForm;
@@ -1,7 +1,11 @@
 import { Link } from 'react-router-dom';
 import { Bike, Phone, Mail, MapPin } from 'lucide-react';
+import { useSiteConfig } from '../hooks/useSiteConfig';
+import { getPhoneHref } from '../lib/siteConfig';
 
 const Footer = () => {
+  const config = useSiteConfig();
+
   return (
     <footer className="bg-black text-white border-t border-gray-800">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
@@ -10,7 +14,7 @@ const Footer = () => {
           <div className="col-span-1 md:col-span-2">
             <div className="flex items-center space-x-2 mb-4">
               <Bike className="h-8 w-8 text-yellow-400" />
-              <span className="text-xl font-bold">RideRental</span>
+              <span className="text-xl font-bold">{config.businessName}</span>
             </div>
             <p className="text-gray-300 mb-4">
               Your trusted partner for bike and scooter rentals. Ride your dream vehicle today with our premium rental services.
@@ -18,11 +22,11 @@ const Footer = () => {
             <div className="flex flex-wrap gap-4">
               <div className="flex items-center space-x-2">
                 <Phone className="h-4 w-4 text-yellow-400" />
-                <span className="text-sm text-gray-300">+91 8827326825</span>
+                <a href={getPhoneHref(config)} className="text-sm text-gray-300 hover:text-yellow-400 transition-colors">{config.phone}</a>
               </div>
               <div className="flex items-center space-x-2">
                 <Mail className="h-4 w-4 text-yellow-400" />
-                <span className="text-sm text-gray-300">riderental68@gmail.com</span>
+                <a href={`mailto:${config.email}`} className="text-sm text-gray-300 hover:text-yellow-400 transition-colors">{config.email}</a>
               </div>
             </div>
           </div>
@@ -60,18 +64,15 @@ const Footer = () => {
             <div className="space-y-3">
               <div className="flex items-start space-x-2">
                 <MapPin className="h-4 w-4 text-yellow-400 mt-1" />
-                <span className="text-sm text-gray-300">
-                   VIT Bhopal, Kothri Kalan, Sehore,<br />
-                   Madhya Pradesh
-                </span>
+                <span className="text-sm text-gray-300">{config.address}</span>
               </div>
               <div className="flex items-center space-x-2">
                 <Phone className="h-4 w-4 text-yellow-400" />
-                <span className="text-sm text-gray-300">+91 8827326825</span>
+                <a href={getPhoneHref(config)} className="text-sm text-gray-300 hover:text-yellow-400 transition-colors">{config.phone}</a>
               </div>
               <div className="flex items-center space-x-2">
                 <Mail className="h-4 w-4 text-yellow-400" />
-                <span className="text-sm text-gray-300">riderental68@gmail.com</span>
+                <a href={`mailto:${config.email}`} className="text-sm text-gray-300 hover:text-yellow-400 transition-colors">{config.email}</a>
               </div>
             </div>
           </div>
@@ -79,7 +80,7 @@ const Footer = () => {
 
         <div className="border-t border-gray-700 mt-8 pt-8 text-center">
           <p className="text-gray-400 text-sm">
-            © 2024 RideRental. All rights reserved. | Designed for premium bike rental experience.
+            © 2024 {config.businessName}. All rights reserved. | Designed for premium bike rental experience.
           </p>
         </div>
       </div>
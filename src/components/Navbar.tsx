@@ -12,6 +12,7 @@ const Navbar = () => {
     { name: 'Normal Bikes', path: '/normal-bikes' },
     { name: 'Scooties', path: '/scooties' },
     { name: 'Contact', path: '/contact' },
+    { name: 'My Bookings', path: '/my-bookings' },
   ];
 
   const isActive = (path: string) => location.pathname === path;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { Loader2, ShieldAlert } from 'lucide-react';
+import type { StaffRole } from '../lib/supabase';
+import { hasRole, STAFF_ROLE_LABELS } from '../lib/auth';
+import { useAuth } from '../hooks/useAuth';
+import StaffLogin from './StaffLogin';
+
+interface RequireStaffProps {
+  roles?: StaffRole[]; // Leave out to let any staff member in
+  children: React.ReactNode;
+}
+
+/**
+ * Guards staff-only routes. Signed-out visitors get the sign-in form; signed-in
+ * users who aren't staff, or lack one of `roles`, get a no-access notice.
+ * The database enforces the same rules through RLS, so this only shapes the UI.
+ */
+const RequireStaff: React.FC<RequireStaffProps> = ({ roles, children }) => {
+  const { session, staff, isLoading, signOut } = useAuth();
+
+  if (!isLoading && hasRole(staff, roles)) {
+    return <>{children}</>;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 pt-12 pb-16">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {isLoading ? (
+          <div className="flex justify-center py-24">
+            <Loader2 className="h-8 w-8 text-yellow-400 animate-spin" />
+          </div>
+        ) : !session ? (
+          <StaffLogin />
+        ) : (
+          <div className="max-w-md mx-auto bg-gray-800 border border-gray-700 rounded-2xl shadow-2xl p-8 text-center">
+            <ShieldAlert className="h-10 w-10 text-red-400 mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-white mb-2">No access</h1>
+            <p className="text-gray-300 mb-6">
+              {staff
+                ? `This page is for ${roles?.map(role => STAFF_ROLE_LABELS[role].toLowerCase()).join(' or ')} only.`
+                : `${session.user.email} isn't on the staff list. Ask the owner to add you.`}
+            </p>
+            <button
+              onClick={() => signOut()}
+              className="px-6 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+            >
+              Sign out
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RequireStaff;
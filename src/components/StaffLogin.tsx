@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { Loader2, Lock } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+
+const inputClass = 'w-full p-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm placeholder-gray-400 focus:border-yellow-400 focus:ring-1 focus:ring-yellow-400 transition-colors';
+
+// Staff sign in with a Supabase Auth email and password
+const StaffLogin: React.FC = () => {
+  const { signIn } = useAuth();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSigningIn(true);
+    setError('');
+
+    try {
+      await signIn(email, password);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in');
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  return (
+    <div className="max-w-md mx-auto bg-gray-800 border border-gray-700 rounded-2xl shadow-2xl p-8">
+      <div className="flex items-center mb-6">
+        <Lock className="h-6 w-6 text-yellow-400 mr-2" />
+        <h1 className="text-2xl font-bold text-white">Staff Sign In</h1>
+      </div>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <input
+          type="email"
+          value={email}
+          onChange={e => setEmail(e.target.value)}
+          className={inputClass}
+          placeholder="Email"
+          autoComplete="username"
+          required
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={e => setPassword(e.target.value)}
+          className={inputClass}
+          placeholder="Password"
+          autoComplete="current-password"
+          required
+        />
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        <button
+          type="submit"
+          disabled={isSigningIn}
+          className="w-full bg-gradient-to-r from-yellow-400 to-yellow-500 text-black py-3 px-6 rounded-lg font-semibold hover:from-yellow-300 hover:to-yellow-400 transition-all duration-200 disabled:opacity-50 flex items-center justify-center"
+        >
+          {isSigningIn ? <Loader2 className="h-5 w-5 animate-spin" /> : 'Sign In'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default StaffLogin;
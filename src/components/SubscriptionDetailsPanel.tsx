@@ -0,0 +1,203 @@
+import React, { useEffect, useState } from 'react';
+import { X, Loader2, Repeat, StopCircle, Play } from 'lucide-react';
+import type { MonthlySubscription, SubscriptionInstalment } from '../lib/supabase';
+import {
+  EARLY_TERMINATION_FEE_PERCENT,
+  SUBSCRIPTION_STATUS_STYLES,
+  fetchInstalments,
+  getRenewalDeadline,
+  isRenewalDue,
+  quoteEarlyTermination
+} from '../lib/subscriptions';
+
+interface SubscriptionDetailsPanelProps {
+  subscription: MonthlySubscription;
+  isUpdating: boolean;
+  onClose: () => void;
+  onActivate: (subscription: MonthlySubscription) => void;
+  onRenew: (subscription: MonthlySubscription) => void;
+  onTerminate: (subscription: MonthlySubscription, terminateOn: string) => void;
+}
+
+const inputClass = 'w-full p-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm focus:border-yellow-400 focus:ring-1 focus:ring-yellow-400 transition-colors';
+
+const INSTALMENT_STYLES: Record<SubscriptionInstalment['status'], string> = {
+  pending: 'text-yellow-300',
+  paid: 'text-green-400',
+  cancelled: 'text-gray-500 line-through'
+};
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const SubscriptionDetailsPanel: React.FC<SubscriptionDetailsPanelProps> = ({
+  subscription,
+  isUpdating,
+  onClose,
+  onActivate,
+  onRenew,
+  onTerminate
+}) => {
+  const [instalments, setInstalments] = useState<SubscriptionInstalment[]>([]);
+  const [showTerminate, setShowTerminate] = useState(false);
+  const [terminateOn, setTerminateOn] = useState(today());
+
+  // Reload when the subscription changes, so a renewal's instalment shows up straight away
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchInstalments(subscription.id)
+      .then((rows) => {
+        if (!cancelled) setInstalments(rows);
+      })
+      .catch((err) => console.error('Error loading instalments:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [subscription.id, subscription.updated_at]);
+
+  useEffect(() => {
+    setShowTerminate(false);
+    setTerminateOn(today());
+  }, [subscription.id]);
+
+  const isActive = subscription.status === 'active';
+  const renewalDue = isRenewalDue(subscription);
+  const quote = showTerminate ? quoteEarlyTermination(subscription, instalments, terminateOn) : null;
+
+  const rows: [string, React.ReactNode][] = [
+    ['Reference', <span key="reference" className="font-mono">{subscription.reference}</span>],
+    ['Customer', subscription.name],
+    ['Contact', <a key="contact" href={`tel:${subscription.contact}`} className="text-yellow-400 hover:text-yellow-300">{subscription.contact}</a>],
+    ['Vehicle', `${subscription.model} (${subscription.category})`],
+    ['Term', `${subscription.months} month${subscription.months > 1 ? 's' : ''}`],
+    ['Runs', `${formatDate(subscription.pickup_date)} to ${formatDate(subscription.return_date)}`],
+    ['Monthly rate', `₹${subscription.monthly_rate}`],
+    ['Total', `₹${subscription.total_price}`],
+    ['Auto-renew', subscription.auto_renew ? `Yes, unless cancelled by ${formatDate(getRenewalDeadline(subscription))}` : 'No']
+  ];
+  if (subscription.terminated_at) {
+    rows.push(['Ended early', `${formatDate(subscription.terminated_at)}, fee ₹${subscription.termination_fee}`]);
+  }
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-2xl p-6">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-white">{subscription.name}</h2>
+          <span className={`inline-block mt-2 px-2 py-1 text-xs font-medium rounded border ${SUBSCRIPTION_STATUS_STYLES[subscription.status]}`}>
+            {subscription.status}
+          </span>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-full transition-colors"
+          aria-label="Close details"
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <dl className="space-y-2 text-sm">
+        {rows.map(([label, value]) => (
+          <div key={label} className="flex justify-between gap-4">
+            <dt className="text-gray-400">{label}</dt>
+            <dd className="text-white text-right break-words">{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <div className="mt-4 pt-4 border-t border-gray-700 text-sm">
+        <h3 className="text-gray-300 font-medium mb-2">Instalments</h3>
+        {instalments.length === 0 && <p className="text-gray-400">No instalments recorded.</p>}
+        {instalments.map(instalment => (
+          <div key={instalment.id} className="flex justify-between gap-4 mb-1">
+            <span className="text-gray-300">#{instalment.instalment_number} · due {formatDate(instalment.due_date)}</span>
+            <span className={INSTALMENT_STYLES[instalment.status]}>₹{instalment.amount} {instalment.status}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-6 pt-4 border-t border-gray-700 space-y-3">
+        {renewalDue && (
+          <p className="text-sm text-yellow-300">
+            The opt-out deadline has passed, so this subscription is due to renew for another month.
+          </p>
+        )}
+        <div className="flex flex-wrap gap-2">
+          {subscription.status === 'pending' && (
+            <button
+              onClick={() => onActivate(subscription)}
+              disabled={isUpdating}
+              className="flex items-center px-4 py-2 rounded-lg text-sm font-semibold bg-yellow-400 text-black hover:bg-yellow-300 transition-colors disabled:opacity-50"
+            >
+              {isUpdating ? <Loader2 className="h-4 w-4 animate-spin" /> : <><Play className="h-4 w-4 mr-2" /> Start subscription</>}
+            </button>
+          )}
+          {isActive && subscription.auto_renew && (
+            <button
+              onClick={() => onRenew(subscription)}
+              disabled={isUpdating}
+              className="flex items-center px-4 py-2 rounded-lg text-sm font-semibold bg-yellow-400 text-black hover:bg-yellow-300 transition-colors disabled:opacity-50"
+            >
+              {isUpdating ? <Loader2 className="h-4 w-4 animate-spin" /> : <><Repeat className="h-4 w-4 mr-2" /> Renew for a month</>}
+            </button>
+          )}
+          {isActive && !showTerminate && (
+            <button
+              onClick={() => setShowTerminate(true)}
+              className="flex items-center px-4 py-2 rounded-lg text-sm font-semibold bg-red-600 text-white hover:bg-red-700 transition-colors"
+            >
+              <StopCircle className="h-4 w-4 mr-2" /> End early
+            </button>
+          )}
+        </div>
+        {!isActive && subscription.status !== 'pending' && (
+          <p className="text-sm text-gray-400">This subscription is {subscription.status}; no further changes are possible.</p>
+        )}
+
+        {isActive && showTerminate && quote && (
+          <div className="p-4 bg-gray-900/50 border border-gray-700 rounded-lg text-sm space-y-3">
+            <label className="block text-gray-400">
+              Vehicle returned on
+              <input
+                type="date"
+                value={terminateOn}
+                min={subscription.pickup_date}
+                max={subscription.return_date}
+                onChange={e => setTerminateOn(e.target.value || today())}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <p className="text-gray-300">
+              Paid through {formatDate(quote.lastDay)}.{' '}
+              {quote.cancelledInstalments.length > 0
+                ? <>{quote.cancelledInstalments.length} pending instalment{quote.cancelledInstalments.length > 1 ? 's' : ''} (₹{quote.cancelledInstalments.reduce((sum, instalment) => sum + instalment.amount, 0)}) will be cancelled, and the early-termination fee is ₹{quote.fee} ({EARLY_TERMINATION_FEE_PERCENT}% of one month).</>
+                : 'Nothing is left to cancel, so there is no fee.'}
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => onTerminate(subscription, terminateOn)}
+                disabled={isUpdating}
+                className="px-4 py-2 rounded-lg text-sm font-semibold bg-red-600 text-white hover:bg-red-700 transition-colors disabled:opacity-50"
+              >
+                {isUpdating ? <Loader2 className="h-4 w-4 animate-spin" /> : 'End subscription'}
+              </button>
+              <button
+                onClick={() => setShowTerminate(false)}
+                className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors text-sm"
+              >
+                Keep it
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SubscriptionDetailsPanel;
@@ -52,7 +52,7 @@ export default function SupabaseTest() {
         price_per_day: 100,
         days: 1,
         total_price: 100,
-        status: 'test'
+        status: 'cancelled' // Test rows must not hold a vehicle
       };
       
       console.log('Inserting test booking:', testBooking);
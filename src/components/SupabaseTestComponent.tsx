@@ -210,7 +210,7 @@ const SupabaseTestComponent = () => {
         days: 1,
         total_price: 100,
         rental_type: 'daily',
-        status: 'test'
+        status: 'cancelled' // Test rows must not hold a vehicle
       };
       
       console.log('Attempting to insert test record:', testRecord);
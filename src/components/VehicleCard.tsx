@@ -1,29 +1,34 @@
 import React from 'react';
-import { Fuel, Zap, Settings, Calendar } from 'lucide-react';
-
-interface Vehicle {
-  id: number;
-  name: string;
-  image: string;
-  price: string;
-  specs: {
-    engine: string;
-    power: string;
-    mileage: string;
-    type: string;
-  };
-}
+import { Fuel, Zap, Settings, Calendar, MessageCircle } from 'lucide-react';
+import { formatDailyRate, type Vehicle } from '../lib/catalog';
+import { formatAvailableFrom } from '../lib/availability';
+import { getVehicleBadges } from '../lib/pricing';
+import { getBookingWhatsAppUrl } from '../lib/whatsapp';
+import { useSiteConfig } from '../hooks/useSiteConfig';
+import type { VehicleAvailability } from '../hooks/useAvailability';
 
 interface VehicleCardProps {
   vehicle: Vehicle;
+  availability?: VehicleAvailability | null; // undefined while loading, null when it couldn't be checked
   onBookNow: (vehicle: Vehicle) => void;
 }
 
-const VehicleCard: React.FC<VehicleCardProps> = ({ vehicle, onBookNow }) => {
+const VehicleCard: React.FC<VehicleCardProps> = ({ vehicle, availability, onBookNow }) => {
+  const siteConfig = useSiteConfig();
+
   const handleBookNow = () => {
     onBookNow(vehicle);
   };
 
+  const availabilityLabel = availability === undefined
+    ? 'Checking...'
+    : availability === null || availability.availableFrom === null
+      ? 'On request'
+      : formatAvailableFrom(availability.availableFrom);
+  const isAvailableToday = availabilityLabel === 'Today';
+  const [promoBadge] = getVehicleBadges(vehicle);
+  const showUnitCount = isAvailableToday && !!availability && availability.totalUnits > 1;
+
   return (
     <div className="bg-gray-800 rounded-xl shadow-2xl overflow-hidden hover:shadow-yellow-400/20 transition-all duration-300 transform hover:-translate-y-2 border border-gray-700 hover:border-yellow-400/50">
       {/* Image */}
@@ -34,17 +39,17 @@ const VehicleCard: React.FC<VehicleCardProps> = ({ vehicle, onBookNow }) => {
           className="w-full h-full object-cover transition-transform duration-300 hover:scale-110"
         />
         <div className="absolute top-4 right-4 bg-gradient-to-r from-yellow-400 to-yellow-500 text-black px-3 py-1 rounded-full font-bold">
-          <span className="font-bold">{vehicle.price}</span>
+          <span className="font-bold">{formatDailyRate(vehicle.dailyRate)}</span>
         </div>
         <div className="absolute top-4 left-4 bg-black bg-opacity-50 text-white px-3 py-1 rounded-full text-sm">
           {vehicle.specs.type}
         </div>
         
-        {/* Discount Badge for Pulsar bikes */}
-        {vehicle.name.includes('Pulsar') && (
+        {/* Discount Badge from the pricing rules */}
+        {promoBadge && (
           <div className="absolute bottom-0 inset-x-0 bg-gradient-to-r from-red-600 to-yellow-600 py-1.5 px-3 text-center">
             <div className="animate-pulse text-white font-bold text-sm">
-              <span className="mr-1">🔥</span> 10% OFF on 24-hour bookings <span className="ml-1">🔥</span>
+              <span className="mr-1">🔥</span> {promoBadge.badge} <span className="ml-1">🔥</span>
             </div>
           </div>
         )}
@@ -84,7 +89,12 @@ const VehicleCard: React.FC<VehicleCardProps> = ({ vehicle, onBookNow }) => {
             <Calendar className="h-4 w-4 text-purple-400" />
             <div>
               <p className="text-xs text-gray-400">Available</p>
-              <p className="text-sm font-semibold text-green-600">Today</p>
+              <p className={`text-sm font-semibold ${isAvailableToday ? 'text-green-600' : 'text-orange-400'}`}>
+                {availabilityLabel}
+                {showUnitCount && (
+                  <span className="ml-1 text-xs font-normal text-gray-400">({availability.freeUnits} left)</span>
+                )}
+              </p>
             </div>
           </div>
         </div>
@@ -96,6 +106,15 @@ const VehicleCard: React.FC<VehicleCardProps> = ({ vehicle, onBookNow }) => {
         >
           Book Now
         </button>
+
+        <a
+          href={getBookingWhatsAppUrl(siteConfig, { model: vehicle.name, rate: formatDailyRate(vehicle.dailyRate) })}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="mt-3 w-full flex items-center justify-center py-2 px-6 rounded-lg text-sm font-semibold text-green-400 border border-green-600/50 hover:bg-green-600/10 transition-colors duration-200"
+        >
+          <MessageCircle className="h-4 w-4 mr-2" /> Ask on WhatsApp
+        </a>
       </div>
     </div>
   );
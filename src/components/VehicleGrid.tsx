@@ -1,18 +1,7 @@
 import React from 'react';
 import VehicleCard from './VehicleCard';
-
-interface Vehicle {
-  id: number;
-  name: string;
-  image: string;
-  price: string;
-  specs: {
-    engine: string;
-    power: string;
-    mileage: string;
-    type: string;
-  };
-}
+import type { Vehicle } from '../lib/catalog';
+import { useAvailability } from '../hooks/useAvailability';
 
 interface VehicleGridProps {
   vehicles: Vehicle[];
@@ -20,10 +9,17 @@ interface VehicleGridProps {
 }
 
 const VehicleGrid: React.FC<VehicleGridProps> = ({ vehicles, onBookNow }) => {
+  const availability = useAvailability(vehicles);
+
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8 pb-20">
       {vehicles.map((vehicle) => (
-        <VehicleCard key={vehicle.id} vehicle={vehicle} onBookNow={onBookNow} />
+        <VehicleCard
+          key={vehicle.id}
+          vehicle={vehicle}
+          availability={availability[vehicle.id]}
+          onBookNow={onBookNow}
+        />
       ))}
     </div>
   );
@@ -1,12 +1,12 @@
 import { MessageCircle } from 'lucide-react';
+import { useSiteConfig } from '../hooks/useSiteConfig';
+import { getWhatsAppUrl } from '../lib/siteConfig';
 
 const WhatsAppButton = () => {
-  const phoneNumber = '918827326825'; // Format: country code + phone number (no spaces or special characters)
-  const message = 'Hello, I would like to inquire about bike rentals.';
+  const config = useSiteConfig();
   
   const handleWhatsAppClick = () => {
-    const whatsappUrl = `https://wa.me/${phoneNumber}?text=${encodeURIComponent(message)}`;
-    window.open(whatsappUrl, '_blank');
+    window.open(getWhatsAppUrl(config), '_blank');
   };
 
   return (
@@ -17,7 +17,7 @@ const WhatsAppButton = () => {
     >
       <MessageCircle className="h-6 w-6" />
       <span className="absolute right-16 bg-white text-gray-800 px-4 py-2 rounded-lg shadow-md opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all duration-300 whitespace-nowrap font-medium">
-        Chat on WhatsApp: 8827326825
+        Chat on WhatsApp: {config.phone}
       </span>
     </button>
   );
@@ -0,0 +1,11 @@
+import { useContext } from 'react';
+import { AuthContext, type AuthState } from '../lib/auth';
+
+// Returns the signed-in session and staff record; must be used inside <AuthProvider>
+export const useAuth = (): AuthState => {
+  const auth = useContext(AuthContext);
+  if (!auth) {
+    throw new Error('useAuth must be used inside <AuthProvider>');
+  }
+  return auth;
+};
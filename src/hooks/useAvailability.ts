@@ -0,0 +1,62 @@
+import { useEffect, useState } from 'react';
+import { fetchBookedWindows, findFreeUnits, findNextFreeSlot } from '../lib/availability';
+import { fetchVehicleUnits, type VehicleUnit } from '../lib/supabase';
+import type { Vehicle } from '../lib/catalog';
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface VehicleAvailability {
+  availableFrom: Date | null; // null when every unit is booked with no gap in sight
+  freeUnits: number; // Units free for a one-day rental starting now
+  totalUnits: number;
+}
+
+/**
+ * Availability of each vehicle for a one-day rental, keyed by vehicle ID.
+ * A vehicle is `undefined` while loading and `null` when availability couldn't be checked.
+ */
+export const useAvailability = (vehicles: Vehicle[]) => {
+  const [availability, setAvailability] = useState<Record<string, VehicleAvailability | null>>({});
+  // A string, so a new array with the same vehicles doesn't trigger a refetch
+  const vehiclesKey = vehicles.map(vehicle => vehicle.id).join('|');
+
+  useEffect(() => {
+    let cancelled = false;
+    const vehicleIds = vehiclesKey ? vehiclesKey.split('|') : [];
+    const now = new Date();
+    const tomorrow = new Date(now.getTime() + ONE_DAY_MS);
+
+    // Missing units fall back to treating each model as a single unit
+    const unitsRequest = fetchVehicleUnits(vehicleIds).catch((error) => {
+      console.warn('Could not load vehicle units:', error);
+      return [] as VehicleUnit[];
+    });
+
+    Promise.all([fetchBookedWindows(vehicleIds, now), unitsRequest])
+      .then(([windows, units]) => {
+        if (cancelled) return;
+        const next: Record<string, VehicleAvailability | null> = {};
+        vehicleIds.forEach((vehicleId) => {
+          const vehicleWindows = windows.get(vehicleId) || [];
+          const vehicleUnits = units.filter(unit => unit.vehicle_id === vehicleId);
+          next[vehicleId] = {
+            availableFrom: findNextFreeSlot(vehicleWindows, vehicleUnits, ONE_DAY_MS, now),
+            freeUnits: findFreeUnits(vehicleWindows, vehicleUnits, now, tomorrow).length,
+            totalUnits: Math.max(vehicleUnits.length, 1)
+          };
+        });
+        setAvailability(next);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.warn('Could not check vehicle availability:', error);
+        setAvailability(Object.fromEntries(vehicleIds.map(vehicleId => [vehicleId, null])));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [vehiclesKey]);
+
+  return availability;
+};
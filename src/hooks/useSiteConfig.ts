@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import { DEFAULT_SITE_CONFIG, loadSiteConfig, type SiteConfig } from '../lib/siteConfig';
+
+/**
+ * Returns the site config. Starts with the env defaults and swaps in the
+ * Supabase `settings` rows once they load.
+ */
+export const useSiteConfig = (): SiteConfig => {
+  const [config, setConfig] = useState<SiteConfig>(DEFAULT_SITE_CONFIG);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadSiteConfig().then((loaded) => {
+      if (!cancelled) setConfig(loaded);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return config;
+};
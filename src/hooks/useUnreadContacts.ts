@@ -0,0 +1,11 @@
+import { useEffect, useState } from 'react';
+import { subscribeToUnreadContacts } from '../lib/contacts';
+
+// Number of contact messages still marked 'new'; kept current while mounted
+export const useUnreadContacts = (): number => {
+  const [count, setCount] = useState(0);
+
+  useEffect(() => subscribeToUnreadContacts(setCount), []);
+
+  return count;
+};
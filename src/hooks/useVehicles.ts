@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import { VEHICLES, getVehiclesByCategory, type Vehicle, type VehicleCategory } from '../lib/catalog';
+import { fetchVehicles } from '../lib/supabase';
+
+// Shared across pages so navigating between categories doesn't refetch the fleet
+let fleetRequest: Promise<Vehicle[]> | null = null;
+
+const loadFleet = (): Promise<Vehicle[]> => {
+  if (!fleetRequest) {
+    fleetRequest = fetchVehicles().catch((error) => {
+      console.warn('Using bundled vehicle catalog:', error);
+      fleetRequest = null; // Allow a retry on the next mount
+      return [];
+    });
+  }
+  return fleetRequest;
+};
+
+/**
+ * Returns the fleet (optionally for one category). Starts with the bundled
+ * catalog and swaps in the Supabase `vehicles` rows once they load; an empty
+ * or failed fetch keeps the bundled copy.
+ */
+export const useVehicles = (category?: VehicleCategory) => {
+  const [fleet, setFleet] = useState<Vehicle[]>(VEHICLES);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadFleet().then((vehicles) => {
+      if (cancelled) return;
+      if (vehicles.length > 0) {
+        setFleet(vehicles);
+      }
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return {
+    vehicles: category ? getVehiclesByCategory(category, fleet) : fleet,
+    isLoading
+  };
+};
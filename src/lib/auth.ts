@@ -0,0 +1,96 @@
+import { createContext } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { supabase, type Customer, type StaffMember, type StaffRole } from './supabase';
+
+export interface AuthState {
+  session: Session | null;
+  staff: StaffMember | null; // null when signed out or the user isn't on the staff list
+  customer: Customer | null; // null until a signed-in customer saves their details
+  isLoading: boolean;
+  signIn: (email: string, password: string) => Promise<void>;
+  signOut: () => Promise<void>;
+  refreshCustomer: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthState | null>(null);
+
+export const STAFF_ROLE_LABELS: Record<StaffRole, string> = {
+  owner: 'Owner',
+  counter: 'Counter staff'
+};
+
+// Function to load the staff record for a signed-in user; null if they aren't staff
+export const fetchStaffMember = async (userId: string): Promise<StaffMember | null> => {
+  const { data, error } = await supabase
+    .from('staff')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching staff record:', error);
+    throw new Error(`Failed to load staff record: ${error.message}`);
+  }
+
+  return data as StaffMember | null;
+};
+
+// Function to load every staff member, for assigning work and naming note authors
+export const fetchStaffMembers = async (): Promise<StaffMember[]> => {
+  const { data, error } = await supabase
+    .from('staff')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load staff: ${error.message}`);
+  }
+
+  return data as StaffMember[];
+};
+
+// Staff sign in with a Supabase Auth email and password
+export const signInStaff = async (email: string, password: string): Promise<void> => {
+  const { error } = await supabase.auth.signInWithPassword({ email: email.trim(), password });
+  if (error) {
+    throw new Error(error.message);
+  }
+};
+
+// Supabase wants phone numbers in E.164; a bare 10-digit number is taken as Indian
+export const toE164Phone = (phone: string): string => {
+  const digits = phone.replace(/[^\d+]/g, '');
+  return /^[6-9]\d{9}$/.test(digits) ? `+91${digits}` : digits;
+};
+
+// Customers sign in without a password: a code by SMS, or a link by email
+export const sendCustomerSignInCode = async (identifier: { phone: string } | { email: string }): Promise<void> => {
+  const { error } = 'phone' in identifier
+    ? await supabase.auth.signInWithOtp({ phone: toE164Phone(identifier.phone) })
+    : await supabase.auth.signInWithOtp({
+        email: identifier.email.trim(),
+        // Bring them back to the page they signed in from
+        options: { emailRedirectTo: window.location.href }
+      });
+
+  if (error) {
+    throw new Error(`Failed to send sign-in ${'phone' in identifier ? 'code' : 'link'}: ${error.message}`);
+  }
+};
+
+export const verifyCustomerPhoneCode = async (phone: string, code: string): Promise<void> => {
+  const { error } = await supabase.auth.verifyOtp({ phone: toE164Phone(phone), token: code.trim(), type: 'sms' });
+  if (error) {
+    throw new Error(error.message);
+  }
+};
+
+export const signOut = async (): Promise<void> => {
+  const { error } = await supabase.auth.signOut();
+  if (error) {
+    throw new Error(`Failed to sign out: ${error.message}`);
+  }
+};
+
+export const hasRole = (staff: StaffMember | null, roles?: StaffRole[]): boolean =>
+  !!staff && (!roles || roles.includes(staff.role));
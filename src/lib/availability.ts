@@ -0,0 +1,203 @@
+import { supabase, fetchVehicleUnits, type VehicleUnit } from './supabase';
+import type { Vehicle } from './catalog';
+
+// Statuses that no longer hold the vehicle
+const RELEASED_STATUSES = ['cancelled', 'completed', 'terminated', 'test'];
+
+// Subscriptions only store dates, so assume the modal's default hand-over times
+const DEFAULT_PICKUP_TIME = '09:00';
+const DEFAULT_RETURN_TIME = '18:00';
+
+export interface BookingWindow {
+  start: Date;
+  end: Date;
+  unitId: string | null; // null for bookings made before units were tracked
+  source: 'bookings' | 'monthly_subscriptions';
+}
+
+export interface AvailabilityResult {
+  available: boolean;
+  conflicts: BookingWindow[];
+  totalUnits: number;
+  freeUnits: number;
+  unit: VehicleUnit | null; // Unit to assign; null when the model has no units on record
+  nextFreeSlot: Date | null; // Earliest start that fits the requested duration
+}
+
+interface WindowRow {
+  source: BookingWindow['source'];
+  vehicle_id: string;
+  unit_id?: string | null;
+  status: string | null;
+  pickup_date: string | null;
+  return_date: string | null;
+  pickup_time?: string | null;
+  return_time?: string | null;
+}
+
+export const toDateTime = (date: string, time?: string | null): Date =>
+  new Date(`${date}T${(time || '00:00').slice(0, 5)}`);
+
+export const overlaps = (a: { start: Date; end: Date }, b: { start: Date; end: Date }): boolean =>
+  a.start < b.end && b.start < a.end;
+
+const windowFromRow = (row: WindowRow, source: BookingWindow['source']): BookingWindow | null => {
+  // Older rows were saved without dates; they can't block a slot
+  if (!row.pickup_date || !row.return_date) return null;
+
+  return {
+    start: toDateTime(row.pickup_date, row.pickup_time || DEFAULT_PICKUP_TIME),
+    end: toDateTime(row.return_date, row.return_time || DEFAULT_RETURN_TIME),
+    unitId: row.unit_id || null,
+    source
+  };
+};
+
+const isHolding = (row: WindowRow) => !RELEASED_STATUSES.includes((row.status || '').toLowerCase());
+
+/**
+ * Loads every booking window that still holds one of the given vehicles, keyed by vehicle ID.
+ * Windows that ended before `from` are dropped.
+ */
+export const fetchBookedWindows = async (vehicleIds: string[], from: Date = new Date()): Promise<Map<string, BookingWindow[]>> => {
+  const windows = new Map<string, BookingWindow[]>(vehicleIds.map(vehicleId => [vehicleId, []]));
+  if (vehicleIds.length === 0) return windows;
+
+  const fromDate = from.toISOString().split('T')[0];
+
+  // Customers can't read the booking tables directly; this returns dates and units only
+  const { data, error } = await supabase.rpc('get_booked_windows', { p_vehicle_ids: vehicleIds, p_from: fromDate });
+
+  if (error) {
+    throw new Error(`Failed to load booked dates: ${error.message}`);
+  }
+
+  (data as WindowRow[]).filter(isHolding).forEach((row) => {
+    const window = windowFromRow(row, row.source);
+    if (window && window.end > from) {
+      windows.get(row.vehicle_id)?.push(window);
+    }
+  });
+
+  windows.forEach(list => list.sort((a, b) => a.start.getTime() - b.start.getTime()));
+  return windows;
+};
+
+/**
+ * Units with no booking overlapping `start`–`end`. Legacy bookings without a unit
+ * each take one of the remaining units. A model with no units on record counts as
+ * a single unit, returned as `null`.
+ */
+export const findFreeUnits = (
+  windows: BookingWindow[],
+  units: VehicleUnit[],
+  start: Date,
+  end: Date
+): (VehicleUnit | null)[] => {
+  const requested = { start, end };
+  const overlapping = windows.filter(window => overlaps(requested, window));
+  const pool: (VehicleUnit | null)[] = units.length > 0 ? units : [null];
+
+  const busyUnitIds = new Set(overlapping.map(window => window.unitId).filter(Boolean));
+  const unassigned = overlapping.filter(window => !window.unitId).length;
+
+  const free = pool.filter(unit => !unit || !busyUnitIds.has(unit.id));
+  return free.slice(0, Math.max(0, free.length - unassigned));
+};
+
+/**
+ * Earliest start at or after `from` where at least one unit is free for `durationMs`.
+ * Only booking end times can free a unit, so those are the only candidates to try.
+ */
+export const findNextFreeSlot = (
+  windows: BookingWindow[],
+  units: VehicleUnit[],
+  durationMs: number,
+  from: Date
+): Date | null => {
+  const candidates = [from, ...windows.map(window => window.end).filter(end => end > from)]
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  for (const candidate of candidates) {
+    const end = new Date(candidate.getTime() + durationMs);
+    if (findFreeUnits(windows, units, candidate, end).length > 0) {
+      return new Date(candidate);
+    }
+  }
+
+  return null;
+};
+
+// Checks a requested pickup/return against the vehicle's units and existing bookings
+export const checkAvailability = async (vehicle: Vehicle, start: Date, end: Date): Promise<AvailabilityResult> => {
+  const [windowsByVehicle, units] = await Promise.all([
+    fetchBookedWindows([vehicle.id], start),
+    // Without a units table the model still counts as one unit
+    fetchVehicleUnits([vehicle.id]).catch((error) => {
+      console.warn('Could not load vehicle units:', error);
+      return [] as VehicleUnit[];
+    })
+  ]);
+  const windows = windowsByVehicle.get(vehicle.id) || [];
+  const requested = { start, end };
+  const conflicts = windows.filter(window => overlaps(requested, window));
+  const freeUnits = findFreeUnits(windows, units, start, end);
+  const totalUnits = Math.max(units.length, 1);
+
+  if (freeUnits.length > 0) {
+    return { available: true, conflicts, totalUnits, freeUnits: freeUnits.length, unit: freeUnits[0], nextFreeSlot: null };
+  }
+
+  return {
+    available: false,
+    conflicts,
+    totalUnits,
+    freeUnits: 0,
+    unit: null,
+    nextFreeSlot: findNextFreeSlot(windows, units, end.getTime() - start.getTime(), start)
+  };
+};
+
+/**
+ * Checks whether a booking can run on from its current return to `end`. A booking
+ * already on a unit keeps that unit, so that unit must stay free; one without a
+ * unit only needs any unit of the model.
+ */
+export const checkExtensionAvailability = async (
+  vehicle: Vehicle,
+  unitId: string | null,
+  start: Date,
+  end: Date
+): Promise<Pick<AvailabilityResult, 'available' | 'conflicts'>> => {
+  const [windowsByVehicle, units] = await Promise.all([
+    fetchBookedWindows([vehicle.id], start),
+    fetchVehicleUnits([vehicle.id]).catch((error) => {
+      console.warn('Could not load vehicle units:', error);
+      return [] as VehicleUnit[];
+    })
+  ]);
+  const windows = windowsByVehicle.get(vehicle.id) || [];
+  const conflicts = windows.filter(window => overlaps({ start, end }, window));
+  const freeUnits = findFreeUnits(windows, units, start, end);
+  const keepsUnit = !!unitId && units.some(unit => unit.id === unitId);
+  const available = freeUnits.length > 0 && (!keepsUnit || !conflicts.some(window => window.unitId === unitId));
+
+  return { available, conflicts };
+};
+
+// Formats a free-from time for badges: "Today", "Tomorrow" or "Mon, 3 Feb"
+export const formatAvailableFrom = (date: Date, now: Date = new Date()): string => {
+  const startOfDay = (value: Date) => new Date(value.getFullYear(), value.getMonth(), value.getDate()).getTime();
+  const dayDiff = Math.round((startOfDay(date) - startOfDay(now)) / (1000 * 60 * 60 * 24));
+
+  if (dayDiff <= 0) return 'Today';
+  if (dayDiff === 1) return 'Tomorrow';
+  return date.toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short' });
+};
+
+// Local-time values for <input type="date"> and <input type="time">
+export const toDateInputValue = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const toTimeInputValue = (date: Date): string =>
+  `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
@@ -0,0 +1,153 @@
+import { supabase } from './supabase';
+import type { RentalType } from './pricing';
+
+// Crockford base32: no I, L, O or U, so references survive being read over the phone
+const REFERENCE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const REFERENCE_PREFIX = 'RR-';
+const REFERENCE_LENGTH = 8;
+
+// A booking as the customer sees it after looking it up by reference
+export interface BookingLookup {
+  source: 'bookings' | 'monthly_subscriptions';
+  id: string;
+  reference: string;
+  name: string;
+  model: string;
+  category: string;
+  vehicleId: string | null;
+  unitId: string | null;
+  rentalType: RentalType;
+  status: string;
+  pickupDate: string | null;
+  returnDate: string | null;
+  pickupTime: string | null;
+  returnTime: string | null;
+  totalPrice: number;
+  createdAt: string;
+  cancelDeadline: string | null; // Online cancellation closes at this time
+  canCancel: boolean;
+  canRequestChange: boolean;
+  canExtend: boolean; // Bookings only; subscriptions renew instead
+}
+
+interface LookupRow {
+  source: BookingLookup['source'];
+  id: string;
+  reference: string;
+  name: string;
+  model: string;
+  category: string;
+  vehicle_id: string | null;
+  unit_id: string | null;
+  rental_type: RentalType;
+  status: string;
+  pickup_date: string | null;
+  return_date: string | null;
+  pickup_time: string | null;
+  return_time: string | null;
+  total_price: number | string;
+  created_at: string;
+  cancel_deadline: string | null;
+  can_cancel: boolean;
+  can_request_change: boolean;
+  can_extend: boolean;
+}
+
+/**
+ * The customer-facing reference for a submission. It's derived from the
+ * idempotency key, so every sink and every outbox retry carries the same one.
+ */
+export const toBookingReference = (idempotencyKey: string): string => {
+  const bits = idempotencyKey
+    .replace(/[^0-9a-f]/gi, '')
+    .slice(0, REFERENCE_LENGTH * 5 / 4)
+    .split('')
+    .map(hex => parseInt(hex, 16).toString(2).padStart(4, '0'))
+    .join('');
+
+  let reference = '';
+  for (let index = 0; index < REFERENCE_LENGTH; index++) {
+    reference += REFERENCE_ALPHABET[parseInt(bits.slice(index * 5, index * 5 + 5), 2)];
+  }
+  return REFERENCE_PREFIX + reference;
+};
+
+// Accepts "rr 7k3m9qxd" or "7K3M9QXD" as well as "RR-7K3M9QXD", and reads O as 0 and I or L as 1
+export const normalizeBookingReference = (input: string): string => {
+  let code = input.toUpperCase().replace(/[^0-9A-Z]/g, '');
+  if (code.length > REFERENCE_LENGTH && code.startsWith('RR')) {
+    code = code.slice(2);
+  }
+  return REFERENCE_PREFIX + code.replace(/O/g, '0').replace(/[IL]/g, '1');
+};
+
+const fromLookupRow = (row: LookupRow): BookingLookup => ({
+  source: row.source,
+  id: row.id,
+  reference: row.reference,
+  name: row.name,
+  model: row.model,
+  category: row.category,
+  vehicleId: row.vehicle_id,
+  unitId: row.unit_id,
+  rentalType: row.rental_type,
+  status: row.status,
+  pickupDate: row.pickup_date,
+  returnDate: row.return_date,
+  pickupTime: row.pickup_time,
+  returnTime: row.return_time,
+  totalPrice: Number(row.total_price),
+  createdAt: row.created_at,
+  cancelDeadline: row.cancel_deadline,
+  canCancel: row.can_cancel,
+  canRequestChange: row.can_request_change,
+  canExtend: row.can_extend
+});
+
+// Function to find a booking by reference; null unless the contact number matches it
+export const lookupBooking = async (reference: string, contact: string): Promise<BookingLookup | null> => {
+  const { data, error } = await supabase.rpc('lookup_booking', {
+    p_reference: normalizeBookingReference(reference),
+    p_contact: contact
+  });
+
+  if (error) {
+    console.error('Error looking up booking:', error);
+    throw new Error(`Failed to look up booking: ${error.message}`);
+  }
+
+  const [row] = (data || []) as LookupRow[];
+  return row ? fromLookupRow(row) : null;
+};
+
+// Function to cancel a booking; the database refuses once the cancellation window has closed
+export const cancelBookingByReference = async (reference: string, contact: string, reason?: string): Promise<void> => {
+  const { error } = await supabase.rpc('cancel_booking_by_reference', {
+    p_reference: normalizeBookingReference(reference),
+    p_contact: contact,
+    p_reason: reason || null
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+};
+
+// Function to ask staff for new dates; nothing changes until they approve it
+export const requestBookingDateChange = async (
+  reference: string,
+  contact: string,
+  change: { pickupDate: string; returnDate: string; note?: string }
+): Promise<void> => {
+  const { error } = await supabase.rpc('request_booking_date_change', {
+    p_reference: normalizeBookingReference(reference),
+    p_contact: contact,
+    p_pickup_date: change.pickupDate,
+    p_return_date: change.returnDate,
+    p_note: change.note || null
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+};
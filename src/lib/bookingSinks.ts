@@ -0,0 +1,216 @@
+import { supabase, DatabaseError, isDuplicateKeyError, isPermanentDatabaseError, type BookingInsert } from './supabase';
+import { createMonthlySubscription } from './subscriptions';
+import { enqueueSubmission, type OutboxSubmission } from './outbox';
+import { loadSiteConfig } from './siteConfig';
+import { notifyBookingCreated } from './notifications';
+
+export type BookingSubmission = Exclude<OutboxSubmission, { kind: 'contact' }> & {
+  idempotencyKey: string; // Same key on every sink, so a booking that reaches more than one is still one booking
+};
+
+export type SinkResult =
+  | { status: 'success' }
+  | { status: 'retryable'; error: string } // Worth trying the next sink, or this one again later
+  | { status: 'permanent'; error: string }; // The submission itself was refused; no sink will do better
+
+export interface BookingSink {
+  name: string;
+  // Success only means the booking is stored somewhere to be sent later, not that we have it
+  deferred?: boolean;
+  accepts?: (submission: BookingSubmission) => boolean;
+  submit: (submission: BookingSubmission) => Promise<SinkResult>;
+}
+
+export interface SinkAttempt {
+  sink: string;
+  result: SinkResult;
+}
+
+export type PipelineOutcome = 'confirmed' | 'queued' | 'rejected' | 'failed';
+
+export interface PipelineResult {
+  outcome: PipelineOutcome;
+  sink: string | null; // The sink that took the booking, or refused it for good
+  attempts: SinkAttempt[];
+}
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+export const supabaseSink: BookingSink = {
+  name: 'supabase',
+  submit: async (submission) => {
+    if (!import.meta.env.VITE_SUPABASE_URL || !import.meta.env.VITE_SUPABASE_ANON_KEY) {
+      return { status: 'retryable', error: 'Missing Supabase environment variables. Check your .env file.' };
+    }
+
+    if (submission.kind === 'subscription') {
+      try {
+        const subscriptionId = await createMonthlySubscription({ ...submission.payload, idempotency_key: submission.idempotencyKey });
+        console.log('✅ Monthly subscription saved successfully to Supabase:', subscriptionId);
+        notifyBookingCreated(submission);
+        return { status: 'success' };
+      } catch (error) {
+        console.error('Error submitting monthly subscription to Supabase:', error);
+        const permanent = error instanceof DatabaseError && isPermanentDatabaseError(error.code);
+        return { status: permanent ? 'permanent' : 'retryable', error: errorMessage(error) };
+      }
+    }
+
+    const payload: BookingInsert = {
+      ...submission.payload,
+      status: submission.payload.status || 'pending',
+      rental_type: submission.payload.rental_type || 'daily',
+      idempotency_key: submission.idempotencyKey
+    };
+
+    console.log('Submitting booking payload:', payload);
+
+    // A repeat of a booking that already went through hits the idempotency key and counts as saved
+    const { error } = await supabase
+      .from('bookings')
+      .insert([payload]);
+
+    if (error && !isDuplicateKeyError(error, ['bookings_idempotency_key_key'])) {
+      console.error('❌ Supabase insertion error details:');
+      console.error('Error code:', error.code);
+      console.error('Error message:', error.message);
+      console.error('Error details:', error.details);
+      console.error('Error hint:', error.hint);
+      return {
+        status: isPermanentDatabaseError(error.code) ? 'permanent' : 'retryable',
+        error: `${error.message} (${error.code})`
+      };
+    }
+
+    console.log('✅ Booking saved successfully to Supabase:', submission.idempotencyKey);
+    notifyBookingCreated(submission);
+    return { status: 'success' };
+  }
+};
+
+// The script only receives bookings; subscriptions need their instalment schedule, which only Supabase keeps
+export const googleScriptSink: BookingSink = {
+  name: 'google-script',
+  accepts: submission => submission.kind === 'booking',
+  submit: async (submission) => {
+    if (submission.kind !== 'booking') {
+      return { status: 'permanent', error: 'The Google Script only accepts bookings' };
+    }
+
+    const { googleScriptUrl } = await loadSiteConfig();
+    if (!googleScriptUrl) {
+      return { status: 'retryable', error: 'No Google Script URL configured' };
+    }
+
+    const { payload } = submission;
+    try {
+      // no-cors hides the response, so reaching the script is the best we can confirm
+      await fetch(googleScriptUrl, {
+        method: 'POST',
+        mode: 'no-cors',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: payload.name,
+          contact: payload.contact,
+          address: payload.address,
+          category: payload.category,
+          model: payload.model,
+          pricePerDay: payload.price_per_day,
+          days: payload.days,
+          hours: payload.hours,
+          weeks: payload.weeks,
+          bookingType: payload.rental_type || 'daily',
+          totalPrice: payload.total_price,
+          pickupDate: payload.pickup_date,
+          returnDate: payload.return_date,
+          idempotencyKey: submission.idempotencyKey,
+          reference: payload.reference,
+          timestamp: new Date().toISOString()
+        })
+      });
+      return { status: 'success' };
+    } catch (error) {
+      console.error('Error submitting to Google Form:', error);
+      return { status: 'retryable', error: errorMessage(error) };
+    }
+  }
+};
+
+// Last resort: park the booking in the browser outbox, which keeps retrying Supabase
+export const outboxSink: BookingSink = {
+  name: 'outbox',
+  deferred: true,
+  submit: async ({ idempotencyKey, ...submission }) => {
+    try {
+      await enqueueSubmission(submission as OutboxSubmission, idempotencyKey);
+      return { status: 'success' };
+    } catch (error) {
+      console.error('Failed to queue booking in the outbox:', error);
+      return { status: 'retryable', error: errorMessage(error) };
+    }
+  }
+};
+
+export const BOOKING_SINKS: Record<string, BookingSink> = {
+  [supabaseSink.name]: supabaseSink,
+  [googleScriptSink.name]: googleScriptSink,
+  [outboxSink.name]: outboxSink
+};
+
+export const DEFAULT_SINK_ORDER = ['supabase', 'google-script', 'outbox'];
+
+/**
+ * Sinks in the order set by VITE_BOOKING_SINKS (comma-separated names),
+ * falling back to the default order. Unknown names are skipped.
+ */
+export const getConfiguredSinks = (order: string = import.meta.env.VITE_BOOKING_SINKS || ''): BookingSink[] => {
+  const names = order.split(',').map(name => name.trim()).filter(Boolean);
+  const sinks = names
+    .map((name) => {
+      const sink = BOOKING_SINKS[name];
+      if (!sink) console.warn(`Unknown booking sink "${name}" in VITE_BOOKING_SINKS, skipping it`);
+      return sink;
+    })
+    .filter((sink): sink is BookingSink => !!sink);
+
+  return sinks.length > 0 ? sinks : DEFAULT_SINK_ORDER.map(name => BOOKING_SINKS[name]);
+};
+
+/**
+ * Offers the submission to each sink in turn until one takes it. A retryable
+ * failure moves on to the next sink; a permanent one stops the pipeline, since
+ * the booking itself was refused.
+ */
+export const runBookingPipeline = async (
+  submission: BookingSubmission,
+  sinks: BookingSink[] = getConfiguredSinks()
+): Promise<PipelineResult> => {
+  const attempts: SinkAttempt[] = [];
+
+  for (const sink of sinks) {
+    if (sink.accepts && !sink.accepts(submission)) continue;
+
+    console.log(`Submitting ${submission.kind} via ${sink.name}...`);
+    let result: SinkResult;
+    try {
+      result = await sink.submit(submission);
+    } catch (error) {
+      // Sinks are expected to report failures, but a throw shouldn't lose the booking
+      result = { status: 'retryable', error: errorMessage(error) };
+    }
+    attempts.push({ sink: sink.name, result });
+
+    if (result.status === 'success') {
+      return { outcome: sink.deferred ? 'queued' : 'confirmed', sink: sink.name, attempts };
+    }
+
+    console.log(`❌ ${sink.name} failed (${result.status}): ${result.error}`);
+    if (result.status === 'permanent') {
+      return { outcome: 'rejected', sink: sink.name, attempts };
+    }
+  }
+
+  return { outcome: 'failed', sink: null, attempts };
+};
@@ -0,0 +1,59 @@
+import { supabase, isBookingStatus, type Booking, type BookingRentalType, type BookingStatus } from './supabase';
+
+// Badge colours for the admin list
+const STATUS_STYLES: Record<BookingStatus, string> = {
+  pending: 'bg-yellow-900/40 text-yellow-300 border-yellow-700',
+  confirmed: 'bg-blue-900/40 text-blue-300 border-blue-700',
+  ongoing: 'bg-purple-900/40 text-purple-300 border-purple-700',
+  completed: 'bg-green-900/40 text-green-300 border-green-700',
+  cancelled: 'bg-red-900/40 text-red-300 border-red-700'
+};
+
+// The admin list is capped; narrow the filters to see older bookings
+export const BOOKING_LIST_LIMIT = 200;
+
+export interface BookingFilters {
+  status?: BookingStatus;
+  rentalType?: BookingRentalType;
+  category?: string;
+  model?: string;
+  from?: string; // YYYY-MM-DD, compared against the pickup date
+  to?: string;
+  search?: string; // Matches name, contact or booking reference
+}
+
+export const getStatusStyle = (status: string): string =>
+  isBookingStatus(status) ? STATUS_STYLES[status] : 'bg-gray-700 text-gray-300 border-gray-600';
+
+// PostgREST filter strings treat commas and parentheses as syntax
+export const sanitizeSearch = (search: string): string => search.replace(/[,()%*\\]/g, ' ').trim();
+
+// Function to fetch bookings for the admin list, newest first
+export const fetchBookings = async (filters: BookingFilters = {}): Promise<Booking[]> => {
+  let query = supabase
+    .from('bookings')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(BOOKING_LIST_LIMIT);
+
+  if (filters.status) query = query.eq('status', filters.status);
+  if (filters.rentalType) query = query.eq('rental_type', filters.rentalType);
+  if (filters.category) query = query.eq('category', filters.category);
+  if (filters.model) query = query.eq('model', filters.model);
+  if (filters.from) query = query.gte('pickup_date', filters.from);
+  if (filters.to) query = query.lte('pickup_date', filters.to);
+
+  const search = sanitizeSearch(filters.search || '');
+  if (search) {
+    query = query.or(`name.ilike.%${search}%,contact.ilike.%${search}%,reference.ilike.%${search}%`);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching bookings from Supabase:', error);
+    throw new Error(`Failed to load bookings: ${error.message}`);
+  }
+
+  return data as Booking[];
+};
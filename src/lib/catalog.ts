@@ -0,0 +1,237 @@
+import royalEnfieldImg from '../img/royal350.avif';
+import pulsar150Img from '../img/pulsar150.avif';
+import pulsar125Img from '../img/pulsar-125-left-front-three-quarter.avif';
+import apacheImg from '../img/apache-160-right-side-view.avif';
+import tvsRaiderImg from '../img/tvs-raider.avif';
+import shineImg from '../img/sp1256789e3e35c30f.avif';
+import platinaImg from '../img/platina-110-right-front-three-quarter-8.avif';
+import splendorImg from '../img/hero-motocorp-splendor68541139c73c8.avif';
+import passionImg from '../img/passion-plus-left-front-three-quarter-2.avif';
+import hfDeluxeImg from '../img/hf-deluxe-right-front-three-quarter.avif';
+import activaImg from '../img/activa-6g-right-front-three-quarter-3.avif';
+import zestImg from '../img/tvs-scooty-zest66bb1c222451f.avif';
+
+// Category names are stored as-is in bookings.category, so keep them stable
+export type VehicleCategory = 'Sports Bike' | 'Normal Bike' | 'Scooty';
+
+export interface VehicleSpecs {
+  engine: string;
+  power: string;
+  mileage: string;
+  type: string;
+}
+
+export interface Vehicle {
+  id: string; // Stable identifier, never reuse an ID for a different model
+  slug: string;
+  name: string;
+  category: VehicleCategory;
+  image: string;
+  dailyRate: number; // Rupees per day
+  hourlyRate: number; // Rupees per hour for short rentals
+  minHours: number; // Shortest hourly rental allowed
+  monthlyRate: number; // Rupees per month for subscription rentals
+  specs: VehicleSpecs;
+}
+
+export interface CategoryInfo {
+  category: VehicleCategory;
+  path: string;
+  description: string;
+  buttonText: string;
+  image: string;
+}
+
+export const CATEGORIES: CategoryInfo[] = [
+  {
+    category: 'Sports Bike',
+    path: '/sports-bikes',
+    description: 'High-performance bikes for thrill seekers',
+    buttonText: 'View Sports Bikes',
+    image: pulsar150Img
+  },
+  {
+    category: 'Normal Bike',
+    path: '/normal-bikes',
+    description: 'Comfortable rides for daily commuting',
+    buttonText: 'View Normal Bikes',
+    image: shineImg
+  },
+  {
+    category: 'Scooty',
+    path: '/scooties',
+    description: 'Easy and convenient city transportation',
+    buttonText: 'View Scooties',
+    image: activaImg
+  }
+];
+
+// The full fleet. Adding or repricing a bike only requires editing this list.
+export const VEHICLES: Vehicle[] = [
+  // Sports bikes
+  {
+    id: 'sb-royal-enfield-bullet',
+    slug: 'royal-enfield-bullet',
+    name: 'Royal Enfield Bullet',
+    category: 'Sports Bike',
+    image: royalEnfieldImg,
+    dailyRate: 900,
+    hourlyRate: 150,
+    minHours: 2,
+    monthlyRate: 15000,
+    specs: { engine: '350cc', power: '18.6 HP', mileage: '40 kmpl', type: 'Sports' }
+  },
+  {
+    id: 'sb-bajaj-pulsar-150',
+    slug: 'bajaj-pulsar-150',
+    name: 'Bajaj Pulsar 150',
+    category: 'Sports Bike',
+    image: pulsar150Img,
+    dailyRate: 550,
+    hourlyRate: 90,
+    minHours: 2,
+    monthlyRate: 9000,
+    specs: { engine: '150cc', power: '25 HP', mileage: '35 kmpl', type: 'Sports' }
+  },
+  {
+    id: 'sb-bajaj-pulsar-125',
+    slug: 'bajaj-pulsar-125',
+    name: 'Bajaj Pulsar 125',
+    category: 'Sports Bike',
+    image: pulsar125Img,
+    dailyRate: 550,
+    hourlyRate: 90,
+    minHours: 2,
+    monthlyRate: 9000,
+    specs: { engine: '125cc', power: '17.1 HP', mileage: '42 kmpl', type: 'Sports' }
+  },
+  {
+    id: 'sb-tvs-apache-rtr-160',
+    slug: 'tvs-apache-rtr-160',
+    name: 'TVS Apache RTR 160',
+    category: 'Sports Bike',
+    image: apacheImg,
+    dailyRate: 600,
+    hourlyRate: 100,
+    minHours: 2,
+    monthlyRate: 10000,
+    specs: { engine: '160cc', power: '24.5 HP', mileage: '38 kmpl', type: 'Sports' }
+  },
+  {
+    id: 'sb-tvs-raider',
+    slug: 'tvs-raider',
+    name: 'TVS Raider',
+    category: 'Sports Bike',
+    image: tvsRaiderImg,
+    dailyRate: 600,
+    hourlyRate: 100,
+    minHours: 2,
+    monthlyRate: 10000,
+    specs: { engine: '125cc', power: '20 HP', mileage: '55 kmpl', type: 'Sports' }
+  },
+
+  // Normal bikes
+  {
+    id: 'nb-honda-shine',
+    slug: 'honda-shine',
+    name: 'Honda Shine',
+    category: 'Normal Bike',
+    image: shineImg,
+    dailyRate: 450,
+    hourlyRate: 75,
+    minHours: 2,
+    monthlyRate: 7500,
+    specs: { engine: '124cc', power: '10.7 HP', mileage: '55 kmpl', type: 'Street' }
+  },
+  {
+    id: 'nb-bajaj-platina',
+    slug: 'bajaj-platina',
+    name: 'Bajaj Platina',
+    category: 'Normal Bike',
+    image: platinaImg,
+    dailyRate: 450,
+    hourlyRate: 75,
+    minHours: 2,
+    monthlyRate: 7500,
+    specs: { engine: '102cc', power: '8.1 HP', mileage: '70 kmpl', type: 'Street' }
+  },
+  {
+    id: 'nb-hero-splendor-plus',
+    slug: 'hero-splendor-plus',
+    name: 'Hero Splendor Plus',
+    category: 'Normal Bike',
+    image: splendorImg,
+    dailyRate: 450,
+    hourlyRate: 75,
+    minHours: 2,
+    monthlyRate: 7500,
+    specs: { engine: '97cc', power: '8.02 HP', mileage: '60 kmpl', type: 'Street' }
+  },
+  {
+    id: 'nb-hero-passion',
+    slug: 'hero-passion',
+    name: 'Hero Passion',
+    category: 'Normal Bike',
+    image: passionImg,
+    dailyRate: 450,
+    hourlyRate: 75,
+    minHours: 2,
+    monthlyRate: 7500,
+    specs: { engine: '109cc', power: '8.4 HP', mileage: '60 kmpl', type: 'Street' }
+  },
+  {
+    id: 'nb-hero-hf-deluxe',
+    slug: 'hero-hf-deluxe',
+    name: 'Hero HF Deluxe',
+    category: 'Normal Bike',
+    image: hfDeluxeImg,
+    dailyRate: 450,
+    hourlyRate: 75,
+    minHours: 2,
+    monthlyRate: 7500,
+    specs: { engine: '100cc', power: '12.4 HP', mileage: '50 kmpl', type: 'Street' }
+  },
+
+  // Scooties
+  {
+    id: 'sc-honda-activa-6g',
+    slug: 'honda-activa-6g',
+    name: 'Honda Activa 6G',
+    category: 'Scooty',
+    image: activaImg,
+    dailyRate: 450,
+    hourlyRate: 75,
+    minHours: 2,
+    monthlyRate: 7500,
+    specs: { engine: '109cc', power: '7.79 HP', mileage: '55 kmpl', type: 'Scooter' }
+  },
+  {
+    id: 'sc-tvs-zest-110',
+    slug: 'tvs-zest-110',
+    name: 'TVS Zest 110',
+    category: 'Scooty',
+    image: zestImg,
+    dailyRate: 400,
+    hourlyRate: 70,
+    minHours: 2,
+    monthlyRate: 6500,
+    specs: { engine: '109cc', power: '7.47 HP', mileage: '62 kmpl', type: 'Scooter' }
+  }
+];
+
+export const getVehiclesByCategory = (category: VehicleCategory, vehicles: Vehicle[] = VEHICLES): Vehicle[] =>
+  vehicles.filter(vehicle => vehicle.category === category);
+
+export const getVehicleById = (id: string, vehicles: Vehicle[] = VEHICLES): Vehicle | undefined =>
+  vehicles.find(vehicle => vehicle.id === id);
+
+export const getVehicleBySlug = (slug: string, vehicles: Vehicle[] = VEHICLES): Vehicle | undefined =>
+  vehicles.find(vehicle => vehicle.slug === slug);
+
+// Lowest daily rate in a category, used for the "from ₹X/day" badges
+export const getStartingRate = (category: VehicleCategory, vehicles: Vehicle[] = VEHICLES): number => {
+  const rates = getVehiclesByCategory(category, vehicles).map(vehicle => vehicle.dailyRate);
+  return rates.length > 0 ? Math.min(...rates) : 0;
+};
+
+export const formatDailyRate = (rate: number): string => `₹${rate}/day`;
@@ -0,0 +1,266 @@
+import { supabase, isDuplicateKeyError, isPermanentDatabaseError, type Booking, type ContactInsert, type ContactMessage, type ContactNote, type ContactStatus, type Customer } from './supabase';
+import { createIdempotencyKey, enqueueSubmission } from './outbox';
+import { sanitizeSearch } from './bookings';
+import { normalizeBookingReference } from './bookingLookup';
+
+// 'queued' means the message is only in this browser's outbox and hasn't reached us yet
+export type ContactSubmissionOutcome = 'sent' | 'queued';
+
+/**
+ * Saves a Contact Us message. If it can't reach the database it goes into the
+ * outbox, which keeps retrying with the same ID so it is only ever saved once.
+ * Messages the database refuses outright are thrown, since a retry won't help.
+ */
+export const submitContactMessage = async (message: ContactInsert): Promise<ContactSubmissionOutcome> => {
+  const id = createIdempotencyKey();
+
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    await enqueueSubmission({ kind: 'contact', payload: message }, id);
+    return 'queued';
+  }
+
+  // Visitors can only insert into contacts, so this can't be an upsert; see isDuplicateKeyError
+  const { error } = await supabase
+    .from('contacts')
+    .insert([{ ...message, id }]);
+
+  if (!error || isDuplicateKeyError(error, ['contacts_pkey'])) {
+    console.log('✅ Contact message saved:', id);
+    return 'sent';
+  }
+
+  if (isPermanentDatabaseError(error.code)) {
+    throw new Error(`Failed to send message: ${error.message}`);
+  }
+
+  console.warn('Could not save contact message, queuing it for retry:', error);
+  await enqueueSubmission({ kind: 'contact', payload: message }, id);
+  return 'queued';
+};
+
+// The inbox is capped like the bookings list; narrow the filters to see older messages
+export const CONTACT_LIST_LIMIT = 200;
+
+// Unread counts refresh this often while the admin pages are open
+const UNREAD_POLL_INTERVAL_MS = 60 * 1000;
+
+export const CONTACT_STATUS_LABELS: Record<ContactStatus, string> = {
+  new: 'Unread',
+  read: 'Read',
+  replied: 'Replied',
+  closed: 'Closed'
+};
+
+// Badge colours for the inbox
+export const CONTACT_STATUS_STYLES: Record<ContactStatus, string> = {
+  new: 'bg-yellow-900/40 text-yellow-300 border-yellow-700',
+  read: 'bg-blue-900/40 text-blue-300 border-blue-700',
+  replied: 'bg-green-900/40 text-green-300 border-green-700',
+  closed: 'bg-gray-700 text-gray-300 border-gray-600'
+};
+
+export interface ContactFilters {
+  status?: ContactStatus;
+  assignedTo?: string; // A staff user ID, or 'unassigned'
+  search?: string; // Matches name, email, phone or subject
+}
+
+export type ContactUpdate = Partial<Pick<ContactMessage, 'status' | 'assigned_to' | 'booking_id' | 'customer_id'>>;
+
+// The few booking fields the inbox shows for a linked booking
+export type LinkedBooking = Pick<Booking, 'id' | 'reference' | 'name' | 'model' | 'pickup_date' | 'status'>;
+
+const LINKED_BOOKING_COLUMNS = 'id, reference, name, model, pickup_date, status';
+
+// Function to fetch contact messages for the admin inbox, newest first
+export const fetchContactMessages = async (filters: ContactFilters = {}): Promise<ContactMessage[]> => {
+  let query = supabase
+    .from('contacts')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(CONTACT_LIST_LIMIT);
+
+  if (filters.status) query = query.eq('status', filters.status);
+  if (filters.assignedTo === 'unassigned') query = query.is('assigned_to', null);
+  else if (filters.assignedTo) query = query.eq('assigned_to', filters.assignedTo);
+
+  const search = sanitizeSearch(filters.search || '');
+  if (search) {
+    query = query.or(`name.ilike.%${search}%,email.ilike.%${search}%,phone.ilike.%${search}%,subject.ilike.%${search}%`);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load messages: ${error.message}`);
+  }
+
+  return data as ContactMessage[];
+};
+
+// Function to load the sender's other messages, newest first, so staff see the whole conversation
+export const fetchMessagesFromSender = async (email: string, excludeId: string): Promise<ContactMessage[]> => {
+  const { data, error } = await supabase
+    .from('contacts')
+    .select('*')
+    .ilike('email', email)
+    .neq('id', excludeId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load earlier messages: ${error.message}`);
+  }
+
+  return data as ContactMessage[];
+};
+
+// Function to change a message's status, assignee or links; returns the saved row
+export const updateContactMessage = async (id: string, changes: ContactUpdate): Promise<ContactMessage> => {
+  const { data, error } = await supabase
+    .from('contacts')
+    .update(changes)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update message: ${error.message}`);
+  }
+
+  void refreshUnreadContacts();
+  return data as ContactMessage;
+};
+
+// Function to load a message's internal notes, oldest first
+export const fetchContactNotes = async (contactId: string): Promise<ContactNote[]> => {
+  const { data, error } = await supabase
+    .from('contact_notes')
+    .select('*')
+    .eq('contact_id', contactId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load notes: ${error.message}`);
+  }
+
+  return data as ContactNote[];
+};
+
+// The database fills in the author from the session
+export const addContactNote = async (contactId: string, body: string): Promise<ContactNote> => {
+  const { data, error } = await supabase
+    .from('contact_notes')
+    .insert([{ contact_id: contactId, body: body.trim() }])
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to add note: ${error.message}`);
+  }
+
+  return data as ContactNote;
+};
+
+// Function to find a booking to link by its reference; null when there is none
+export const findBookingByReference = async (reference: string): Promise<LinkedBooking | null> => {
+  const { data, error } = await supabase
+    .from('bookings')
+    .select(LINKED_BOOKING_COLUMNS)
+    .eq('reference', normalizeBookingReference(reference))
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up booking: ${error.message}`);
+  }
+
+  return data as LinkedBooking | null;
+};
+
+export const fetchLinkedBooking = async (bookingId: string): Promise<LinkedBooking | null> => {
+  const { data, error } = await supabase
+    .from('bookings')
+    .select(LINKED_BOOKING_COLUMNS)
+    .eq('id', bookingId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load linked booking: ${error.message}`);
+  }
+
+  return data as LinkedBooking | null;
+};
+
+/**
+ * Customer accounts the message could belong to: those whose saved contact is
+ * the sender's email or phone, plus the one already linked.
+ */
+export const fetchLinkableCustomers = async (
+  { email, phone, customer_id }: Pick<ContactMessage, 'email' | 'phone' | 'customer_id'>
+): Promise<Customer[]> => {
+  const contacts = [email, phone].filter((value): value is string => !!value);
+  let query = supabase.from('customers').select('*');
+  query = customer_id
+    ? query.or(`id.eq.${customer_id},contact.in.(${contacts.map(value => `"${value.replace(/"/g, '')}"`).join(',')})`)
+    : query.in('contact', contacts);
+
+  const { data, error } = await query.order('name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load customers: ${error.message}`);
+  }
+
+  return data as Customer[];
+};
+
+const unreadListeners = new Set<(count: number) => void>();
+let unreadTimer: ReturnType<typeof setInterval> | null = null;
+
+// Function to count messages nobody has opened yet
+export const countUnreadContactMessages = async (): Promise<number> => {
+  const { count, error } = await supabase
+    .from('contacts')
+    .select('id', { count: 'exact', head: true })
+    .eq('status', 'new');
+
+  if (error) {
+    throw new Error(`Failed to count unread messages: ${error.message}`);
+  }
+
+  return count ?? 0;
+};
+
+// Re-counts unread messages and tells every subscriber
+export const refreshUnreadContacts = async (): Promise<void> => {
+  if (unreadListeners.size === 0) return;
+
+  try {
+    const count = await countUnreadContactMessages();
+    unreadListeners.forEach(listener => listener(count));
+  } catch (error) {
+    console.warn('Could not count unread messages:', error);
+  }
+};
+
+/**
+ * Calls the listener with the unread count now, after every inbox change made
+ * here and once a minute for messages arriving from the site. Returns an
+ * unsubscribe function.
+ */
+export const subscribeToUnreadContacts = (listener: (count: number) => void): (() => void) => {
+  unreadListeners.add(listener);
+  if (!unreadTimer) {
+    unreadTimer = setInterval(() => void refreshUnreadContacts(), UNREAD_POLL_INTERVAL_MS);
+  }
+
+  countUnreadContactMessages()
+    .then(count => listener(count))
+    .catch(error => console.warn('Could not count unread messages:', error));
+
+  return () => {
+    unreadListeners.delete(listener);
+    if (unreadListeners.size === 0 && unreadTimer) {
+      clearInterval(unreadTimer);
+      unreadTimer = null;
+    }
+  };
+};
@@ -0,0 +1,118 @@
+import { supabase, type Booking, type Customer, type MonthlySubscription } from './supabase';
+import type { RentalType } from './pricing';
+
+export interface CustomerProfile {
+  name: string;
+  contact: string;
+  address: string;
+}
+
+// One row on the My Bookings page, from either the bookings or the subscriptions table
+export interface CustomerRental {
+  id: string;
+  source: 'bookings' | 'monthly_subscriptions';
+  reference: string;
+  model: string;
+  category: string;
+  rentalType: RentalType;
+  status: string;
+  pickupDate: string | null;
+  returnDate: string | null;
+  pickupTime: string | null;
+  returnTime: string | null;
+  totalPrice: number;
+  createdAt: string;
+}
+
+// Statuses after which a rental is history, whatever its dates say
+const FINISHED_STATUSES = ['completed', 'cancelled', 'terminated'];
+
+// Function to load the signed-in customer's saved details; null before they've booked
+export const fetchCustomer = async (userId: string): Promise<Customer | null> => {
+  const { data, error } = await supabase
+    .from('customers')
+    .select('*')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching customer profile:', error);
+    throw new Error(`Failed to load your details: ${error.message}`);
+  }
+
+  return data as Customer | null;
+};
+
+// Function to create or update the customer's saved details
+export const saveCustomerProfile = async (userId: string, profile: CustomerProfile): Promise<void> => {
+  const { error } = await supabase
+    .from('customers')
+    .upsert([{ id: userId, ...profile }], { onConflict: 'id' });
+
+  if (error) {
+    throw new Error(`Failed to save your details: ${error.message}`);
+  }
+};
+
+/**
+ * Loads every booking and subscription linked to the customer, newest first.
+ * RLS only returns the signed-in customer's own rows.
+ */
+export const fetchCustomerRentals = async (userId: string): Promise<CustomerRental[]> => {
+  const [bookings, monthly] = await Promise.all([
+    supabase
+      .from('bookings')
+      .select('id, reference, model, category, rental_type, status, pickup_date, return_date, pickup_time, return_time, total_price, created_at')
+      .eq('customer_id', userId),
+    supabase
+      .from('monthly_subscriptions')
+      .select('id, reference, model, category, status, pickup_date, return_date, total_price, created_at')
+      .eq('customer_id', userId)
+  ]);
+
+  if (bookings.error) {
+    throw new Error(`Failed to load your bookings: ${bookings.error.message}`);
+  }
+  if (monthly.error) {
+    throw new Error(`Failed to load your subscriptions: ${monthly.error.message}`);
+  }
+
+  const rentals: CustomerRental[] = [
+    ...(bookings.data as Booking[]).map(row => ({
+      id: row.id,
+      source: 'bookings' as const,
+      reference: row.reference,
+      model: row.model,
+      category: row.category,
+      rentalType: row.rental_type,
+      status: row.status,
+      pickupDate: row.pickup_date,
+      returnDate: row.return_date,
+      pickupTime: row.pickup_time,
+      returnTime: row.return_time,
+      totalPrice: row.total_price,
+      createdAt: row.created_at
+    })),
+    ...(monthly.data as MonthlySubscription[]).map(row => ({
+      id: row.id,
+      source: 'monthly_subscriptions' as const,
+      reference: row.reference,
+      model: row.model,
+      category: row.category,
+      rentalType: 'monthly' as const,
+      status: row.status,
+      pickupDate: row.pickup_date,
+      returnDate: row.return_date,
+      pickupTime: null,
+      returnTime: null,
+      totalPrice: row.total_price,
+      createdAt: row.created_at
+    }))
+  ];
+
+  return rentals.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+// A rental is upcoming until it's finished or its return date has passed
+export const isUpcomingRental = (rental: CustomerRental, today: string = new Date().toISOString().split('T')[0]): boolean =>
+  !FINISHED_STATUSES.includes(rental.status.toLowerCase()) && (!rental.returnDate || rental.returnDate >= today);
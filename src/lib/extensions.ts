@@ -0,0 +1,117 @@
+import { supabase, type BookingExtension, type BookingRentalType } from './supabase';
+import type { Vehicle } from './catalog';
+import { quotePrice, type PriceBreakdown } from './pricing';
+import { checkExtensionAvailability, toDateTime } from './availability';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// What an extension needs to know about the booking, from either the admin row or a customer lookup
+export interface ExtendableBooking {
+  rentalType: BookingRentalType;
+  returnDate: string;
+  returnTime: string | null;
+  unitId: string | null;
+}
+
+export interface ExtensionQuote {
+  newReturnDate: string;
+  newReturnTime: string;
+  extraDays: number; // Daily and weekly rentals
+  extraHours: number; // Hourly rentals
+  price: PriceBreakdown;
+}
+
+// Bookings saved without a return time are handed back at the default time
+const DEFAULT_RETURN_TIME = '18:00';
+
+/**
+ * Prices the time between the current return and the new one as a rental of
+ * its own: hourly bookings by the hour, everything else by the day, with the
+ * pricing rules applied as of the current return date.
+ */
+export const quoteExtension = (
+  booking: ExtendableBooking,
+  vehicle: Vehicle,
+  newReturnDate: string,
+  newReturnTime: string
+): ExtensionQuote => {
+  const currentReturn = toDateTime(booking.returnDate, booking.returnTime || DEFAULT_RETURN_TIME);
+  const newReturn = toDateTime(newReturnDate, newReturnTime);
+  const extraMs = newReturn.getTime() - currentReturn.getTime();
+
+  if (extraMs <= 0) {
+    throw new Error('Pick a return time after the current one');
+  }
+
+  if (booking.rentalType === 'hourly') {
+    const extraHours = Math.ceil(extraMs / HOUR_MS);
+    const price = quotePrice({ vehicle, rentalType: 'hourly', days: 0, hours: extraHours, pickupDate: booking.returnDate });
+    return { newReturnDate, newReturnTime, extraDays: 0, extraHours, price };
+  }
+
+  // Weekly discounts don't carry over; the extra days are charged as a daily rental
+  const extraDays = Math.ceil(extraMs / DAY_MS);
+  const price = quotePrice({ vehicle, rentalType: 'daily', days: extraDays, pickupDate: booking.returnDate });
+  return { newReturnDate, newReturnTime, extraDays, extraHours: 0, price };
+};
+
+// Whether the same unit (or, without one, any unit of the model) is free for the extra time
+export const isExtensionAvailable = async (
+  booking: ExtendableBooking,
+  vehicle: Vehicle,
+  quote: ExtensionQuote
+): Promise<boolean> => {
+  const { available } = await checkExtensionAvailability(
+    vehicle,
+    booking.unitId,
+    toDateTime(booking.returnDate, booking.returnTime || DEFAULT_RETURN_TIME),
+    toDateTime(quote.newReturnDate, quote.newReturnTime)
+  );
+  return available;
+};
+
+// The database measures and prices the extra time itself (apply_booking_extension); the quote is for display
+const extensionParams = (quote: ExtensionQuote) => ({
+  p_new_return_date: quote.newReturnDate,
+  p_new_return_time: quote.newReturnTime
+});
+
+// Function for staff to extend a booking from the dashboard; resolves with the extension ID
+export const extendBooking = async (bookingId: string, quote: ExtensionQuote): Promise<string> => {
+  const { data, error } = await supabase.rpc('extend_booking', { p_booking_id: bookingId, ...extensionParams(quote) });
+
+  if (error) {
+    throw new Error(`Failed to extend booking: ${error.message}`);
+  }
+  return data as string;
+};
+
+// Function for customers to extend their own booking, verified by reference and contact number
+export const extendBookingByReference = async (reference: string, contact: string, quote: ExtensionQuote): Promise<string> => {
+  const { data, error } = await supabase.rpc('extend_booking_by_reference', {
+    p_reference: reference,
+    p_contact: contact,
+    ...extensionParams(quote)
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data as string;
+};
+
+// Function to fetch a booking's extensions, oldest first
+export const fetchBookingExtensions = async (bookingId: string): Promise<BookingExtension[]> => {
+  const { data, error } = await supabase
+    .from('booking_extensions')
+    .select('*')
+    .eq('booking_id', bookingId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load booking extensions: ${error.message}`);
+  }
+
+  return data as BookingExtension[];
+};
@@ -0,0 +1,222 @@
+// Delivery channels for customer notifications. Like notificationTemplates.ts
+// this module has no imports, so the notify-booking edge function can use it;
+// channels that need API keys are only ever built there.
+
+export type ChannelKind = 'whatsapp' | 'sms' | 'email' | 'webhook';
+
+export interface OutgoingNotification {
+  event: string;
+  reference: string;
+  language: string;
+  subject: string;
+  text: string;
+  to: {
+    phone?: string | null; // E.164, e.g. +919876543210
+    email?: string | null;
+  };
+}
+
+export type DeliveryResult =
+  | { status: 'sent'; providerMessageId?: string | null }
+  | { status: 'skipped'; reason: string } // Nothing to send to on this channel
+  | { status: 'failed'; error: string };
+
+export interface NotificationChannel {
+  name: string;
+  kind: ChannelKind;
+  send: (notification: OutgoingNotification) => Promise<DeliveryResult>;
+}
+
+export interface ChannelDelivery {
+  channel: string;
+  kind: ChannelKind;
+  recipient: string | null;
+  result: DeliveryResult;
+}
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+const recipientFor = (kind: ChannelKind, notification: OutgoingNotification): string | null => {
+  if (kind === 'whatsapp' || kind === 'sms') return notification.to.phone || null;
+  if (kind === 'email') return notification.to.email || null;
+  return null; // Webhooks get the whole notification
+};
+
+// Posts JSON and turns a non-2xx response into an error carrying the body
+const postJson = async (url: string, body: unknown, headers: Record<string, string> = {}): Promise<Record<string, unknown>> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  });
+  const text = await response.text();
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}: ${text.slice(0, 300)}`);
+  }
+  try {
+    return text ? JSON.parse(text) : {};
+  } catch {
+    return {};
+  }
+};
+
+export interface WhatsAppCloudConfig {
+  accessToken: string;
+  phoneNumberId: string;
+  apiVersion?: string;
+  /**
+   * Approved template to send, with the message text as its only body
+   * parameter. Meta only allows free-form text within 24 hours of the
+   * customer's last message, so business-initiated updates need one.
+   */
+  templateName?: string;
+}
+
+export const createWhatsAppCloudChannel = (config: WhatsAppCloudConfig): NotificationChannel => ({
+  name: 'whatsapp',
+  kind: 'whatsapp',
+  send: async (notification) => {
+    const to = recipientFor('whatsapp', notification);
+    if (!to) return { status: 'skipped', reason: 'No phone number' };
+
+    const message = config.templateName
+      ? {
+          type: 'template',
+          template: {
+            name: config.templateName,
+            language: { code: notification.language },
+            components: [{ type: 'body', parameters: [{ type: 'text', text: notification.text }] }]
+          }
+        }
+      : { type: 'text', text: { body: notification.text } };
+
+    try {
+      const response = await postJson(
+        `https://graph.facebook.com/${config.apiVersion || 'v20.0'}/${config.phoneNumberId}/messages`,
+        { messaging_product: 'whatsapp', to: to.replace(/^\+/, ''), ...message },
+        { Authorization: `Bearer ${config.accessToken}` }
+      );
+      const messages = response.messages as { id?: string }[] | undefined;
+      return { status: 'sent', providerMessageId: messages?.[0]?.id ?? null };
+    } catch (error) {
+      return { status: 'failed', error: errorMessage(error) };
+    }
+  }
+});
+
+export interface SmsGatewayConfig {
+  url: string; // Receives { to, from, text } as JSON
+  apiKey: string;
+  sender?: string;
+}
+
+// Works with any HTTP SMS gateway that takes a JSON POST; put a small adapter in front of others
+export const createSmsChannel = (config: SmsGatewayConfig): NotificationChannel => ({
+  name: 'sms',
+  kind: 'sms',
+  send: async (notification) => {
+    const to = recipientFor('sms', notification);
+    if (!to) return { status: 'skipped', reason: 'No phone number' };
+
+    try {
+      const response = await postJson(
+        config.url,
+        { to, from: config.sender, text: notification.text },
+        { Authorization: `Bearer ${config.apiKey}` }
+      );
+      return { status: 'sent', providerMessageId: typeof response.id === 'string' ? response.id : null };
+    } catch (error) {
+      return { status: 'failed', error: errorMessage(error) };
+    }
+  }
+});
+
+export interface EmailConfig {
+  apiKey: string;
+  from: string; // e.g. "RideRental <bookings@example.com>"
+  url?: string; // Defaults to Resend's send endpoint
+}
+
+export const createEmailChannel = (config: EmailConfig): NotificationChannel => ({
+  name: 'email',
+  kind: 'email',
+  send: async (notification) => {
+    const to = recipientFor('email', notification);
+    if (!to) return { status: 'skipped', reason: 'No email address' };
+
+    try {
+      const response = await postJson(
+        config.url || 'https://api.resend.com/emails',
+        { from: config.from, to: [to], subject: notification.subject, text: notification.text },
+        { Authorization: `Bearer ${config.apiKey}` }
+      );
+      return { status: 'sent', providerMessageId: typeof response.id === 'string' ? response.id : null };
+    } catch (error) {
+      return { status: 'failed', error: errorMessage(error) };
+    }
+  }
+});
+
+export interface WebhookConfig {
+  url: string;
+  secret?: string; // Sent as X-Webhook-Secret so the receiver can check the caller
+}
+
+export const createWebhookChannel = (config: WebhookConfig): NotificationChannel => ({
+  name: 'webhook',
+  kind: 'webhook',
+  send: async (notification) => {
+    try {
+      await postJson(config.url, notification, config.secret ? { 'X-Webhook-Secret': config.secret } : {});
+      return { status: 'sent' };
+    } catch (error) {
+      return { status: 'failed', error: errorMessage(error) };
+    }
+  }
+});
+
+export interface StubChannel extends NotificationChannel {
+  sent: OutgoingNotification[];
+}
+
+// Records instead of sending, so the whole flow can run offline and be inspected
+export const createStubChannel = (kind: ChannelKind, log: (line: string) => void = console.log): StubChannel => {
+  const sent: OutgoingNotification[] = [];
+  return {
+    name: `${kind}-stub`,
+    kind,
+    sent,
+    send: async (notification) => {
+      const to = recipientFor(kind, notification);
+      if (kind !== 'webhook' && !to) {
+        return { status: 'skipped', reason: kind === 'email' ? 'No email address' : 'No phone number' };
+      }
+      sent.push(notification);
+      log(`📨 [${kind}-stub] ${notification.event} ${notification.reference} → ${to ?? 'webhook'}\n${notification.text}`);
+      return { status: 'sent', providerMessageId: `stub-${sent.length}` };
+    }
+  };
+};
+
+export const STUB_CHANNEL_KINDS: ChannelKind[] = ['whatsapp', 'sms', 'email', 'webhook'];
+
+// Sends through every channel; one channel failing doesn't stop the others
+export const deliverNotification = async (
+  notification: OutgoingNotification,
+  channels: NotificationChannel[]
+): Promise<ChannelDelivery[]> => {
+  const deliveries: ChannelDelivery[] = [];
+
+  for (const channel of channels) {
+    let result: DeliveryResult;
+    try {
+      result = await channel.send(notification);
+    } catch (error) {
+      // Channels are expected to report failures, but a throw shouldn't skip the rest
+      result = { status: 'failed', error: errorMessage(error) };
+    }
+    deliveries.push({ channel: channel.name, kind: channel.kind, recipient: recipientFor(channel.kind, notification), result });
+  }
+
+  return deliveries;
+};
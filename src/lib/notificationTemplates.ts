@@ -0,0 +1,145 @@
+// Customer-facing message templates. This module has no imports so the
+// notify-booking edge function (Deno) can load it as well as the site.
+
+export type NotificationLanguage = 'en' | 'hi';
+
+export type NotificationEvent = 'booking_created' | 'status_changed';
+
+export const NOTIFICATION_LANGUAGES: Record<NotificationLanguage, string> = {
+  en: 'English',
+  hi: 'हिन्दी'
+};
+
+// The booking fields the templates use; rows from either booking table fit
+export interface NotificationBooking {
+  reference: string;
+  name: string;
+  model: string;
+  rental_type: string; // 'monthly' for subscriptions
+  status: string;
+  pickup_date: string | null;
+  pickup_time?: string | null;
+  return_date: string | null;
+  return_time?: string | null;
+  total_price: number;
+  notification_language?: NotificationLanguage | null;
+}
+
+export interface TemplateContext {
+  businessName: string;
+  lookupUrl?: string; // Link to the booking's self-service page, when known
+}
+
+export interface RenderedNotification {
+  language: NotificationLanguage;
+  subject: string;
+  text: string;
+}
+
+const RENTAL_LABELS: Record<NotificationLanguage, Record<string, string>> = {
+  en: { hourly: 'hourly', daily: 'daily', weekly: 'weekly', monthly: 'monthly' },
+  hi: { hourly: 'घंटे के हिसाब से', daily: 'दैनिक', weekly: 'साप्ताहिक', monthly: 'मासिक' }
+};
+
+export const isNotificationLanguage = (value: unknown): value is NotificationLanguage =>
+  value === 'en' || value === 'hi';
+
+const formatWhen = (language: NotificationLanguage, date: string | null, time?: string | null): string => {
+  if (!date) return '—';
+  const day = new Date(`${date}T00:00`).toLocaleDateString(language === 'hi' ? 'hi-IN' : 'en-IN', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short'
+  });
+  return time ? `${day}, ${time.slice(0, 5)}` : day;
+};
+
+interface TemplateValues {
+  booking: NotificationBooking;
+  business: string;
+  rental: string; // Rental type in the template's language
+  pickup: string;
+  dropoff: string;
+}
+
+type Template = (values: TemplateValues) => Omit<RenderedNotification, 'language'>;
+
+// Status changes without a template (e.g. back to pending) aren't sent
+const TEMPLATES: Record<NotificationLanguage, { created: Template; status: Partial<Record<string, Template>> }> = {
+  en: {
+    created: ({ booking: b, rental, pickup, dropoff }) => ({
+      subject: `Booking ${b.reference} received`,
+      text: `Hi ${b.name}, we've received your ${rental} booking for the ${b.model}, ${pickup} to ${dropoff}. `
+        + `Total ₹${b.total_price}. Your reference is ${b.reference}. Our team will call you within 30 minutes to confirm.`
+    }),
+    status: {
+      confirmed: ({ booking: b, pickup }) => ({
+        subject: `Booking ${b.reference} confirmed`,
+        text: `Hi ${b.name}, your booking ${b.reference} for the ${b.model} is confirmed. Pickup: ${pickup}. Please bring a valid driving licence.`
+      }),
+      ongoing: ({ booking: b, dropoff }) => ({
+        subject: `Rental ${b.reference} started`,
+        text: `Hi ${b.name}, your ${b.model} rental (${b.reference}) has started. Please return it by ${dropoff}. Ride safe!`
+      }),
+      completed: ({ booking: b, business }) => ({
+        subject: `Rental ${b.reference} completed`,
+        text: `Hi ${b.name}, thanks for riding with ${business}! Your rental ${b.reference} is complete.`
+      }),
+      cancelled: ({ booking: b }) => ({
+        subject: `Booking ${b.reference} cancelled`,
+        text: `Hi ${b.name}, your booking ${b.reference} for the ${b.model} has been cancelled. If you didn't expect this, please call us.`
+      })
+    }
+  },
+  hi: {
+    created: ({ booking: b, rental, pickup, dropoff }) => ({
+      subject: `बुकिंग ${b.reference} प्राप्त हुई`,
+      text: `नमस्ते ${b.name}, ${b.model} के लिए आपकी ${rental} बुकिंग (${pickup} से ${dropoff}) हमें मिल गई है। `
+        + `कुल ₹${b.total_price}। आपका रेफ़रेंस ${b.reference} है। पुष्टि के लिए हमारी टीम 30 मिनट में आपको कॉल करेगी।`
+    }),
+    status: {
+      confirmed: ({ booking: b, pickup }) => ({
+        subject: `बुकिंग ${b.reference} कन्फ़र्म`,
+        text: `नमस्ते ${b.name}, ${b.model} के लिए आपकी बुकिंग ${b.reference} कन्फ़र्म हो गई है। पिकअप: ${pickup}। कृपया वैध ड्राइविंग लाइसेंस साथ लाएँ।`
+      }),
+      ongoing: ({ booking: b, dropoff }) => ({
+        subject: `रेंटल ${b.reference} शुरू`,
+        text: `नमस्ते ${b.name}, आपका ${b.model} रेंटल (${b.reference}) शुरू हो गया है। कृपया इसे ${dropoff} तक लौटाएँ। सुरक्षित चलाएँ!`
+      }),
+      completed: ({ booking: b, business }) => ({
+        subject: `रेंटल ${b.reference} पूरा हुआ`,
+        text: `नमस्ते ${b.name}, ${business} के साथ सवारी के लिए धन्यवाद! आपका रेंटल ${b.reference} पूरा हो गया है।`
+      }),
+      cancelled: ({ booking: b }) => ({
+        subject: `बुकिंग ${b.reference} रद्द`,
+        text: `नमस्ते ${b.name}, ${b.model} के लिए आपकी बुकिंग ${b.reference} रद्द कर दी गई है। अगर यह अपेक्षित नहीं था, तो कृपया हमें कॉल करें।`
+      })
+    }
+  }
+};
+
+const SIGN_OFF: Record<NotificationLanguage, (context: TemplateContext) => string> = {
+  en: context => (context.lookupUrl ? `\nView or change your booking: ${context.lookupUrl}` : '') + `\n— ${context.businessName}`,
+  hi: context => (context.lookupUrl ? `\nअपनी बुकिंग देखें या बदलें: ${context.lookupUrl}` : '') + `\n— ${context.businessName}`
+};
+
+// Renders the message for an event in the booking's language; null when there is nothing to send
+export const renderNotification = (
+  event: NotificationEvent,
+  booking: NotificationBooking,
+  context: TemplateContext
+): RenderedNotification | null => {
+  const language = isNotificationLanguage(booking.notification_language) ? booking.notification_language : 'en';
+  const templates = TEMPLATES[language];
+  const template = event === 'booking_created' ? templates.created : templates.status[booking.status];
+  if (!template) return null;
+
+  const { subject, text } = template({
+    booking,
+    business: context.businessName,
+    rental: RENTAL_LABELS[language][booking.rental_type] ?? booking.rental_type,
+    pickup: formatWhen(language, booking.pickup_date, booking.pickup_time),
+    dropoff: formatWhen(language, booking.return_date, booking.return_time)
+  });
+  return { language, subject, text: text + SIGN_OFF[language](context) };
+};
@@ -0,0 +1,94 @@
+import { supabase } from './supabase';
+import { toE164Phone } from './auth';
+import { loadSiteConfig } from './siteConfig';
+import { renderNotification, type NotificationBooking, type NotificationEvent } from './notificationTemplates';
+import { createStubChannel, deliverNotification, STUB_CHANNEL_KINDS } from './notificationChannels';
+import type { OutboxSubmission } from './outbox';
+
+/**
+ * How customer notifications go out, from VITE_NOTIFICATIONS:
+ *   server  the notify-booking edge function sends them (default in production builds)
+ *   stub    rendered here and logged to the console instead of sent (default in development)
+ *   off     nothing is sent
+ */
+type NotificationMode = 'server' | 'stub' | 'off';
+
+const getNotificationMode = (
+  mode: string = import.meta.env.VITE_NOTIFICATIONS || (import.meta.env.DEV ? 'stub' : 'server')
+): NotificationMode => {
+  if (mode === 'server' || mode === 'stub' || mode === 'off') return mode;
+  console.warn(`Unknown VITE_NOTIFICATIONS mode "${mode}", notifications are off`);
+  return 'off';
+};
+
+const sendWithStubs = async (event: NotificationEvent, booking: NotificationBooking & { contact: string }) => {
+  const { businessName } = await loadSiteConfig();
+  const rendered = renderNotification(event, booking, {
+    businessName,
+    lookupUrl: `${window.location.origin}/booking/${booking.reference}`
+  });
+  if (!rendered) return;
+
+  const isEmail = booking.contact.includes('@');
+  await deliverNotification(
+    {
+      event,
+      reference: booking.reference,
+      ...rendered,
+      to: { phone: isEmail ? null : toE164Phone(booking.contact), email: isEmail ? booking.contact : null }
+    },
+    STUB_CHANNEL_KINDS.map(kind => createStubChannel(kind))
+  );
+};
+
+const sendNotification = async (event: NotificationEvent, booking: NotificationBooking & { contact: string }) => {
+  const mode = getNotificationMode();
+  if (mode === 'off') return;
+  if (mode === 'stub') {
+    await sendWithStubs(event, booking);
+    return;
+  }
+
+  // The function loads the booking itself; only the reference is trusted from here
+  const { error } = await supabase.functions.invoke('notify-booking', {
+    body: { event, reference: booking.reference }
+  });
+  if (error) {
+    throw new Error(`Failed to send notification: ${error.message}`);
+  }
+};
+
+/**
+ * Tells the customer about a new booking or a status change. Runs in the
+ * background: a notification that can't be sent never fails the booking.
+ */
+export const notifyBooking = (event: NotificationEvent, booking: NotificationBooking & { contact: string }): void => {
+  sendNotification(event, booking).catch(error => console.warn(`Could not send ${event} notification:`, error));
+};
+
+// Called once a new booking or subscription has reached the database
+export const notifyBookingCreated = (submission: OutboxSubmission): void => {
+  if (submission.kind === 'contact') return;
+
+  const { payload } = submission;
+  // The booking form always sets a reference; without one the booking can't be found again
+  if (!payload.reference) return;
+
+  // Subscriptions are date-only and have no rental_type column
+  const rental = submission.kind === 'booking'
+    ? { rental_type: submission.payload.rental_type || 'daily', pickup_time: submission.payload.pickup_time, return_time: submission.payload.return_time }
+    : { rental_type: 'monthly', pickup_time: null, return_time: null };
+
+  notifyBooking('booking_created', {
+    ...rental,
+    reference: payload.reference,
+    name: payload.name,
+    contact: payload.contact,
+    model: payload.model,
+    status: payload.status || 'pending',
+    pickup_date: payload.pickup_date || null,
+    return_date: payload.return_date || null,
+    total_price: payload.total_price ?? 0,
+    notification_language: payload.notification_language
+  });
+};
@@ -0,0 +1,354 @@
+import { supabase, DatabaseError, isDuplicateKeyError, isPermanentDatabaseError, type BookingInsert, type ContactInsert, type MonthlySubscriptionInsert } from './supabase';
+import type { RentalType } from './pricing';
+import { createMonthlySubscription } from './subscriptions';
+import { notifyBookingCreated } from './notifications';
+
+const DB_NAME = 'ride-rental';
+const DB_VERSION = 1;
+const STORE = 'outbox';
+
+// Where bookings used to be parked before the outbox existed; moved over on first sync
+const LEGACY_STORAGE_KEY = 'pendingBookings';
+
+// Retries back off from 30 seconds, doubling up to an hour between attempts
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+interface OutboxEntryBase {
+  id: string; // Idempotency key, sent with every attempt so the server keeps only one copy
+  attempts: number;
+  createdAt: string;
+  nextAttemptAt: number; // Epoch milliseconds
+  lastError: string | null;
+  refusedAt?: string; // Set once the database refuses the entry for good; it is kept to tell the customer, never retried
+}
+
+export type OutboxSubmission =
+  | { kind: 'booking'; payload: BookingInsert }
+  | { kind: 'subscription'; payload: MonthlySubscriptionInsert }
+  | { kind: 'contact'; payload: ContactInsert };
+
+export type OutboxEntry = OutboxEntryBase & OutboxSubmission;
+
+export type OutboxListener = (entries: OutboxEntry[]) => void;
+
+// Always a v4 UUID; subscriptions and contact messages also use it as their row ID
+export const createIdempotencyKey = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  // randomUUID is only available on HTTPS pages
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+const retryDelay = (attempts: number): number =>
+  Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again instead of caching the failure
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+// Runs `work` in one transaction and resolves once it has committed
+const transact = async <T>(mode: IDBTransactionMode, work: (store: IDBObjectStore) => () => T): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const result = work(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(result());
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const listeners = new Set<OutboxListener>();
+
+export const getOutboxEntries = (): Promise<OutboxEntry[]> =>
+  transact('readonly', (store) => {
+    const request = store.getAll();
+    return () => (request.result as OutboxEntry[]).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  });
+
+const notify = async () => {
+  if (listeners.size === 0) return;
+  const entries = await getOutboxEntries();
+  listeners.forEach(listener => listener(entries));
+};
+
+// Calls the listener with the current queue, then after every change. Returns an unsubscribe function.
+export const subscribeToOutbox = (listener: OutboxListener): (() => void) => {
+  listeners.add(listener);
+  getOutboxEntries()
+    .then(entries => listener(entries))
+    .catch(error => console.warn('Could not read the booking outbox:', error));
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Queues a submission for retry. Queuing the same key twice keeps the first entry.
+export const enqueueSubmission = async (
+  submission: OutboxSubmission,
+  id: string = createIdempotencyKey()
+): Promise<OutboxEntry> => {
+  const entry = {
+    ...submission,
+    id,
+    attempts: 0,
+    createdAt: new Date().toISOString(),
+    nextAttemptAt: Date.now() + BASE_RETRY_DELAY_MS,
+    lastError: null
+  } as OutboxEntry;
+
+  const stored = await transact('readwrite', (store) => {
+    const existing = store.get(id);
+    existing.onsuccess = () => {
+      if (!existing.result) store.add(entry);
+    };
+    return () => (existing.result as OutboxEntry | undefined) ?? entry;
+  });
+
+  console.log('📥 Submission queued in outbox:', stored.id);
+  await notify();
+  scheduleFlush();
+  return stored;
+};
+
+// Removes an entry without sending it, e.g. a refused one once the customer has been told
+export const discardOutboxEntry = async (id: string): Promise<void> => {
+  await transact('readwrite', (store) => {
+    store.delete(id);
+    return () => undefined;
+  });
+  await notify();
+};
+
+// Function to send one entry; a repeat of an already saved submission counts as sent
+const deliver = async (entry: OutboxEntry): Promise<void> => {
+  if (entry.kind === 'subscription') {
+    await createMonthlySubscription({ ...entry.payload, idempotency_key: entry.id });
+    return;
+  }
+
+  if (entry.kind === 'contact') {
+    // A message an earlier attempt saved already has this ID
+    const { error } = await supabase
+      .from('contacts')
+      .insert([{ ...entry.payload, id: entry.id }]);
+
+    if (error && !isDuplicateKeyError(error, ['contacts_pkey'])) {
+      throw new DatabaseError(`Failed to save message: ${error.message}`, error.code);
+    }
+    return;
+  }
+
+  const { error } = await supabase
+    .from('bookings')
+    .insert([{ ...entry.payload, idempotency_key: entry.id }]);
+
+  if (error && !isDuplicateKeyError(error, ['bookings_idempotency_key_key'])) {
+    throw new DatabaseError(`Failed to save booking: ${error.message}`, error.code);
+  }
+};
+
+// Old localStorage entries were saved either with bookings columns or with camelCase fields
+interface LegacyBooking extends Partial<BookingInsert>, Partial<Pick<MonthlySubscriptionInsert, 'monthly_rate' | 'months' | 'auto_renew'>> {
+  bookingType?: RentalType;
+  pricePerDay?: number;
+  totalPrice?: number;
+}
+
+const fromLegacyBooking = (saved: LegacyBooking): OutboxSubmission => {
+  const common = {
+    name: saved.name ?? '',
+    contact: saved.contact ?? '',
+    address: saved.address ?? '',
+    category: saved.category ?? '',
+    model: saved.model ?? '',
+    vehicle_id: saved.vehicle_id,
+    unit_id: saved.unit_id,
+    total_price: saved.total_price ?? saved.totalPrice ?? 0,
+    price_breakdown: saved.price_breakdown,
+    promo_code: saved.promo_code,
+    promo_discount: saved.promo_discount,
+    pickup_date: saved.pickup_date ?? '',
+    return_date: saved.return_date ?? ''
+  };
+
+  if (saved.bookingType === 'monthly') {
+    return {
+      kind: 'subscription',
+      payload: {
+        ...common,
+        monthly_rate: saved.monthly_rate ?? 0,
+        months: saved.months ?? 1,
+        auto_renew: saved.auto_renew,
+        status: 'pending'
+      }
+    };
+  }
+
+  return {
+    kind: 'booking',
+    payload: {
+      ...common,
+      rental_type: saved.rental_type ?? saved.bookingType ?? 'daily',
+      price_per_day: saved.price_per_day ?? saved.pricePerDay ?? 0,
+      price_per_hour: saved.price_per_hour,
+      days: saved.days,
+      hours: saved.hours,
+      weeks: saved.weeks,
+      base_amount: saved.base_amount,
+      discount_amount: saved.discount_amount,
+      status: 'pending',
+      pickup_date: saved.pickup_date,
+      pickup_time: saved.pickup_time,
+      return_date: saved.return_date,
+      return_time: saved.return_time
+    }
+  };
+};
+
+const migrateLegacyBookings = async () => {
+  const raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!raw) return;
+
+  const saved: LegacyBooking[] = JSON.parse(raw);
+  for (let index = 0; index < saved.length; index++) {
+    await enqueueSubmission(fromLegacyBooking(saved[index]));
+    // Drop each one as it's queued, so a migration interrupted halfway doesn't queue it twice
+    localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(saved.slice(index + 1)));
+  }
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  console.log(`✅ Moved ${saved.length} pending booking(s) from localStorage into the outbox`);
+};
+
+let flushing: Promise<number> | null = null;
+
+/**
+ * Sends every entry that is due (or all of them with `force`). Sent entries are
+ * removed; failed ones are rescheduled with exponential backoff, unless the
+ * database refused them outright, in which case they are marked refused and
+ * left for the listener to report. Resolves with the number of entries still queued.
+ */
+export const flushOutbox = (force = false): Promise<number> => {
+  if (!flushing) {
+    flushing = (async () => {
+      const entries = await getOutboxEntries();
+      const now = Date.now();
+
+      for (const entry of entries) {
+        if (entry.refusedAt || (!force && entry.nextAttemptAt > now)) continue;
+
+        try {
+          await deliver(entry);
+          await transact('readwrite', (store) => {
+            store.delete(entry.id);
+            return () => undefined;
+          });
+          console.log('✅ Outbox submission delivered:', entry.id);
+          notifyBookingCreated(entry);
+        } catch (error) {
+          const attempts = entry.attempts + 1;
+          const refused = error instanceof DatabaseError && isPermanentDatabaseError(error.code);
+          const updated: OutboxEntry = {
+            ...entry,
+            attempts,
+            nextAttemptAt: Date.now() + retryDelay(attempts),
+            lastError: error instanceof Error ? error.message : String(error),
+            refusedAt: refused ? new Date().toISOString() : undefined
+          };
+          await transact('readwrite', (store) => {
+            store.put(updated);
+            return () => undefined;
+          });
+          if (refused) {
+            console.error(`❌ Outbox submission ${entry.id} was refused and won't be retried:`, error);
+          } else {
+            console.warn(`❌ Outbox submission ${entry.id} failed (attempt ${attempts}):`, error);
+          }
+        }
+      }
+
+      await notify();
+      return (await getOutboxEntries()).filter(entry => !entry.refusedAt).length;
+    })().finally(() => {
+      flushing = null;
+      scheduleFlush();
+    });
+  }
+  return flushing;
+};
+
+let syncing = false;
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+// Wakes up when the earliest queued entry is due; only runs while sync is started
+const scheduleFlush = () => {
+  if (!syncing) return;
+
+  getOutboxEntries()
+    .then((allEntries) => {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      const entries = allEntries.filter(entry => !entry.refusedAt);
+      if (entries.length === 0 || !syncing) return;
+
+      const nextAttemptAt = Math.min(...entries.map(entry => entry.nextAttemptAt));
+      timer = setTimeout(() => {
+        timer = null;
+        if (navigator.onLine) void flushOutbox();
+      }, Math.max(nextAttemptAt - Date.now(), 0));
+    })
+    .catch(error => console.warn('Could not read the booking outbox:', error));
+};
+
+const handleOnline = () => {
+  console.log('Back online, retrying queued submissions...');
+  void flushOutbox(true).catch(error => console.warn('Outbox sync failed:', error));
+};
+
+/**
+ * Starts retrying queued submissions: once now, whenever the browser comes back
+ * online, and when the next backoff delay runs out. Returns a stop function.
+ */
+export const startOutboxSync = (): (() => void) => {
+  syncing = true;
+  window.addEventListener('online', handleOnline);
+
+  migrateLegacyBookings()
+    .catch(error => console.warn('Could not move pending bookings out of localStorage:', error))
+    .then(() => flushOutbox(true))
+    .catch(error => console.warn('Outbox sync failed:', error));
+
+  return () => {
+    syncing = false;
+    window.removeEventListener('online', handleOnline);
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+};
@@ -0,0 +1,235 @@
+import type { Vehicle, VehicleCategory } from './catalog';
+
+export type RentalType = 'hourly' | 'daily' | 'weekly' | 'monthly';
+
+// Subscription months are billed as a flat monthly rate; for duration rules they count as 30 days
+export const DAYS_PER_MONTH = 30;
+
+export interface PricingRule {
+  id: string;
+  label: string; // Shown as the discount line in the booking summary
+  kind: 'percentage' | 'flat';
+  value: number; // Percent off, or rupees off the whole rental
+  scope?: {
+    categories?: VehicleCategory[];
+    vehicleIds?: string[];
+    rentalTypes?: RentalType[];
+  };
+  minDays?: number; // Hourly rentals count as a fraction of a day
+  maxDays?: number;
+  validFrom?: string; // YYYY-MM-DD, compared against the pickup date
+  validUntil?: string;
+  // 'stackable' rules combine with each other; an 'exclusive' rule is only used on its own
+  stacking: 'stackable' | 'exclusive';
+  priority?: number; // Lower runs first when stacking
+  promoText?: string; // Site-wide banner wording
+  badge?: string; // Vehicle card wording
+}
+
+export interface PricingRequest {
+  vehicle: Pick<Vehicle, 'id' | 'category' | 'dailyRate' | 'hourlyRate' | 'monthlyRate'>;
+  rentalType: RentalType;
+  days: number; // Ignored for hourly and monthly rentals
+  hours?: number; // Hourly rentals only
+  months?: number; // Monthly rentals only
+  pickupDate?: string;
+}
+
+export interface AppliedDiscount {
+  ruleId: string; // Pricing rule ID, or `promo:<CODE>` for a coupon
+  label: string;
+  kind: PricingRule['kind'];
+  value: number;
+  amount: number; // Rupees taken off
+}
+
+export interface PriceBreakdown {
+  rentalType: RentalType;
+  unit: 'day' | 'hour' | 'month';
+  quantity: number; // Number of days, hours or months charged
+  rate: number; // Rupees per unit
+  days: number; // Rental length in days (fractional for hourly rentals, 30 per month)
+  baseAmount: number; // rate × quantity
+  discounts: AppliedDiscount[];
+  totalDiscount: number;
+  total: number;
+  promoCode?: string; // Coupon applied on top of the rules, if any
+}
+
+export interface Coupon {
+  code: string;
+  description: string | null;
+  kind: PricingRule['kind'];
+  value: number;
+}
+
+export const DEFAULT_PRICING_RULES: PricingRule[] = [
+  {
+    id: 'weekly-35',
+    label: 'Weekly discount (35%)',
+    kind: 'percentage',
+    value: 35,
+    scope: { rentalTypes: ['weekly'] },
+    stacking: 'exclusive',
+    promoText: '35% OFF on WEEKLY BOOKINGS'
+  },
+  {
+    id: 'pulsar-24h-10',
+    label: 'Pulsar 24-hour offer (10%)',
+    kind: 'percentage',
+    value: 10,
+    scope: {
+      vehicleIds: ['sb-bajaj-pulsar-150', 'sb-bajaj-pulsar-125'],
+      rentalTypes: ['daily']
+    },
+    minDays: 1,
+    maxDays: 1,
+    stacking: 'exclusive',
+    promoText: '10% OFF on Pulsar bikes',
+    badge: '10% OFF on 24-hour bookings'
+  }
+];
+
+// Whether the rule targets this vehicle and rental type, ignoring duration and dates
+export const ruleMatchesVehicle = (rule: PricingRule, vehicle: PricingRequest['vehicle'], rentalType?: RentalType): boolean => {
+  const { scope } = rule;
+  if (!scope) return true;
+  if (scope.categories && !scope.categories.includes(vehicle.category)) return false;
+  if (scope.vehicleIds && !scope.vehicleIds.includes(vehicle.id)) return false;
+  if (rentalType && scope.rentalTypes && !scope.rentalTypes.includes(rentalType)) return false;
+  return true;
+};
+
+const isWithinDates = (rule: PricingRule, date: string): boolean => {
+  if (rule.validFrom && date < rule.validFrom) return false;
+  if (rule.validUntil && date > rule.validUntil) return false;
+  return true;
+};
+
+const ruleApplies = (rule: PricingRule, request: PricingRequest, date: string): boolean =>
+  ruleMatchesVehicle(rule, request.vehicle, request.rentalType) &&
+  (rule.minDays === undefined || request.days >= rule.minDays) &&
+  (rule.maxDays === undefined || request.days <= rule.maxDays) &&
+  isWithinDates(rule, date);
+
+// Applies rules in order, each one working on what's left after the previous ones
+const applyRules = (rules: PricingRule[], baseAmount: number): AppliedDiscount[] => {
+  let remaining = baseAmount;
+
+  return rules.map((rule) => {
+    const raw = rule.kind === 'percentage' ? remaining * (rule.value / 100) : rule.value;
+    const amount = Math.min(Math.round(raw), remaining);
+    remaining -= amount;
+    return { ruleId: rule.id, label: rule.label, kind: rule.kind, value: rule.value, amount };
+  });
+};
+
+const sumDiscounts = (discounts: AppliedDiscount[]) => discounts.reduce((sum, discount) => sum + discount.amount, 0);
+
+// What the rental is charged in, and how long it is in days
+const rentalUnits = (request: PricingRequest): Pick<PriceBreakdown, 'unit' | 'quantity' | 'rate' | 'days'> => {
+  switch (request.rentalType) {
+    case 'hourly': {
+      const hours = request.hours || 0;
+      return { unit: 'hour', quantity: hours, rate: request.vehicle.hourlyRate, days: hours / 24 };
+    }
+    case 'monthly': {
+      const months = request.months || 0;
+      return { unit: 'month', quantity: months, rate: request.vehicle.monthlyRate, days: months * DAYS_PER_MONTH };
+    }
+    default:
+      return { unit: 'day', quantity: request.days, rate: request.vehicle.dailyRate, days: request.days };
+  }
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+/**
+ * Prices a rental against the rules. All stackable rules are applied together;
+ * each exclusive rule is tried on its own, and the cheapest outcome for the
+ * customer wins.
+ */
+export const quotePrice = (request: PricingRequest, rules: PricingRule[] = DEFAULT_PRICING_RULES): PriceBreakdown => {
+  const { unit, quantity, rate, days } = rentalUnits(request);
+  const baseAmount = rate * quantity;
+  const date = request.pickupDate || today();
+  const applicable = rules
+    .filter(rule => ruleApplies(rule, { ...request, days }, date))
+    .sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0));
+
+  const stackable = applicable.filter(rule => rule.stacking === 'stackable');
+  const candidates: AppliedDiscount[][] = [
+    applyRules(stackable, baseAmount),
+    ...applicable.filter(rule => rule.stacking === 'exclusive').map(rule => applyRules([rule], baseAmount))
+  ];
+
+  const discounts = candidates.reduce((best, candidate) =>
+    sumDiscounts(candidate) > sumDiscounts(best) ? candidate : best
+  ).filter(discount => discount.amount > 0);
+  const totalDiscount = sumDiscounts(discounts);
+
+  return {
+    rentalType: request.rentalType,
+    unit,
+    quantity,
+    rate,
+    days,
+    baseAmount,
+    discounts,
+    totalDiscount,
+    total: baseAmount - totalDiscount
+  };
+};
+
+// Effective discount as a whole percentage of the base amount
+export const discountPercent = (breakdown: PriceBreakdown): number =>
+  breakdown.baseAmount > 0 ? Math.round((breakdown.totalDiscount / breakdown.baseAmount) * 100) : 0;
+
+// Rules currently running, for banners; pass a category to narrow them
+export const getActivePromotions = (
+  category?: VehicleCategory,
+  rules: PricingRule[] = DEFAULT_PRICING_RULES,
+  date: string = today()
+): PricingRule[] =>
+  rules.filter(rule =>
+    !!rule.promoText &&
+    isWithinDates(rule, date) &&
+    (!category || !rule.scope?.categories || rule.scope.categories.includes(category))
+  );
+
+// Rules with card badges that can apply to this vehicle
+export const getVehicleBadges = (
+  vehicle: PricingRequest['vehicle'],
+  rules: PricingRule[] = DEFAULT_PRICING_RULES,
+  date: string = today()
+): PricingRule[] =>
+  rules.filter(rule => !!rule.badge && ruleMatchesVehicle(rule, vehicle) && isWithinDates(rule, date));
+
+// Applies a checkout coupon on top of the rule-based price as its own discount line
+export const applyCoupon = (breakdown: PriceBreakdown, coupon: Coupon): PriceBreakdown => {
+  const raw = coupon.kind === 'percentage' ? breakdown.total * (coupon.value / 100) : coupon.value;
+  const amount = Math.min(Math.round(raw), breakdown.total);
+  if (amount <= 0) return breakdown;
+
+  const discount: AppliedDiscount = {
+    ruleId: `promo:${coupon.code}`,
+    label: `Promo ${coupon.code}${coupon.kind === 'percentage' ? ` (${coupon.value}%)` : ''}`,
+    kind: coupon.kind,
+    value: coupon.value,
+    amount
+  };
+
+  return {
+    ...breakdown,
+    discounts: [...breakdown.discounts, discount],
+    totalDiscount: breakdown.totalDiscount + amount,
+    total: breakdown.total - amount,
+    promoCode: coupon.code
+  };
+};
+
+// Rupees taken off by the coupon alone
+export const couponDiscount = (breakdown: PriceBreakdown): number =>
+  breakdown.discounts
+    .filter(discount => discount.ruleId.startsWith('promo:'))
+    .reduce((sum, discount) => sum + discount.amount, 0);
@@ -0,0 +1,90 @@
+import { supabase } from './supabase';
+import type { VehicleCategory } from './catalog';
+import type { Coupon } from './pricing';
+
+export interface PromoCode extends Coupon {
+  applicable_categories: VehicleCategory[] | null; // null = every category
+  min_days: number | null;
+  valid_from: string | null;
+  expires_at: string | null;
+  max_uses: number | null;
+  max_uses_per_customer: number | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+export interface PromoCheckContext {
+  category: VehicleCategory;
+  days: number;
+}
+
+export type PromoValidation =
+  | { valid: true; promo: PromoCode }
+  | { valid: false; reason: string };
+
+export const normalizePromoCode = (code: string): string => code.trim().toUpperCase();
+
+// Counts bookings and subscriptions that used the code. Cancelled bookings don't
+// count; see count_promo_redemptions in the migrations.
+const countRedemptions = async (code: string): Promise<number> => {
+  const { data, error } = await supabase.rpc('count_promo_redemptions', { p_code: code });
+
+  if (error) {
+    throw new Error(`Failed to count promo redemptions: ${error.message}`);
+  }
+  return (data as number | null) || 0;
+};
+
+/**
+ * Validates a coupon against the promo_codes table and the booking it's being
+ * used for, so the form can show the discount. The database checks the code
+ * again when the booking is saved (apply_promo_code), along with the
+ * per-customer limit, which the public site can't look up.
+ */
+export const validatePromoCode = async (rawCode: string, context: PromoCheckContext): Promise<PromoValidation> => {
+  const code = normalizePromoCode(rawCode);
+  if (!code) {
+    return { valid: false, reason: 'Enter a promo code' };
+  }
+
+  const { data, error } = await supabase
+    .from('promo_codes')
+    .select('*')
+    .eq('code', code)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error looking up promo code:', error);
+    return { valid: false, reason: 'Could not check this code right now. Please try again.' };
+  }
+
+  const promo = data as PromoCode | null;
+  if (!promo || !promo.is_active) {
+    return { valid: false, reason: 'This promo code is not valid' };
+  }
+
+  const now = new Date();
+  if (promo.valid_from && new Date(promo.valid_from) > now) {
+    return { valid: false, reason: 'This promo code is not active yet' };
+  }
+  if (promo.expires_at && new Date(promo.expires_at) < now) {
+    return { valid: false, reason: 'This promo code has expired' };
+  }
+  if (promo.applicable_categories && !promo.applicable_categories.includes(context.category)) {
+    return { valid: false, reason: `This code can only be used for ${promo.applicable_categories.join(', ')}` };
+  }
+  if (promo.min_days && context.days < promo.min_days) {
+    return { valid: false, reason: `This code needs a rental of at least ${promo.min_days} days` };
+  }
+
+  try {
+    if (promo.max_uses !== null && (await countRedemptions(code)) >= promo.max_uses) {
+      return { valid: false, reason: 'This promo code has been fully redeemed' };
+    }
+  } catch (err) {
+    console.error('Error checking promo code usage:', err);
+    return { valid: false, reason: 'Could not check this code right now. Please try again.' };
+  }
+
+  return { valid: true, promo };
+};
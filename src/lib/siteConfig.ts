@@ -0,0 +1,119 @@
+import { supabase } from './supabase';
+
+export interface SiteConfig {
+  businessName: string;
+  phone: string; // As shown to customers, e.g. "+91 8827326825"
+  whatsappNumber: string; // Country code and number, digits only
+  whatsappGreeting: string; // Pre-filled first message
+  email: string;
+  address: string;
+  mapEmbedUrl: string | null; // Google Maps embed for the contact page
+  hoursLabel: string; // Days the office is open, e.g. "All days"
+  openingTime: string; // HH:MM, 24-hour
+  closingTime: string;
+  promoBanner: string | null; // Replaces the pricing-rule offers in the home page banner
+  googleScriptUrl: string | null; // Booking sheet webhook; skipped when not set
+}
+
+// Row key in the settings table for each field
+export const SETTING_KEYS: Record<keyof SiteConfig, string> = {
+  businessName: 'business_name',
+  phone: 'phone',
+  whatsappNumber: 'whatsapp_number',
+  whatsappGreeting: 'whatsapp_greeting',
+  email: 'email',
+  address: 'address',
+  mapEmbedUrl: 'map_embed_url',
+  hoursLabel: 'hours_label',
+  openingTime: 'opening_time',
+  closingTime: 'closing_time',
+  promoBanner: 'promo_banner',
+  googleScriptUrl: 'google_script_url'
+};
+
+const env = import.meta.env;
+
+// Empty env vars count as unset
+const fromEnv = (value: string | undefined): string | undefined => value?.trim() || undefined;
+
+/** Built from VITE_ environment variables, falling back to the original business details. */
+export const DEFAULT_SITE_CONFIG: SiteConfig = {
+  businessName: fromEnv(env.VITE_BUSINESS_NAME) ?? 'RideRental',
+  phone: fromEnv(env.VITE_CONTACT_PHONE) ?? '+91 8827326825',
+  whatsappNumber: fromEnv(env.VITE_WHATSAPP_NUMBER) ?? '918827326825',
+  whatsappGreeting: fromEnv(env.VITE_WHATSAPP_GREETING) ?? 'Hello, I would like to inquire about bike rentals.',
+  email: fromEnv(env.VITE_CONTACT_EMAIL) ?? 'riderental68@gmail.com',
+  address: fromEnv(env.VITE_BUSINESS_ADDRESS) ?? 'VIT Bhopal, Kothri Kalan, Sehore, Madhya Pradesh',
+  mapEmbedUrl: fromEnv(env.VITE_MAP_EMBED_URL) ?? 'https://www.google.com/maps/embed?pb=!1m18!1m12!1m3!1d3667.8661435195624!2d77.2342!3d23.2884!2m3!1f0!2f0!3f0!3m2!1i1024!2i768!4f13.1!3m3!1m2!1s0x397c42de6c4b7c85%3A0x5c4ab5b2b3b8b9c!2sVIT%20Bhopal%2C%20Kothri%20Kalan%2C%20Sehore%2C%20Madhya%20Pradesh!5e0!3m2!1sen!2sin!4v1629556234334!5m2!1sen!2sin',
+  hoursLabel: fromEnv(env.VITE_HOURS_LABEL) ?? 'All days',
+  openingTime: fromEnv(env.VITE_OPENING_TIME) ?? '09:00',
+  closingTime: fromEnv(env.VITE_CLOSING_TIME) ?? '21:00',
+  promoBanner: fromEnv(env.VITE_PROMO_BANNER) ?? null,
+  googleScriptUrl: fromEnv(env.VITE_GOOGLE_SCRIPT_URL) ?? null
+};
+
+const NULLABLE_FIELDS: (keyof SiteConfig)[] = ['mapEmbedUrl', 'promoBanner', 'googleScriptUrl'];
+
+// Overlay settings rows on the defaults; an empty value clears an optional field
+const applySettings = (base: SiteConfig, rows: { key: string; value: string }[]): SiteConfig => {
+  const config: SiteConfig = { ...base };
+  const values = new Map(rows.map(row => [row.key, row.value.trim()]));
+
+  (Object.keys(SETTING_KEYS) as (keyof SiteConfig)[]).forEach((field) => {
+    const value = values.get(SETTING_KEYS[field]);
+    if (value === undefined) return;
+    if (value) {
+      config[field] = value;
+    } else if (NULLABLE_FIELDS.includes(field)) {
+      (config as Record<keyof SiteConfig, string | null>)[field] = null;
+    }
+  });
+
+  return config;
+};
+
+// Function to fetch the settings table and merge it over the env defaults
+export const fetchSiteConfig = async (): Promise<SiteConfig> => {
+  const { data, error } = await supabase
+    .from('settings')
+    .select('key, value');
+
+  if (error) {
+    console.error('Error fetching settings from Supabase:', error);
+    throw new Error(`Failed to load settings: ${error.message}`);
+  }
+
+  return applySettings(DEFAULT_SITE_CONFIG, data as { key: string; value: string }[]);
+};
+
+// Shared so every component and the booking sinks use one settings request
+let configRequest: Promise<SiteConfig> | null = null;
+
+/** The site config, loaded once per page. A failed fetch falls back to the env defaults. */
+export const loadSiteConfig = (): Promise<SiteConfig> => {
+  if (!configRequest) {
+    configRequest = fetchSiteConfig().catch((error) => {
+      console.warn('Using default site config:', error);
+      configRequest = null; // Allow a retry on the next call
+      return DEFAULT_SITE_CONFIG;
+    });
+  }
+  return configRequest;
+};
+
+// "21:00" → "9:00 PM"
+export const formatTime = (time: string): string => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const suffix = hours >= 12 ? 'PM' : 'AM';
+  return `${hours % 12 || 12}:${String(minutes || 0).padStart(2, '0')} ${suffix}`;
+};
+
+// e.g. "All days: 9:00 AM - 9:00 PM"
+export const formatOpeningHours = (config: Pick<SiteConfig, 'hoursLabel' | 'openingTime' | 'closingTime'>): string =>
+  `${config.hoursLabel}: ${formatTime(config.openingTime)} - ${formatTime(config.closingTime)}`;
+
+export const getWhatsAppUrl = (config: Pick<SiteConfig, 'whatsappNumber' | 'whatsappGreeting'>, message: string = config.whatsappGreeting): string =>
+  `https://wa.me/${config.whatsappNumber.replace(/\D/g, '')}?text=${encodeURIComponent(message)}`;
+
+// For tel: links, which don't allow spaces
+export const getPhoneHref = (config: Pick<SiteConfig, 'phone'>): string => `tel:${config.phone.replace(/[^\d+]/g, '')}`;
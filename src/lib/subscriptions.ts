@@ -0,0 +1,280 @@
+import {
+  supabase,
+  DatabaseError,
+  isDuplicateKeyError,
+  type MonthlySubscription,
+  type MonthlySubscriptionInsert,
+  type SubscriptionInstalment,
+  type SubscriptionStatus,
+  type SubscriptionInstalmentInsert
+} from './supabase';
+
+export const MIN_SUBSCRIPTION_MONTHS = 1;
+export const MAX_SUBSCRIPTION_MONTHS = 12;
+
+// Auto-renewing subscriptions roll over unless cancelled this many days before the term ends
+export const RENEWAL_NOTICE_DAYS = 7;
+
+// Ending a subscription early costs this share of one monthly rate, on top of the month in progress
+export const EARLY_TERMINATION_FEE_PERCENT = 50;
+
+// The admin list is capped like the bookings list; filter by status to see older subscriptions
+export const SUBSCRIPTION_LIST_LIMIT = 200;
+
+// Badge colours for the admin list
+export const SUBSCRIPTION_STATUS_STYLES: Record<SubscriptionStatus, string> = {
+  pending: 'bg-yellow-900/40 text-yellow-300 border-yellow-700',
+  active: 'bg-blue-900/40 text-blue-300 border-blue-700',
+  completed: 'bg-green-900/40 text-green-300 border-green-700',
+  terminated: 'bg-orange-900/40 text-orange-300 border-orange-700',
+  cancelled: 'bg-red-900/40 text-red-300 border-red-700'
+};
+
+export type ScheduledInstalment = Omit<SubscriptionInstalmentInsert, 'subscription_id'>;
+
+export interface TerminationQuote {
+  lastDay: string; // The month in progress is always paid in full
+  cancelledInstalments: SubscriptionInstalment[];
+  fee: number;
+}
+
+const toDateString = (date: Date): string => date.toISOString().split('T')[0];
+
+// Same day of the month `months` later, clamped to the last day of shorter months
+export const addMonths = (date: string, months: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return toDateString(new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))));
+};
+
+const addDays = (date: string, days: number): string => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return toDateString(result);
+};
+
+/**
+ * One instalment per month, due on the monthly anniversary of the pickup date.
+ * Any rupees that don't split evenly are added to the first instalment.
+ */
+export const buildInstalmentSchedule = (
+  pickupDate: string,
+  months: number,
+  total: number,
+  firstNumber = 1
+): ScheduledInstalment[] => {
+  const base = Math.floor(total / months);
+  const remainder = total - base * months;
+
+  return Array.from({ length: months }, (_, index) => ({
+    instalment_number: firstNumber + index,
+    due_date: addMonths(pickupDate, firstNumber - 1 + index),
+    amount: index === 0 ? base + remainder : base,
+    status: 'pending'
+  }));
+};
+
+// Last day the customer can opt out of the next automatic renewal
+export const getRenewalDeadline = (subscription: Pick<MonthlySubscription, 'return_date'>): string =>
+  addDays(subscription.return_date, -RENEWAL_NOTICE_DAYS);
+
+// Past the opt-out deadline, an auto-renewing subscription is due its next month
+export const isRenewalDue = (
+  subscription: Pick<MonthlySubscription, 'status' | 'auto_renew' | 'return_date'>,
+  today: string = toDateString(new Date())
+): boolean =>
+  subscription.status === 'active' && subscription.auto_renew && today > getRenewalDeadline(subscription);
+
+/**
+ * What ending a subscription on `terminateOn` would cost. The current month runs
+ * to its end, later pending instalments are dropped and the termination fee is added.
+ */
+export const quoteEarlyTermination = (
+  subscription: Pick<MonthlySubscription, 'pickup_date' | 'return_date' | 'monthly_rate'>,
+  instalments: SubscriptionInstalment[],
+  terminateOn: string
+): TerminationQuote => {
+  let monthsUsed = 1;
+  while (addMonths(subscription.pickup_date, monthsUsed) <= terminateOn) {
+    monthsUsed += 1;
+  }
+  const lastDay = addMonths(subscription.pickup_date, monthsUsed);
+
+  const cancelledInstalments = instalments.filter(
+    instalment => instalment.status === 'pending' && instalment.due_date >= lastDay
+  );
+
+  // Nothing left to cancel means the subscription is ending on time anyway
+  const fee = cancelledInstalments.length > 0
+    ? Math.round(subscription.monthly_rate * (EARLY_TERMINATION_FEE_PERCENT / 100))
+    : 0;
+
+  return { lastDay: lastDay < subscription.return_date ? lastDay : subscription.return_date, cancelledInstalments, fee };
+};
+
+/**
+ * Function to create a subscription together with its instalment schedule.
+ * The idempotency key doubles as the subscription ID, so the schedule can be
+ * written without reading the row back (the public site can't read subscriptions).
+ * Repeating a submission with the same key leaves the first subscription in
+ * place and writes the schedule if that attempt missed it. Resolves with the ID;
+ * a subscription the database refuses is thrown as a DatabaseError with its code.
+ */
+export const createMonthlySubscription = async (
+  payload: MonthlySubscriptionInsert & { idempotency_key: string }
+): Promise<string> => {
+  const id = payload.idempotency_key;
+
+  const { error } = await supabase
+    .from('monthly_subscriptions')
+    .insert([{ ...payload, id }]);
+
+  if (error && !isDuplicateKeyError(error, ['monthly_subscriptions_pkey', 'monthly_subscriptions_idempotency_key_key'])) {
+    throw new DatabaseError(`Failed to create subscription: ${error.message}`, error.code);
+  }
+
+  const instalments: SubscriptionInstalmentInsert[] = buildInstalmentSchedule(
+    payload.pickup_date,
+    payload.months,
+    payload.total_price
+  ).map(instalment => ({ ...instalment, subscription_id: id }));
+
+  // The schedule is one insert, so it is either all there from an earlier attempt or not at all
+  const { error: instalmentError } = await supabase
+    .from('subscription_instalments')
+    .insert(instalments);
+
+  if (instalmentError && !isDuplicateKeyError(instalmentError, ['subscription_instalments_subscription_id_instalment_number_key'])) {
+    // The subscription is still recorded; staff can rebuild the schedule from it
+    console.error('Error creating instalments for subscription', id, instalmentError);
+    throw new Error(`Failed to create subscription instalments: ${instalmentError.message}`);
+  }
+
+  return id;
+};
+
+// Function to fetch subscriptions for the admin list, newest first
+export const fetchSubscriptions = async (status?: SubscriptionStatus): Promise<MonthlySubscription[]> => {
+  let query = supabase
+    .from('monthly_subscriptions')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(SUBSCRIPTION_LIST_LIMIT);
+
+  if (status) query = query.eq('status', status);
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load subscriptions: ${error.message}`);
+  }
+
+  return data as MonthlySubscription[];
+};
+
+// Function to start a subscription once the rider has collected the vehicle
+export const activateSubscription = async (subscription: MonthlySubscription): Promise<MonthlySubscription> => {
+  if (subscription.status !== 'pending') {
+    throw new Error(`A ${subscription.status} subscription can't be activated`);
+  }
+
+  const { data, error } = await supabase
+    .from('monthly_subscriptions')
+    .update({ status: 'active' })
+    .eq('id', subscription.id)
+    .eq('status', 'pending')
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to activate subscription: ${error.message}`);
+  }
+
+  return data as MonthlySubscription;
+};
+
+// Function to fetch a subscription's instalments in due-date order
+export const fetchInstalments = async (subscriptionId: string): Promise<SubscriptionInstalment[]> => {
+  const { data, error } = await supabase
+    .from('subscription_instalments')
+    .select('*')
+    .eq('subscription_id', subscriptionId)
+    .order('instalment_number');
+
+  if (error) {
+    throw new Error(`Failed to load instalments: ${error.message}`);
+  }
+
+  return data as SubscriptionInstalment[];
+};
+
+// Function to extend a subscription by one month at the monthly rate. Only the
+// term the dashboard showed is extended, so a double click renews once.
+export const renewSubscription = async (subscription: MonthlySubscription): Promise<MonthlySubscription> => {
+  if (!subscription.auto_renew || subscription.status !== 'active') {
+    throw new Error('Only active auto-renewing subscriptions can be renewed');
+  }
+
+  const [next] = buildInstalmentSchedule(
+    subscription.pickup_date,
+    1,
+    subscription.monthly_rate,
+    subscription.months + 1
+  );
+
+  const { data, error } = await supabase
+    .from('monthly_subscriptions')
+    .update({
+      months: subscription.months + 1,
+      total_price: subscription.total_price + subscription.monthly_rate,
+      return_date: addMonths(subscription.pickup_date, subscription.months + 1)
+    })
+    .eq('id', subscription.id)
+    .eq('status', 'active')
+    .eq('months', subscription.months)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to renew subscription: ${error.message}`);
+  }
+
+  // Already renewed by an earlier click, so its instalment is already there
+  if (!data) return subscription;
+
+  const { error: instalmentError } = await supabase
+    .from('subscription_instalments')
+    .insert([{ ...next, subscription_id: subscription.id }]);
+
+  if (instalmentError) {
+    throw new Error(`Failed to add renewal instalment: ${instalmentError.message}`);
+  }
+
+  return data as MonthlySubscription;
+};
+
+// Function to end an active subscription early, cancelling the instalments it no longer owes.
+// Both changes are made by one RPC, so they succeed or fail together.
+export const terminateSubscription = async (
+  subscription: MonthlySubscription,
+  terminateOn: string = toDateString(new Date())
+): Promise<TerminationQuote> => {
+  if (subscription.status !== 'active') {
+    throw new Error(`A ${subscription.status} subscription can't be ended early`);
+  }
+
+  const quote = quoteEarlyTermination(subscription, await fetchInstalments(subscription.id), terminateOn);
+
+  const { error } = await supabase.rpc('terminate_subscription', {
+    p_subscription_id: subscription.id,
+    p_last_day: quote.lastDay,
+    p_fee: quote.fee,
+    p_cancelled_instalment_ids: quote.cancelledInstalments.map(instalment => instalment.id)
+  });
+
+  if (error) {
+    throw new Error(`Failed to terminate subscription: ${error.message}`);
+  }
+
+  return quote;
+};
@@ -1,4 +1,7 @@
 import { createClient } from '@supabase/supabase-js';
+import { CATEGORIES, VEHICLES, type Vehicle, type VehicleCategory } from './catalog';
+import type { PriceBreakdown, RentalType } from './pricing';
+import type { NotificationLanguage } from './notificationTemplates';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -9,7 +12,57 @@ if (!supabaseUrl || !supabaseAnonKey) {
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
+/**
+ * Public writes are plain inserts: the site can't read bookings, subscriptions
+ * or messages, and an upsert's ON CONFLICT check needs read access. A retry of
+ * a row that was already saved is refused by its unique key instead, so that
+ * refusal means the first attempt got through. Only the keys the retry reuses
+ * count: a clash on any other unique column (a booking reference, say) means
+ * the row was never stored.
+ */
+export const isDuplicateKeyError = (
+  error: { code?: string; message?: string; details?: string },
+  constraints: string[]
+): boolean =>
+  error.code === '23505' &&
+  constraints.some(constraint => `${error.message} ${error.details}`.includes(`"${constraint}"`));
+
+// Postgres data exceptions (22xxx) and constraint violations (23xxx) won't go away on a retry
+export const isPermanentDatabaseError = (code: string | undefined): boolean =>
+  !!code && (code.startsWith('22') || code.startsWith('23'));
+
+// A failed write that keeps the Postgres error code, so callers can tell a refusal from an outage
+export class DatabaseError extends Error {
+  code: string | undefined;
+
+  constructor(message: string, code: string | undefined) {
+    super(message);
+    this.name = 'DatabaseError';
+    this.code = code;
+  }
+}
+
 // Database types
+
+// Every booking lives in the bookings table; rental_type says how it was priced.
+// Monthly subscriptions have their own table (see MonthlySubscription).
+export type BookingRentalType = Exclude<RentalType, 'monthly'>;
+
+// The booking_status enum in the database
+export type BookingStatus = 'pending' | 'confirmed' | 'ongoing' | 'completed' | 'cancelled';
+
+export const BOOKING_STATUSES: BookingStatus[] = ['pending', 'confirmed', 'ongoing', 'completed', 'cancelled'];
+
+// Where each status can go next; completed and cancelled are final.
+// The database enforces the same moves (booking_status_transition_allowed).
+export const STATUS_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['ongoing', 'cancelled'],
+  ongoing: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: []
+};
+
 export interface Booking {
   id: string;
   name: string;
@@ -17,15 +70,30 @@ export interface Booking {
   address: string;
   category: string;
   model: string;
+  vehicle_id: string | null; // Catalog vehicle ID
+  unit_id: string | null; // Physical unit the booking is assigned to
+  rental_type: BookingRentalType;
   price_per_day: number;
-  days?: number; // Made optional to match the updated table structure
-  total_price?: number; // Made optional to match the updated table structure
-  status: string;
-  rental_type?: string; // Added rental_type field
-  pickup_date?: string;
-  return_date?: string;
-  pickup_time?: string;
-  return_time?: string;
+  price_per_hour: number | null; // Hourly rentals only
+  days: number | null; // Whole days; weeks × 7 for weekly rentals, 0 for hourly
+  hours: number | null; // Hourly rentals only
+  weeks: number | null; // Weekly rentals only
+  base_amount: number | null; // Before discounts; null on rows older than the unified schema
+  discount_amount: number; // Pricing rules and promo code together
+  total_price: number;
+  price_breakdown: PriceBreakdown | null; // Itemized quote from the pricing rules
+  promo_code: string | null;
+  promo_discount: number; // Rupees taken off by the promo code
+  status: BookingStatus;
+  legacy_status: string | null; // Free-text status from before the enum, e.g. 'test'
+  pickup_date: string | null;
+  pickup_time: string | null;
+  return_date: string | null;
+  return_time: string | null;
+  idempotency_key: string | null; // Client-generated; repeats of the same submission are ignored
+  customer_id: string | null; // Signed-in customer who booked; null for guest bookings
+  reference: string; // Short code the customer quotes, e.g. RR-7K3M9QXD
+  notification_language: NotificationLanguage; // Language of the customer's booking updates
   created_at: string;
   updated_at: string;
 }
@@ -36,122 +104,345 @@ export interface BookingInsert {
   address: string;
   category: string;
   model: string;
+  vehicle_id?: string | null; // Catalog vehicle ID
+  unit_id?: string | null; // Physical unit the booking is assigned to
+  rental_type?: BookingRentalType; // Defaults to 'daily'
   price_per_day: number;
-  days?: number; // Made optional to match the updated table structure
-  total_price?: number; // Made optional to match the updated table structure
-  status?: string;
-  rental_type?: string; // Added rental_type field
+  price_per_hour?: number; // Hourly rentals only
+  days?: number;
+  hours?: number; // Hourly rentals only
+  weeks?: number; // Weekly rentals only
+  base_amount?: number;
+  discount_amount?: number;
+  total_price?: number;
+  price_breakdown?: PriceBreakdown | null; // Itemized quote from the pricing rules
+  promo_code?: string | null;
+  promo_discount?: number; // Rupees taken off by the promo code
+  status?: BookingStatus;
   pickup_date?: string;
-  return_date?: string;
   pickup_time?: string;
+  return_date?: string;
   return_time?: string;
+  idempotency_key?: string;
+  reference?: string; // Filled in by the database when left out
+  notification_language?: NotificationLanguage; // Defaults to 'en'
 }
 
-export interface WeeklyBooking {
+export type SubscriptionStatus = 'pending' | 'active' | 'completed' | 'terminated' | 'cancelled';
+
+export const SUBSCRIPTION_STATUSES: SubscriptionStatus[] = ['pending', 'active', 'completed', 'terminated', 'cancelled'];
+
+export interface MonthlySubscription {
   id: string;
   name: string;
   contact: string;
   address: string;
   category: string;
   model: string;
-  price_per_day: number;
-  weeks: number;
-  total_weeks_price: number;
-  weekly_discount_percent: number;
-  original_price: number;
-  savings: number;
-  status: string;
-  pickup_date?: string;
-  return_date?: string;
+  vehicle_id: string | null;
+  unit_id: string | null;
+  monthly_rate: number;
+  months: number; // Current term, grows by one on each renewal
+  total_price: number;
+  price_breakdown: PriceBreakdown | null; // Itemized quote from the pricing rules
+  promo_code: string | null;
+  promo_discount: number; // Rupees taken off by the promo code
+  auto_renew: boolean;
+  status: SubscriptionStatus;
+  pickup_date: string;
+  return_date: string; // End of the current term
+  terminated_at: string | null;
+  termination_fee: number;
+  idempotency_key: string | null; // Client-generated; repeats of the same submission are ignored
+  customer_id: string | null; // Signed-in customer who booked; null for guest bookings
+  reference: string; // Short code the customer quotes, e.g. RR-7K3M9QXD
+  notification_language: NotificationLanguage; // Language of the customer's booking updates
   created_at: string;
   updated_at: string;
 }
 
-export interface WeeklyBookingInsert {
+export interface MonthlySubscriptionInsert {
   name: string;
   contact: string;
   address: string;
   category: string;
   model: string;
-  price_per_day: number;
-  weeks: number;
-  total_weeks_price: number;
-  weekly_discount_percent?: number;
-  original_price: number;
-  savings: number;
-  status?: string;
-  pickup_date?: string;
-  return_date?: string;
+  vehicle_id?: string | null;
+  unit_id?: string | null;
+  monthly_rate: number;
+  months: number;
+  total_price: number;
+  price_breakdown?: PriceBreakdown | null; // Itemized quote from the pricing rules
+  promo_code?: string | null;
+  promo_discount?: number; // Rupees taken off by the promo code
+  auto_renew?: boolean;
+  status?: SubscriptionStatus;
+  pickup_date: string;
+  return_date: string;
+  idempotency_key?: string;
+  reference?: string; // Filled in by the database when left out
+  notification_language?: NotificationLanguage; // Defaults to 'en'
+}
+
+export type InstalmentStatus = 'pending' | 'paid' | 'cancelled';
+
+export interface SubscriptionInstalment {
+  id: string;
+  subscription_id: string;
+  instalment_number: number; // 1-based, in due-date order
+  due_date: string;
+  amount: number;
+  status: InstalmentStatus;
+  paid_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SubscriptionInstalmentInsert {
+  subscription_id: string;
+  instalment_number: number;
+  due_date: string;
+  amount: number;
+  status?: InstalmentStatus;
+}
+
+export interface VehicleRow {
+  id: string;
+  slug: string;
+  name: string;
+  category: VehicleCategory;
+  daily_rate: number;
+  hourly_rate: number;
+  min_hours: number;
+  monthly_rate: number;
+  image_url: string | null;
+  engine: string;
+  power: string;
+  mileage: string;
+  spec_type: string;
+  is_active: boolean;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type VehicleUnitStatus = 'active' | 'maintenance' | 'retired';
+
+export interface VehicleUnit {
+  id: string;
+  vehicle_id: string;
+  registration_number: string;
+  colour: string | null;
+  odometer_km: number;
+  status: VehicleUnitStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+// owner: everything, including deletes and configuration; counter: day-to-day bookings
+export type StaffRole = 'owner' | 'counter';
+
+export interface StaffMember {
+  user_id: string; // Supabase Auth user ID
+  name: string;
+  role: StaffRole;
+  created_at: string;
+  updated_at: string;
 }
 
+export interface Customer {
+  id: string; // Supabase Auth user ID
+  name: string;
+  contact: string;
+  address: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// One extension of a booking's return time, priced as its own line item
+export interface BookingExtension {
+  id: string;
+  booking_id: string;
+  previous_return_date: string;
+  previous_return_time: string | null;
+  new_return_date: string;
+  new_return_time: string | null;
+  extra_days: number;
+  extra_hours: number;
+  amount: number;
+  price_breakdown: PriceBreakdown | null;
+  requested_by: 'customer' | 'staff';
+  actor_id: string | null;
+  created_at: string;
+}
+
+export type BookingEventAction = 'created' | 'status_changed' | 'date_change_requested' | 'extended';
+
+// One entry in a booking's timeline: who changed what, and when
+export interface BookingEvent {
+  id: string;
+  booking_source: 'bookings' | 'monthly_subscriptions';
+  booking_id: string;
+  action: BookingEventAction;
+  actor: 'customer' | 'staff' | 'system';
+  actor_id: string | null; // Supabase Auth user, when the actor was signed in
+  old_values: Record<string, unknown> | null;
+  new_values: Record<string, unknown> | null;
+  note: string | null;
+  created_at: string;
+}
+
+// 'new' messages count as unread in the admin inbox
+export type ContactStatus = 'new' | 'read' | 'replied' | 'closed';
+
+export const CONTACT_STATUSES: ContactStatus[] = ['new', 'read', 'replied', 'closed'];
+
+// Matches the contacts table (migrations/0004_contacts.sql, 0018_contact_inbox.sql)
 export interface ContactMessage {
-  id?: string;
+  id: string;
   name: string;
   email: string;
-  phone?: string;
+  phone: string | null;
   subject: string;
   message: string;
-  created_at?: string;
+  status: ContactStatus;
+  assigned_to: string | null; // staff.user_id
+  booking_id: string | null;
+  customer_id: string | null;
+  created_at: string;
+  updated_at: string;
 }
 
-// Function to create a contact message in Supabase
-export const createContactMessage = async (contactData: {
+// An internal staff note on a contact message; never shown to the sender
+export interface ContactNote {
+  id: string;
+  contact_id: string;
+  author_id: string | null; // staff.user_id; null once the author is removed from staff
+  body: string;
+  created_at: string;
+}
+
+export interface ContactInsert {
   name: string;
   email: string;
-  phone?: string;
+  phone?: string | null;
   subject: string;
   message: string;
-}): Promise<void> => {
-  console.log('Creating contact message in Supabase:', contactData);
-  
-  try {
-    // First try to use the dedicated contacts table
-    const { error: contactsError } = await supabase
-      .from('contacts')
-      .insert([{
-        name: contactData.name,
-        email: contactData.email,
-        phone: contactData.phone || null,
-        subject: contactData.subject,
-        message: contactData.message,
-        status: 'new'
-      }]);
-      
-    if (!contactsError) {
-      console.log('Contact message saved successfully to contacts table!');
-      return;
-    }
-    
-    console.log('Contacts table not available, falling back to bookings table:', contactsError);
-    
-    // Fallback: Convert contact form data to booking structure
-    const bookingData = {
-      name: contactData.name,
-      contact: contactData.phone || contactData.email,
-      address: contactData.message.substring(0, 255), // Truncate if too long
-      category: 'Contact Form',
-      model: contactData.subject,
-      price_per_day: 0,
-      days: 1,
-      total_price: 0,
-      rental_type: 'contact',
-      status: `CONTACT: ${contactData.email}`
-    };
-    
-    console.log('Saving contact as booking:', bookingData);
-    
-    const { error } = await supabase
-      .from('bookings')
-      .insert([bookingData]);
-      
-    if (error) {
-      console.error('Error inserting into bookings table:', error);
-      throw new Error(`Failed to save message: ${error.message}`);
+}
+
+// Map a vehicles row onto the catalog shape, reusing the bundled image when the row has none
+const vehicleFromRow = (row: VehicleRow): Vehicle => {
+  const bundled = VEHICLES.find(vehicle => vehicle.id === row.id);
+  const categoryImage = CATEGORIES.find(info => info.category === row.category)?.image ?? '';
+
+  return {
+    id: row.id,
+    slug: row.slug,
+    name: row.name,
+    category: row.category,
+    image: row.image_url || bundled?.image || categoryImage,
+    dailyRate: Number(row.daily_rate),
+    hourlyRate: Number(row.hourly_rate),
+    minHours: row.min_hours,
+    monthlyRate: Number(row.monthly_rate),
+    specs: {
+      engine: row.engine,
+      power: row.power,
+      mileage: row.mileage,
+      type: row.spec_type
     }
-    
-    console.log('Contact message saved successfully as booking!');
-  } catch (err: any) {
-    console.error('Unexpected error in createContactMessage:', err);
-    throw err; // Re-throw to be caught by the component
+  };
+};
+
+// Function to fetch the active fleet from the vehicles table
+export const fetchVehicles = async (): Promise<Vehicle[]> => {
+  const { data, error } = await supabase
+    .from('vehicles')
+    .select('*')
+    .eq('is_active', true)
+    .order('category')
+    .order('sort_order');
+
+  if (error) {
+    console.error('Error fetching vehicles from Supabase:', error);
+    throw new Error(`Failed to load vehicles: ${error.message}`);
   }
-}
\ No newline at end of file
+
+  return (data as VehicleRow[]).map(vehicleFromRow);
+};
+
+// Function to fetch the rentable units for the given catalog vehicles
+export const fetchVehicleUnits = async (vehicleIds: string[]): Promise<VehicleUnit[]> => {
+  if (vehicleIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('vehicle_units')
+    .select('*')
+    .in('vehicle_id', vehicleIds)
+    .eq('status', 'active')
+    .order('registration_number');
+
+  if (error) {
+    console.error('Error fetching vehicle units from Supabase:', error);
+    throw new Error(`Failed to load vehicle units: ${error.message}`);
+  }
+
+  return data as VehicleUnit[];
+};
+
+export const isBookingStatus = (status: string): status is BookingStatus =>
+  (BOOKING_STATUSES as string[]).includes(status);
+
+// Statuses this booking can move to next
+export const getNextStatuses = (status: BookingStatus): BookingStatus[] => STATUS_TRANSITIONS[status] || [];
+
+export const canTransition = (from: BookingStatus, to: BookingStatus): boolean =>
+  getNextStatuses(from).includes(to);
+
+/**
+ * Moves a booking to its next status, refusing moves the workflow doesn't allow.
+ * Only succeeds if nobody else changed the status in the meantime. The change and
+ * the optional note land in the booking's timeline.
+ */
+export const updateBookingStatus = async (booking: Booking, status: BookingStatus, note?: string): Promise<Booking> => {
+  if (!canTransition(booking.status, status)) {
+    throw new Error(`A ${booking.status} booking can't be marked ${status}`);
+  }
+
+  const { data, error } = await supabase.rpc('transition_booking_status', {
+    p_booking_id: booking.id,
+    p_from: booking.status,
+    p_to: status,
+    p_note: note || null
+  });
+
+  if (error) {
+    throw new Error(`Failed to update booking status: ${error.message}`);
+  }
+
+  const [updated] = (data || []) as Booking[];
+  if (!updated) {
+    throw new Error('This booking was changed by someone else. Refresh and try again.');
+  }
+
+  return updated;
+};
+
+// Function to fetch a booking's timeline, oldest first
+export const fetchBookingEvents = async (
+  bookingId: string,
+  source: BookingEvent['booking_source'] = 'bookings'
+): Promise<BookingEvent[]> => {
+  const { data, error } = await supabase
+    .from('booking_events')
+    .select('*')
+    .eq('booking_source', source)
+    .eq('booking_id', bookingId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load booking timeline: ${error.message}`);
+  }
+
+  return data as BookingEvent[];
+};
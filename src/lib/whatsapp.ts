@@ -0,0 +1,57 @@
+import { getWhatsAppUrl, type SiteConfig } from './siteConfig';
+
+// What we know about the rental when the customer taps through to WhatsApp.
+// A card has only the vehicle; the thank-you step has the whole booking.
+export interface WhatsAppBookingDetails {
+  model: string;
+  rentalType?: string; // 'hourly', 'daily', 'weekly' or 'monthly'
+  duration?: string; // e.g. "3 days"
+  pickupDate?: string | null; // YYYY-MM-DD
+  pickupTime?: string | null; // HH:MM
+  returnDate?: string | null;
+  returnTime?: string | null;
+  total?: number | null;
+  rate?: string; // Shown when there is no total yet, e.g. "₹499/day"
+  reference?: string | null;
+}
+
+const RENTAL_TYPE_LABELS: Record<string, string> = {
+  hourly: 'Hourly rental',
+  daily: 'Daily rental',
+  weekly: 'Weekly rental',
+  monthly: 'Monthly subscription'
+};
+
+const formatWhen = (date: string, time?: string | null): string => {
+  const day = new Date(`${date}T00:00`).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+  return time ? `${day}, ${time.slice(0, 5)}` : day;
+};
+
+// One detail per line, so staff can read the booking at a glance
+export const buildBookingWhatsAppMessage = (details: WhatsAppBookingDetails): string => {
+  const lines = [
+    details.reference
+      ? `Hello, I've just booked the ${details.model} and would like to confirm it.`
+      : `Hello, I would like to book the ${details.model}.`
+  ];
+
+  if (details.reference) lines.push(`Booking reference: ${details.reference}`);
+  if (details.rentalType) {
+    const label = RENTAL_TYPE_LABELS[details.rentalType] ?? details.rentalType;
+    lines.push(`Rental: ${details.duration ? `${label}, ${details.duration}` : label}`);
+  }
+  if (details.pickupDate) lines.push(`Pickup: ${formatWhen(details.pickupDate, details.pickupTime)}`);
+  if (details.returnDate) lines.push(`Return: ${formatWhen(details.returnDate, details.returnTime)}`);
+  if (details.total !== undefined && details.total !== null) {
+    lines.push(`Total: ₹${details.total.toLocaleString('en-IN')}`);
+  } else if (details.rate) {
+    lines.push(`Rate: ${details.rate}`);
+  }
+
+  return lines.join('\n');
+};
+
+export const getBookingWhatsAppUrl = (
+  config: Pick<SiteConfig, 'whatsappNumber' | 'whatsappGreeting'>,
+  details: WhatsAppBookingDetails
+): string => getWhatsAppUrl(config, buildBookingWhatsAppMessage(details));
@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, RefreshCw, Search } from 'lucide-react';
+import { CONTACT_STATUSES, type ContactMessage, type StaffMember } from '../lib/supabase';
+import { fetchStaffMembers } from '../lib/auth';
+import {
+  CONTACT_LIST_LIMIT,
+  CONTACT_STATUS_LABELS,
+  CONTACT_STATUS_STYLES,
+  fetchContactMessages,
+  updateContactMessage,
+  type ContactFilters,
+  type ContactUpdate
+} from '../lib/contacts';
+import AdminNav from '../components/AdminNav';
+import ContactMessagePanel from '../components/ContactMessagePanel';
+
+const inputClass = 'w-full p-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm placeholder-gray-400 focus:border-yellow-400 focus:ring-1 focus:ring-yellow-400 transition-colors';
+
+const ContactInbox: React.FC = () => {
+  const [filters, setFilters] = useState<ContactFilters>({});
+  const [searchInput, setSearchInput] = useState('');
+  const [messages, setMessages] = useState<ContactMessage[]>([]);
+  const [staffMembers, setStaffMembers] = useState<StaffMember[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters(prev => ({ ...prev, search: searchInput || undefined }));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError('');
+
+    fetchContactMessages(filters)
+      .then((rows) => {
+        if (!cancelled) setMessages(rows);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load messages');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, reloadCount]);
+
+  useEffect(() => {
+    fetchStaffMembers()
+      .then(setStaffMembers)
+      .catch((err) => console.error('Error loading staff:', err));
+  }, []);
+
+  const saveChanges = async (message: ContactMessage, changes: ContactUpdate) => {
+    setIsUpdating(true);
+    try {
+      const updated = await updateContactMessage(message.id, changes);
+      setMessages(prev => prev.map(row => (row.id === updated.id ? updated : row)));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update message');
+      setReloadCount(count => count + 1);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  // Opening an unread message marks it read
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    const message = messages.find(row => row.id === id);
+    // An earlier message from the sender may be hidden by the filters
+    if (!message) {
+      setSearchInput('');
+      setFilters({});
+      return;
+    }
+    if (message.status === 'new') {
+      void saveChanges(message, { status: 'read' });
+    }
+  };
+
+  const setFilter = (field: keyof ContactFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [field]: value || undefined }));
+  };
+
+  const selected = messages.find(message => message.id === selectedId) || null;
+  const staffName = (userId: string | null) => staffMembers.find(member => member.user_id === userId)?.name;
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h1 className="text-3xl font-bold text-white">Inbox</h1>
+        <button
+          onClick={() => setReloadCount(count => count + 1)}
+          className="flex items-center px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors text-sm"
+        >
+          <RefreshCw className="h-4 w-4 mr-2" /> Refresh
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-gray-800 border border-gray-700 rounded-2xl p-4 mb-6 grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="col-span-2 relative">
+          <Search className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+          <input
+            type="search"
+            value={searchInput}
+            onChange={e => setSearchInput(e.target.value)}
+            className={`${inputClass} pl-9`}
+            placeholder="Search name, email, phone or subject"
+            aria-label="Search name, email, phone or subject"
+          />
+        </div>
+        <select value={filters.status || ''} onChange={e => setFilter('status', e.target.value)} className={inputClass} aria-label="Status">
+          <option value="">All statuses</option>
+          {CONTACT_STATUSES.map(status => <option key={status} value={status}>{CONTACT_STATUS_LABELS[status]}</option>)}
+        </select>
+        <select value={filters.assignedTo || ''} onChange={e => setFilter('assignedTo', e.target.value)} className={inputClass} aria-label="Assigned to">
+          <option value="">Anyone</option>
+          <option value="unassigned">Unassigned</option>
+          {staffMembers.map(member => <option key={member.user_id} value={member.user_id}>{member.name}</option>)}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className={`${selected ? 'lg:col-span-2' : 'lg:col-span-3'} bg-gray-800 border border-gray-700 rounded-2xl overflow-x-auto`}>
+          {isLoading ? (
+            <div className="p-12 flex justify-center">
+              <Loader2 className="h-8 w-8 text-yellow-400 animate-spin" />
+            </div>
+          ) : error ? (
+            <p className="p-6 text-red-400">{error}</p>
+          ) : messages.length === 0 ? (
+            <p className="p-6 text-gray-400">No messages match these filters.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="text-left text-gray-400 border-b border-gray-700">
+                <tr>
+                  <th className="p-3 font-medium">From</th>
+                  <th className="p-3 font-medium">Subject</th>
+                  <th className="p-3 font-medium">Received</th>
+                  <th className="p-3 font-medium">Assigned to</th>
+                  <th className="p-3 font-medium">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {messages.map(message => (
+                  <tr
+                    key={message.id}
+                    onClick={() => handleSelect(message.id)}
+                    className={`border-b border-gray-700 cursor-pointer transition-colors ${message.id === selectedId ? 'bg-gray-700' : 'hover:bg-gray-700/50'}`}
+                  >
+                    <td className="p-3">
+                      <div className={message.status === 'new' ? 'text-white font-semibold' : 'text-white'}>{message.name}</div>
+                      <div className="text-gray-400 text-xs">{message.email}</div>
+                    </td>
+                    <td className="p-3 text-gray-300">{message.subject}</td>
+                    <td className="p-3 text-gray-300">{new Date(message.created_at).toLocaleDateString('en-IN')}</td>
+                    <td className="p-3 text-gray-300">{staffName(message.assigned_to) || '—'}</td>
+                    <td className="p-3">
+                      <span className={`px-2 py-1 text-xs font-medium rounded border ${CONTACT_STATUS_STYLES[message.status]}`}>
+                        {CONTACT_STATUS_LABELS[message.status]}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {messages.length === CONTACT_LIST_LIMIT && (
+            <p className="p-3 text-xs text-gray-500">Showing the latest {CONTACT_LIST_LIMIT} messages. Narrow the filters to see older ones.</p>
+          )}
+        </div>
+
+        {selected && (
+          <ContactMessagePanel
+            message={selected}
+            staffMembers={staffMembers}
+            isUpdating={isUpdating}
+            onClose={() => setSelectedId(null)}
+            onUpdate={saveChanges}
+            onSelect={handleSelect}
+          />
+        )}
+      </div>
+    </>
+  );
+};
+
+// Wrapped in <RequireStaff> by the router, so a staff member is always signed in here
+const AdminInboxPage: React.FC = () => (
+  <div className="min-h-screen bg-gray-900 pt-12 pb-16">
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      <AdminNav />
+      <ContactInbox />
+    </div>
+  </div>
+);
+
+export default AdminInboxPage;
@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, RefreshCw, Search } from 'lucide-react';
+import { BOOKING_STATUSES, updateBookingStatus, type Booking, type BookingRentalType, type BookingStatus } from '../lib/supabase';
+import { CATEGORIES } from '../lib/catalog';
+import { BOOKING_LIST_LIMIT, fetchBookings, getStatusStyle, type BookingFilters } from '../lib/bookings';
+import { notifyBooking } from '../lib/notifications';
+import { useVehicles } from '../hooks/useVehicles';
+import BookingDetailsPanel from '../components/BookingDetailsPanel';
+import AdminNav from '../components/AdminNav';
+
+const inputClass = 'w-full p-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm placeholder-gray-400 focus:border-yellow-400 focus:ring-1 focus:ring-yellow-400 transition-colors';
+
+const RENTAL_TYPES: BookingRentalType[] = ['hourly', 'daily', 'weekly'];
+
+const BookingsDashboard: React.FC = () => {
+  const { vehicles } = useVehicles();
+  const [filters, setFilters] = useState<BookingFilters>({});
+  const [searchInput, setSearchInput] = useState('');
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters(prev => ({ ...prev, search: searchInput || undefined }));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError('');
+
+    fetchBookings(filters)
+      .then((rows) => {
+        if (!cancelled) setBookings(rows);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load bookings');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, reloadCount]);
+
+  const setFilter = (field: keyof BookingFilters, value: string) => {
+    setFilters(prev => {
+      const next = { ...prev, [field]: value || undefined };
+      // A model from another category would match nothing
+      if (field === 'category') next.model = undefined;
+      return next;
+    });
+  };
+
+  const handleStatusChange = async (booking: Booking, status: BookingStatus) => {
+    let note: string | undefined;
+    if (status === 'cancelled') {
+      const reason = window.prompt(`Cancel ${booking.name}'s ${booking.model} booking? Add a reason for the timeline (optional).`);
+      if (reason === null) return;
+      note = reason;
+    }
+
+    setIsUpdating(true);
+    try {
+      const updated = await updateBookingStatus(booking, status, note);
+      setBookings(prev => prev.map(row => (row.id === updated.id ? updated : row)));
+      notifyBooking('status_changed', updated);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update booking');
+      setReloadCount(count => count + 1);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const selected = bookings.find(booking => booking.id === selectedId) || null;
+  const models = vehicles.filter(vehicle => !filters.category || vehicle.category === filters.category);
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h1 className="text-3xl font-bold text-white">Bookings</h1>
+        <button
+          onClick={() => setReloadCount(count => count + 1)}
+          className="flex items-center px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors text-sm"
+        >
+          <RefreshCw className="h-4 w-4 mr-2" /> Refresh
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-gray-800 border border-gray-700 rounded-2xl p-4 mb-6 grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
+        <div className="col-span-2 relative">
+          <Search className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+          <input
+            type="search"
+            value={searchInput}
+            onChange={e => setSearchInput(e.target.value)}
+            className={`${inputClass} pl-9`}
+            placeholder="Search name, contact or reference"
+            aria-label="Search name, contact or reference"
+          />
+        </div>
+        <select value={filters.status || ''} onChange={e => setFilter('status', e.target.value)} className={inputClass} aria-label="Status">
+          <option value="">All statuses</option>
+          {BOOKING_STATUSES.map(status => <option key={status} value={status}>{status}</option>)}
+        </select>
+        <select value={filters.rentalType || ''} onChange={e => setFilter('rentalType', e.target.value)} className={inputClass} aria-label="Rental type">
+          <option value="">All rental types</option>
+          {RENTAL_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+        </select>
+        <select value={filters.category || ''} onChange={e => setFilter('category', e.target.value)} className={inputClass} aria-label="Category">
+          <option value="">All categories</option>
+          {CATEGORIES.map(info => <option key={info.category} value={info.category}>{info.category}</option>)}
+        </select>
+        <select value={filters.model || ''} onChange={e => setFilter('model', e.target.value)} className={inputClass} aria-label="Model">
+          <option value="">All models</option>
+          {models.map(vehicle => <option key={vehicle.id} value={vehicle.name}>{vehicle.name}</option>)}
+        </select>
+        <div className="col-span-2 md:col-span-4 lg:col-span-1 flex gap-2">
+          <input type="date" value={filters.from || ''} onChange={e => setFilter('from', e.target.value)} className={inputClass} aria-label="Pickup from" />
+          <input type="date" value={filters.to || ''} onChange={e => setFilter('to', e.target.value)} className={inputClass} aria-label="Pickup to" />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className={`${selected ? 'lg:col-span-2' : 'lg:col-span-3'} bg-gray-800 border border-gray-700 rounded-2xl overflow-x-auto`}>
+          {isLoading ? (
+            <div className="p-12 flex justify-center">
+              <Loader2 className="h-8 w-8 text-yellow-400 animate-spin" />
+            </div>
+          ) : error ? (
+            <p className="p-6 text-red-400">{error}</p>
+          ) : bookings.length === 0 ? (
+            <p className="p-6 text-gray-400">No bookings match these filters.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="text-left text-gray-400 border-b border-gray-700">
+                <tr>
+                  <th className="p-3 font-medium">Customer</th>
+                  <th className="p-3 font-medium">Vehicle</th>
+                  <th className="p-3 font-medium">Type</th>
+                  <th className="p-3 font-medium">Pickup</th>
+                  <th className="p-3 font-medium">Total</th>
+                  <th className="p-3 font-medium">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {bookings.map(booking => (
+                  <tr
+                    key={booking.id}
+                    onClick={() => setSelectedId(booking.id)}
+                    className={`border-b border-gray-700 cursor-pointer transition-colors ${booking.id === selectedId ? 'bg-gray-700' : 'hover:bg-gray-700/50'}`}
+                  >
+                    <td className="p-3">
+                      <div className="text-white">{booking.name}</div>
+                      <div className="text-gray-400 text-xs">{booking.contact}</div>
+                    </td>
+                    <td className="p-3 text-gray-300">{booking.model}</td>
+                    <td className="p-3 text-gray-300">{booking.rental_type}</td>
+                    <td className="p-3 text-gray-300">{booking.pickup_date || '—'}</td>
+                    <td className="p-3 text-gray-300">₹{booking.total_price}</td>
+                    <td className="p-3">
+                      <span className={`px-2 py-1 text-xs font-medium rounded border ${getStatusStyle(booking.status)}`}>
+                        {booking.status}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {bookings.length === BOOKING_LIST_LIMIT && (
+            <p className="p-3 text-xs text-gray-500">Showing the latest {BOOKING_LIST_LIMIT} bookings. Narrow the filters to see older ones.</p>
+          )}
+        </div>
+
+        {selected && (
+          <BookingDetailsPanel
+            booking={selected}
+            isUpdating={isUpdating}
+            onClose={() => setSelectedId(null)}
+            onStatusChange={handleStatusChange}
+            onExtended={() => setReloadCount(count => count + 1)}
+          />
+        )}
+      </div>
+    </>
+  );
+};
+
+// Wrapped in <RequireStaff> by the router, so a staff member is always signed in here
+const AdminPage: React.FC = () => (
+  <div className="min-h-screen bg-gray-900 pt-12 pb-16">
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      <AdminNav />
+      <BookingsDashboard />
+    </div>
+  </div>
+);
+
+export default AdminPage;
@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { SUBSCRIPTION_STATUSES, type MonthlySubscription, type SubscriptionStatus } from '../lib/supabase';
+import {
+  SUBSCRIPTION_LIST_LIMIT,
+  SUBSCRIPTION_STATUS_STYLES,
+  activateSubscription,
+  fetchSubscriptions,
+  isRenewalDue,
+  renewSubscription,
+  terminateSubscription
+} from '../lib/subscriptions';
+import AdminNav from '../components/AdminNav';
+import SubscriptionDetailsPanel from '../components/SubscriptionDetailsPanel';
+
+const inputClass = 'w-full p-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm focus:border-yellow-400 focus:ring-1 focus:ring-yellow-400 transition-colors';
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString('en-IN');
+
+const SubscriptionsDashboard: React.FC = () => {
+  const [status, setStatus] = useState<SubscriptionStatus | ''>('');
+  const [subscriptions, setSubscriptions] = useState<MonthlySubscription[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError('');
+
+    fetchSubscriptions(status || undefined)
+      .then((rows) => {
+        if (!cancelled) setSubscriptions(rows);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load subscriptions');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [status, reloadCount]);
+
+  // Runs one change, then reloads the list; renewals and terminations touch several rows
+  const runUpdate = async (action: () => Promise<unknown>, fallbackError: string) => {
+    setIsUpdating(true);
+    try {
+      await action();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : fallbackError);
+    } finally {
+      setIsUpdating(false);
+      setReloadCount(count => count + 1);
+    }
+  };
+
+  const handleActivate = (subscription: MonthlySubscription) =>
+    runUpdate(() => activateSubscription(subscription), 'Failed to start subscription');
+
+  const handleRenew = (subscription: MonthlySubscription) => {
+    if (!window.confirm(`Renew ${subscription.name}'s ${subscription.model} for another month at ₹${subscription.monthly_rate}?`)) return;
+    return runUpdate(() => renewSubscription(subscription), 'Failed to renew subscription');
+  };
+
+  const handleTerminate = (subscription: MonthlySubscription, terminateOn: string) =>
+    runUpdate(async () => {
+      const quote = await terminateSubscription(subscription, terminateOn);
+      alert(quote.fee > 0 ? `Subscription ended. Collect the ₹${quote.fee} early-termination fee.` : 'Subscription ended.');
+    }, 'Failed to end subscription');
+
+  const selected = subscriptions.find(subscription => subscription.id === selectedId) || null;
+  const dueCount = subscriptions.filter(subscription => isRenewalDue(subscription)).length;
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h1 className="text-3xl font-bold text-white">Subscriptions</h1>
+        <button
+          onClick={() => setReloadCount(count => count + 1)}
+          className="flex items-center px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors text-sm"
+        >
+          <RefreshCw className="h-4 w-4 mr-2" /> Refresh
+        </button>
+      </div>
+
+      <div className="bg-gray-800 border border-gray-700 rounded-2xl p-4 mb-6 flex flex-wrap items-center justify-between gap-3">
+        <select
+          value={status}
+          onChange={e => setStatus(e.target.value as SubscriptionStatus | '')}
+          className={`${inputClass} max-w-xs`}
+          aria-label="Status"
+        >
+          <option value="">All statuses</option>
+          {SUBSCRIPTION_STATUSES.map(option => <option key={option} value={option}>{option}</option>)}
+        </select>
+        {dueCount > 0 && (
+          <p className="text-sm text-yellow-300">{dueCount} subscription{dueCount > 1 ? 's are' : ' is'} due to renew.</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className={`${selected ? 'lg:col-span-2' : 'lg:col-span-3'} bg-gray-800 border border-gray-700 rounded-2xl overflow-x-auto`}>
+          {isLoading ? (
+            <div className="p-12 flex justify-center">
+              <Loader2 className="h-8 w-8 text-yellow-400 animate-spin" />
+            </div>
+          ) : error ? (
+            <p className="p-6 text-red-400">{error}</p>
+          ) : subscriptions.length === 0 ? (
+            <p className="p-6 text-gray-400">No subscriptions match this filter.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="text-left text-gray-400 border-b border-gray-700">
+                <tr>
+                  <th className="p-3 font-medium">Customer</th>
+                  <th className="p-3 font-medium">Vehicle</th>
+                  <th className="p-3 font-medium">Term</th>
+                  <th className="p-3 font-medium">Monthly</th>
+                  <th className="p-3 font-medium">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {subscriptions.map(subscription => (
+                  <tr
+                    key={subscription.id}
+                    onClick={() => setSelectedId(subscription.id)}
+                    className={`border-b border-gray-700 cursor-pointer transition-colors ${subscription.id === selectedId ? 'bg-gray-700' : 'hover:bg-gray-700/50'}`}
+                  >
+                    <td className="p-3">
+                      <div className="text-white">{subscription.name}</div>
+                      <div className="text-gray-400 text-xs">{subscription.contact}</div>
+                    </td>
+                    <td className="p-3 text-gray-300">{subscription.model}</td>
+                    <td className="p-3 text-gray-300">
+                      {formatDate(subscription.pickup_date)} – {formatDate(subscription.return_date)}
+                      <div className="text-gray-400 text-xs">{subscription.months} month{subscription.months > 1 ? 's' : ''}</div>
+                    </td>
+                    <td className="p-3 text-gray-300">₹{subscription.monthly_rate}</td>
+                    <td className="p-3">
+                      <span className={`px-2 py-1 text-xs font-medium rounded border ${SUBSCRIPTION_STATUS_STYLES[subscription.status]}`}>
+                        {subscription.status}
+                      </span>
+                      {isRenewalDue(subscription) && <div className="mt-1 text-xs text-yellow-300">Renewal due</div>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {subscriptions.length === SUBSCRIPTION_LIST_LIMIT && (
+            <p className="p-3 text-xs text-gray-500">Showing the latest {SUBSCRIPTION_LIST_LIMIT} subscriptions. Filter by status to see older ones.</p>
+          )}
+        </div>
+
+        {selected && (
+          <SubscriptionDetailsPanel
+            subscription={selected}
+            isUpdating={isUpdating}
+            onClose={() => setSelectedId(null)}
+            onActivate={handleActivate}
+            onRenew={handleRenew}
+            onTerminate={handleTerminate}
+          />
+        )}
+      </div>
+    </>
+  );
+};
+
+// Wrapped in <RequireStaff> by the router, so a staff member is always signed in here
+const AdminSubscriptionsPage: React.FC = () => (
+  <div className="min-h-screen bg-gray-900 pt-12 pb-16">
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      <AdminNav />
+      <SubscriptionsDashboard />
+    </div>
+  </div>
+);
+
+export default AdminSubscriptionsPage;
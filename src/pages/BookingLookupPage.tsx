@@ -0,0 +1,283 @@
+import React, { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { CalendarClock, CalendarPlus, Loader2, Search, XCircle } from 'lucide-react';
+import { cancelBookingByReference, lookupBooking, normalizeBookingReference, requestBookingDateChange, type BookingLookup } from '../lib/bookingLookup';
+import { getStatusStyle } from '../lib/bookings';
+import { extendBookingByReference, type ExtensionQuote } from '../lib/extensions';
+import { notifyBooking } from '../lib/notifications';
+import type { BookingRentalType } from '../lib/supabase';
+import { useSiteConfig } from '../hooks/useSiteConfig';
+import ExtendBookingForm from '../components/ExtendBookingForm';
+
+const inputClass = 'w-full p-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:border-yellow-400 focus:ring-1 focus:ring-yellow-400 transition-colors disabled:opacity-50';
+
+const formatDate = (date: string | null, time?: string | null) => {
+  if (!date) return '—';
+  const day = new Date(date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+  return time ? `${day}, ${time.slice(0, 5)}` : day;
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+// Lets the customer ask for new dates; staff confirm the price and availability
+const DateChangeForm: React.FC<{ booking: BookingLookup; contact: string; onDone: () => void }> = ({ booking, contact, onDone }) => {
+  const [pickupDate, setPickupDate] = useState(booking.pickupDate || '');
+  const [returnDate, setReturnDate] = useState(booking.returnDate || '');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+    setError('');
+    try {
+      await requestBookingDateChange(booking.reference, contact, { pickupDate, returnDate, note });
+      onDone();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send your request');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <label className="text-sm text-gray-300">
+          New pickup date
+          <input type="date" value={pickupDate} min={today()} onChange={e => setPickupDate(e.target.value)} disabled={isSending} className={`${inputClass} mt-1`} required />
+        </label>
+        <label className="text-sm text-gray-300">
+          New return date
+          <input type="date" value={returnDate} min={pickupDate || today()} onChange={e => setReturnDate(e.target.value)} disabled={isSending} className={`${inputClass} mt-1`} required />
+        </label>
+      </div>
+      <input value={note} onChange={e => setNote(e.target.value)} disabled={isSending} className={inputClass} placeholder="Anything we should know? (optional)" />
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      <button
+        type="submit"
+        disabled={isSending}
+        className="bg-yellow-500 hover:bg-yellow-400 text-black font-bold py-2 px-6 rounded-lg transition-colors disabled:opacity-50"
+      >
+        {isSending ? 'Sending…' : 'Send request'}
+      </button>
+    </form>
+  );
+};
+
+const BookingLookupPage: React.FC = () => {
+  const { ref = '' } = useParams();
+  const navigate = useNavigate();
+  const siteConfig = useSiteConfig();
+  const [reference, setReference] = useState(ref);
+  const [contact, setContact] = useState('');
+  const [booking, setBooking] = useState<BookingLookup | null>(null);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [showDateChange, setShowDateChange] = useState(false);
+  const [showExtend, setShowExtend] = useState(false);
+
+  const load = async () => {
+    const found = await lookupBooking(reference, contact);
+    setBooking(found);
+    if (!found) {
+      setError('We couldn\'t find a booking with that reference and contact number.');
+    }
+  };
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+    setNotice('');
+    setShowDateChange(false);
+    setShowExtend(false);
+    try {
+      await load();
+      // Keep the address bar in step, so the page can be bookmarked
+      navigate(`/booking/${normalizeBookingReference(reference)}`, { replace: true });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to look up booking');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!booking) return;
+    const reason = window.prompt('Cancel this booking? You can tell us why (optional).');
+    if (reason === null) return;
+
+    setIsCancelling(true);
+    setError('');
+    try {
+      await cancelBookingByReference(booking.reference, contact, reason);
+      notifyBooking('status_changed', {
+        reference: booking.reference,
+        name: booking.name,
+        contact,
+        model: booking.model,
+        rental_type: booking.rentalType,
+        status: 'cancelled',
+        pickup_date: booking.pickupDate,
+        pickup_time: booking.pickupTime,
+        return_date: booking.returnDate,
+        return_time: booking.returnTime,
+        total_price: booking.totalPrice
+      });
+      setNotice('Your booking has been cancelled.');
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel booking');
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  const handleExtend = async (quote: ExtensionQuote) => {
+    if (!booking) return;
+    await extendBookingByReference(booking.reference, contact, quote);
+    setShowExtend(false);
+    setNotice(`Extended. Your new return is ${formatDate(quote.newReturnDate, quote.newReturnTime)}, and ₹${quote.price.total} has been added to your total.`);
+    await load();
+  };
+
+  const handleDateChangeSent = () => {
+    setShowDateChange(false);
+    setNotice('Request sent. We\'ll call you to confirm the new dates and any change in price.');
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 pt-12 pb-16">
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+        <form onSubmit={handleLookup} className="bg-gray-800 border border-gray-700 rounded-2xl shadow-2xl p-6 space-y-4">
+          <h1 className="text-2xl font-bold text-white">Find your booking</h1>
+          <input
+            value={reference}
+            onChange={e => setReference(e.target.value)}
+            className={`${inputClass} font-mono uppercase`}
+            placeholder="Booking reference, e.g. RR-7K3M9QXD"
+            required
+          />
+          <input
+            type="tel"
+            value={contact}
+            onChange={e => setContact(e.target.value)}
+            className={inputClass}
+            placeholder="Contact number used for the booking"
+            autoComplete="tel"
+            required
+          />
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="w-full bg-yellow-500 hover:bg-yellow-400 text-black font-bold py-3 rounded-lg transition-colors disabled:opacity-50 flex items-center justify-center"
+          >
+            {isLoading ? <Loader2 className="h-5 w-5 animate-spin" /> : <><Search className="h-5 w-5 mr-2" /> Find booking</>}
+          </button>
+          {error && <p className="text-sm text-red-400">{error}</p>}
+        </form>
+
+        {booking && (
+          <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-2xl p-6">
+            <div className="flex items-start justify-between gap-4 mb-4">
+              <div>
+                <p className="text-sm text-gray-400 font-mono">{booking.reference}</p>
+                <h2 className="text-xl font-bold text-white">{booking.model}</h2>
+                <p className="text-sm text-gray-400">{booking.category} · {booking.rentalType}</p>
+              </div>
+              <span className={`px-2 py-1 text-xs font-medium rounded border ${getStatusStyle(booking.status)}`}>{booking.status}</span>
+            </div>
+
+            <dl className="space-y-2 text-sm">
+              {[
+                ['Name', booking.name],
+                ['Pickup', formatDate(booking.pickupDate, booking.pickupTime)],
+                ['Return', formatDate(booking.returnDate, booking.returnTime)],
+                ['Total', `₹${booking.totalPrice}`]
+              ].map(([label, value]) => (
+                <div key={label} className="flex justify-between gap-4">
+                  <dt className="text-gray-400">{label}</dt>
+                  <dd className="text-white text-right">{value}</dd>
+                </div>
+              ))}
+            </dl>
+
+            {notice && <p className="mt-4 text-sm text-green-400">{notice}</p>}
+
+            <div className="mt-6 pt-4 border-t border-gray-700 space-y-3">
+              {booking.canCancel && booking.cancelDeadline && (
+                <p className="text-xs text-gray-400">
+                  You can cancel online until {new Date(booking.cancelDeadline).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })}.
+                </p>
+              )}
+              <div className="flex flex-wrap gap-2">
+                {booking.canExtend && (
+                  <button
+                    onClick={() => {
+                      setShowExtend(show => !show);
+                      setShowDateChange(false);
+                    }}
+                    className="flex items-center px-4 py-2 bg-yellow-500 text-black font-semibold rounded-lg hover:bg-yellow-400 transition-colors text-sm"
+                  >
+                    <CalendarPlus className="h-4 w-4 mr-2" /> Extend rental
+                  </button>
+                )}
+                {booking.canRequestChange && (
+                  <button
+                    onClick={() => {
+                      setShowDateChange(show => !show);
+                      setShowExtend(false);
+                    }}
+                    className="flex items-center px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors text-sm"
+                  >
+                    <CalendarClock className="h-4 w-4 mr-2" /> Change dates
+                  </button>
+                )}
+                {booking.canCancel && (
+                  <button
+                    onClick={handleCancel}
+                    disabled={isCancelling}
+                    className="flex items-center px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-sm disabled:opacity-50"
+                  >
+                    <XCircle className="h-4 w-4 mr-2" /> {isCancelling ? 'Cancelling…' : 'Cancel booking'}
+                  </button>
+                )}
+              </div>
+              {!booking.canCancel && !booking.canRequestChange && !booking.canExtend && (
+                <p className="text-sm text-gray-400">
+                  This booking can't be changed online. Call or WhatsApp us on {siteConfig.phone} for help.
+                </p>
+              )}
+              {booking.canRequestChange && !booking.canCancel && (
+                <p className="text-xs text-gray-400">
+                  It's too close to pickup to cancel online. Call us on {siteConfig.phone} if your plans have changed.
+                </p>
+              )}
+              {showExtend && booking.returnDate && (
+                <ExtendBookingForm
+                  booking={{
+                    rentalType: booking.rentalType as BookingRentalType,
+                    returnDate: booking.returnDate,
+                    returnTime: booking.returnTime,
+                    unitId: booking.unitId,
+                    vehicleId: booking.vehicleId,
+                    model: booking.model
+                  }}
+                  onConfirm={handleExtend}
+                  onCancel={() => setShowExtend(false)}
+                />
+              )}
+              {showDateChange && <DateChangeForm booking={booking} contact={contact} onDone={handleDateChangeSent} />}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BookingLookupPage;
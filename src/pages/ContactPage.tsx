@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import { User, Mail, Phone, MessageSquare, Send, CheckCircle, MapPin, Clock } from 'lucide-react';
-import { createContactMessage } from '../lib/supabase';
+import { submitContactMessage } from '../lib/contacts';
+import { formatOpeningHours, formatTime, getWhatsAppUrl } from '../lib/siteConfig';
+import { useSiteConfig } from '../hooks/useSiteConfig';
 
 const ContactForm: React.FC = () => {
   const [formData, setFormData] = useState({
@@ -12,6 +14,7 @@ const ContactForm: React.FC = () => {
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
+  const [wasQueued, setWasQueued] = useState(false);
   const [error, setError] = useState('');
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
@@ -68,14 +71,15 @@ const ContactForm: React.FC = () => {
         message: formData.message.trim()
       });
       
-      await createContactMessage({
+      const outcome = await submitContactMessage({
         name: formData.name.trim(),
         email: formData.email.trim(),
-        phone: formData.phone.trim() || undefined,
+        phone: formData.phone.trim() || null,
         subject: formData.subject.trim(),
         message: formData.message.trim()
       });
 
+      setWasQueued(outcome === 'queued');
       setShowSuccess(true);
       setFormData({ name: '', email: '', phone: '', subject: '', message: '' });
       
@@ -84,15 +88,8 @@ const ContactForm: React.FC = () => {
       }, 3000);
     } catch (err: any) {
       const errorMessage = err?.message || 'Unknown error';
-      setError(`Failed to send message: ${errorMessage}`);
+      setError(errorMessage);
       console.error('Contact form error details:', err);
-      
-      // Add specific handling for common Supabase errors
-      if (errorMessage.includes('relation "contacts" does not exist')) {
-        setError('The contacts table does not exist in the database. Please create it first.');
-      } else if (errorMessage.includes('permission denied')) {
-        setError('Permission denied. Please check your database policies.');
-      }
     } finally {
       setIsSubmitting(false);
     }
@@ -105,7 +102,9 @@ const ContactForm: React.FC = () => {
           <CheckCircle className="mx-auto text-green-400 mb-4" size={64} />
           <h3 className="text-2xl font-bold text-green-400 mb-2">Message Sent Successfully!</h3>
           <p className="text-gray-300 mb-4">
-            Thank you for contacting us. We'll get back to you within 24 hours.
+            {wasQueued
+              ? "We couldn't reach our server, so your message is saved on this device and will be sent automatically once you're back online."
+              : "Thank you for contacting us. We'll get back to you within 24 hours."}
           </p>
           <button
             onClick={() => setShowSuccess(false)}
@@ -257,6 +256,8 @@ const ContactForm: React.FC = () => {
 
 // Main Contact Page Component
 const ContactPage: React.FC = () => {
+  const config = useSiteConfig();
+
   return (
     <div className="min-h-screen bg-gray-900 pt-20 pb-16">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -286,14 +287,14 @@ const ContactPage: React.FC = () => {
                   <div className="ml-4">
                     <h3 className="text-lg font-medium text-white">Phone</h3>
                     <a 
-                      href="https://wa.me/918827326825?text=Hello,%20I%20would%20like%20to%20inquire%20about%20bike%20rentals." 
+                      href={getWhatsAppUrl(config)} 
                       target="_blank" 
                       rel="noopener noreferrer"
                       className="text-yellow-400 hover:text-yellow-300 transition-colors cursor-pointer"
                     >
-                      +91 8827326825
+                      {config.phone}
                     </a>
-                    <p className="text-xs text-gray-500 mt-1">All days, 9am-9pm</p>
+                    <p className="text-xs text-gray-500 mt-1">{config.hoursLabel}, {formatTime(config.openingTime)}-{formatTime(config.closingTime)}</p>
                   </div>
                 </div>
                 
@@ -304,10 +305,10 @@ const ContactPage: React.FC = () => {
                   <div className="ml-4">
                     <h3 className="text-lg font-medium text-white">Email</h3>
                     <a 
-                      href="mailto:riderental68@gmail.com" 
+                      href={`mailto:${config.email}`} 
                       className="text-yellow-400 hover:text-yellow-300 transition-colors cursor-pointer"
                     >
-                      riderental68@gmail.com
+                      {config.email}
                     </a>
                     <p className="text-xs text-gray-500 mt-1">We'll respond within 24 hours</p>
                   </div>
@@ -319,7 +320,7 @@ const ContactPage: React.FC = () => {
                   </div>
                   <div className="ml-4">
                     <h3 className="text-lg font-medium text-white">Location</h3>
-                    <p className="text-gray-400">VIT Bhopal, Kothri Kalan, Sehore, Madhya Pradesh</p>
+                    <p className="text-gray-400">{config.address}</p>
                     <p className="text-xs text-gray-500 mt-1">Visit our rental office</p>
                   </div>
                 </div>
@@ -330,28 +331,30 @@ const ContactPage: React.FC = () => {
                   </div>
                   <div className="ml-4">
                     <h3 className="text-lg font-medium text-white">Business Hours</h3>
-                    <p className="text-gray-400">All Days: 9:00 AM - 9:00 PM</p>
+                    <p className="text-gray-400">{formatOpeningHours(config)}</p>
                   </div>
                 </div>
               </div>
             </div>
             
             {/* Map */}
-            <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-2xl p-8">
-              <h2 className="text-2xl font-bold text-white mb-6">Find Us</h2>
-              <div className="w-full h-64 rounded-lg overflow-hidden">
-                <iframe 
-                  src="https://www.google.com/maps/embed?pb=!1m18!1m12!1m3!1d3667.8661435195624!2d77.2342!3d23.2884!2m3!1f0!2f0!3f0!3m2!1i1024!2i768!4f13.1!3m3!1m2!1s0x397c42de6c4b7c85%3A0x5c4ab5b2b3b8b9c!2sVIT%20Bhopal%2C%20Kothri%20Kalan%2C%20Sehore%2C%20Madhya%20Pradesh!5e0!3m2!1sen!2sin!4v1629556234334!5m2!1sen!2sin" 
-                  width="100%" 
-                  height="100%" 
-                  style={{ border: 0 }} 
-                  allowFullScreen={true} 
-                  loading="lazy"
-                  title="VIT Bhopal Location Map"
-                  className="rounded-lg"
-                ></iframe>
+            {config.mapEmbedUrl && (
+              <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-2xl p-8">
+                <h2 className="text-2xl font-bold text-white mb-6">Find Us</h2>
+                <div className="w-full h-64 rounded-lg overflow-hidden">
+                  <iframe 
+                    src={config.mapEmbedUrl} 
+                    width="100%" 
+                    height="100%" 
+                    style={{ border: 0 }} 
+                    allowFullScreen={true} 
+                    loading="lazy"
+                    title={`${config.businessName} location map`}
+                    className="rounded-lg"
+                  ></iframe>
+                </div>
               </div>
-            </div>
+            )}
           </div>
         </div>
       </div>
@@ -1,40 +1,27 @@
 import { Link } from 'react-router-dom';
 import { ArrowRight, Zap, Shield, Clock } from 'lucide-react';
-import shineImg from '../img/sp1256789e3e35c30f.avif';
-import activaImg from '../img/activa-6g-right-front-three-quarter-3.avif';
 import pulsar150Img from '../img/pulsar150.avif';
-
+import { CATEGORIES, getStartingRate } from '../lib/catalog';
+import { useVehicles } from '../hooks/useVehicles';
+import { getActivePromotions } from '../lib/pricing';
+import { useSiteConfig } from '../hooks/useSiteConfig';
 
 const HomePage = () => {
-  const rentalOptions = [
-    {
-      title: 'Sports Bike',
-      price: '₹550',
-      period: 'day',
-      image: pulsar150Img,
-      description: 'High-performance bikes for thrill seekers',
-      link: '/sports-bikes',
-      buttonText: 'View Sports Bikes'
-    },
-    {
-      title: 'Normal Bike',
-      price: '₹450',
-      period: 'day',
-      image: shineImg,
-      description: 'Comfortable rides for daily commuting',
-      link: '/normal-bikes',
-      buttonText: 'View Normal Bikes'
-    },
-    {
-      title: 'Scooty',
-      price: '₹400',
-      period: 'day',
-      image: activaImg,
-      description: 'Easy and convenient city transportation',
-      link: '/scooties',
-      buttonText: 'View Scooties'
-    }
-  ];
+  const { vehicles } = useVehicles();
+  const promotions = getActivePromotions();
+  const { promoBanner } = useSiteConfig();
+  // A banner set in the site config takes over from the pricing-rule offers
+  const bannerText = promoBanner || promotions.map(promotion => promotion.promoText).join(' + ');
+
+  const rentalOptions = CATEGORIES.map(category => ({
+    title: category.category,
+    price: `₹${getStartingRate(category.category, vehicles)}`,
+    period: 'day',
+    image: category.image,
+    description: category.description,
+    link: category.path,
+    buttonText: category.buttonText
+  }));
 
   const features = [
     {
@@ -57,20 +44,22 @@ const HomePage = () => {
   return (
     <div className="min-h-screen bg-gray-900">
       {/* Promotional Banner */}
-      <div className="bg-gradient-to-r from-yellow-500 to-red-500 text-black py-3">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-          <div className="flex justify-center items-center text-center">
-            <span className="animate-pulse mr-2">🔥</span>
-            <p className="font-bold text-sm sm:text-base">
-              LIMITED TIME OFFER: 10% OFF on Pulsar bikes + Get 35% OFF on WEEKLY BOOKINGS! 
-              <Link to="/sports-bikes" className="underline hover:text-white ml-2 whitespace-nowrap">
-                Book Now
-              </Link>
-            </p>
-            <span className="animate-pulse ml-2">🔥</span>
+      {bannerText && (
+        <div className="bg-gradient-to-r from-yellow-500 to-red-500 text-black py-3">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <div className="flex justify-center items-center text-center">
+              <span className="animate-pulse mr-2">🔥</span>
+              <p className="font-bold text-sm sm:text-base">
+                LIMITED TIME OFFER: {bannerText}!
+                <Link to="/sports-bikes" className="underline hover:text-white ml-2 whitespace-nowrap">
+                  Book Now
+                </Link>
+              </p>
+              <span className="animate-pulse ml-2">🔥</span>
+            </div>
           </div>
         </div>
-      </div>
+      )}
 
       {/* Hero Section */}
       <section 
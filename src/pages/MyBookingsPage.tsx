@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { CalendarDays, Loader2, LogOut } from 'lucide-react';
+import { fetchCustomerRentals, isUpcomingRental, saveCustomerProfile, type CustomerProfile, type CustomerRental } from '../lib/customers';
+import { getStatusStyle } from '../lib/bookings';
+import { useAuth } from '../hooks/useAuth';
+import CustomerSignIn from '../components/CustomerSignIn';
+
+const inputClass = 'w-full p-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:border-yellow-400 focus:ring-1 focus:ring-yellow-400 transition-colors disabled:opacity-50';
+
+const formatDate = (date: string | null, time?: string | null) => {
+  if (!date) return '—';
+  const day = new Date(date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+  return time ? `${day}, ${time.slice(0, 5)}` : day;
+};
+
+const RentalRow: React.FC<{ rental: CustomerRental }> = ({ rental }) => (
+  <div className="flex flex-wrap items-center justify-between gap-4 p-4 border-b border-gray-700 last:border-b-0">
+    <div>
+      <div className="text-white font-semibold">
+        {rental.model}{' '}
+        <Link to={`/booking/${rental.reference}`} className="text-xs font-mono text-yellow-400 hover:text-yellow-300">{rental.reference}</Link>
+      </div>
+      <div className="text-sm text-gray-400">
+        {rental.rentalType} · {formatDate(rental.pickupDate, rental.pickupTime)} → {formatDate(rental.returnDate, rental.returnTime)}
+      </div>
+    </div>
+    <div className="flex items-center gap-4">
+      <span className="text-white font-semibold">₹{rental.totalPrice}</span>
+      <span className={`px-2 py-1 text-xs font-medium rounded border ${getStatusStyle(rental.status)}`}>{rental.status}</span>
+    </div>
+  </div>
+);
+
+// The customer's saved details, used to pre-fill the booking form
+const ProfileForm: React.FC = () => {
+  const { session, customer, refreshCustomer } = useAuth();
+  const [profile, setProfile] = useState<CustomerProfile>({
+    name: customer?.name || '',
+    contact: customer?.contact || session?.user.phone || '',
+    address: customer?.address || ''
+  });
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setProfile(prev => ({ ...prev, [e.target.name]: e.target.value }));
+    setMessage('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!session) return;
+
+    setIsSaving(true);
+    try {
+      await saveCustomerProfile(session.user.id, {
+        name: profile.name.trim(),
+        contact: profile.contact.replace(/\s+/g, ''),
+        address: profile.address.trim()
+      });
+      await refreshCustomer();
+      setMessage('Saved. We\'ll fill these in when you book.');
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Failed to save your details');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-gray-800 border border-gray-700 rounded-2xl p-6 space-y-4">
+      <h2 className="text-xl font-bold text-white">Your details</h2>
+      {!customer && (
+        <p className="text-sm text-gray-400">Save your details once and the booking form will fill them in for you.</p>
+      )}
+      <input name="name" value={profile.name} onChange={handleChange} disabled={isSaving} className={inputClass} placeholder="Full name" required />
+      <input name="contact" type="tel" value={profile.contact} onChange={handleChange} disabled={isSaving} className={inputClass} placeholder="Mobile number" required />
+      <input name="address" value={profile.address} onChange={handleChange} disabled={isSaving} className={inputClass} placeholder="Address" />
+      {message && <p className="text-sm text-gray-300">{message}</p>}
+      <button
+        type="submit"
+        disabled={isSaving}
+        className="bg-yellow-500 hover:bg-yellow-400 text-black font-bold py-2 px-6 rounded-lg transition-colors disabled:opacity-50"
+      >
+        {isSaving ? 'Saving…' : 'Save details'}
+      </button>
+    </form>
+  );
+};
+
+const RentalHistory: React.FC<{ userId: string }> = ({ userId }) => {
+  const [rentals, setRentals] = useState<CustomerRental[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchCustomerRentals(userId)
+      .then((rows) => {
+        if (!cancelled) setRentals(rows);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load your bookings');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 text-yellow-400 animate-spin" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-red-400">{error}</p>;
+  }
+
+  const upcoming = rentals.filter(rental => isUpcomingRental(rental));
+  const past = rentals.filter(rental => !isUpcomingRental(rental));
+
+  return (
+    <div className="space-y-6">
+      {[
+        { title: 'Upcoming', list: upcoming, empty: 'No upcoming rentals.' },
+        { title: 'Past', list: past, empty: 'No past rentals yet.' }
+      ].map(section => (
+        <div key={section.title} className="bg-gray-800 border border-gray-700 rounded-2xl">
+          <h2 className="text-xl font-bold text-white p-4 border-b border-gray-700">{section.title}</h2>
+          {section.list.length > 0
+            ? section.list.map(rental => <RentalRow key={`${rental.source}-${rental.id}`} rental={rental} />)
+            : <p className="p-4 text-gray-400">{section.empty}</p>}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const MyBookingsPage: React.FC = () => {
+  const { session, isLoading, signOut } = useAuth();
+
+  return (
+    <div className="min-h-screen bg-gray-900 pt-12 pb-16">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+        {isLoading ? (
+          <div className="flex justify-center py-24">
+            <Loader2 className="h-8 w-8 text-yellow-400 animate-spin" />
+          </div>
+        ) : !session ? (
+          <CustomerSignIn />
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+              <div className="flex items-center">
+                <CalendarDays className="h-8 w-8 text-yellow-400 mr-3" />
+                <div>
+                  <h1 className="text-3xl font-bold text-white">My Bookings</h1>
+                  <p className="text-sm text-gray-400">Signed in as {session.user.phone || session.user.email}</p>
+                </div>
+              </div>
+              <button
+                onClick={() => signOut()}
+                className="flex items-center px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors text-sm"
+              >
+                <LogOut className="h-4 w-4 mr-2" /> Sign out
+              </button>
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="lg:col-span-2">
+                <RentalHistory userId={session.user.id} />
+              </div>
+              <ProfileForm />
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MyBookingsPage;
@@ -1,87 +1,17 @@
 import React from 'react';
 import VehicleGrid from '../components/VehicleGrid';
 import BookingModal from '../components/BookingModal';
-import platinaImg from '../img/platina-110-right-front-three-quarter-8.avif';
-import hfDeluxeImg from '../img/hf-deluxe-right-front-three-quarter.avif';
-import splendorImg from '../img/hero-motocorp-splendor68541139c73c8.avif';
-import passionImg from '../img/passion-plus-left-front-three-quarter-2.avif';
-import shineImg from '../img/sp1256789e3e35c30f.avif';
+import { useVehicles } from '../hooks/useVehicles';
+import type { Vehicle } from '../lib/catalog';
 
 const NormalBikePage = () => {
   const [isModalOpen, setIsModalOpen] = React.useState(false);
-  const [selectedVehicle, setSelectedVehicle] = React.useState<any>(null);
+  const [selectedVehicle, setSelectedVehicle] = React.useState<Vehicle | null>(null);
 
-  const normalBikes = [
-    {
-      id: 1,
-      name: 'Honda Shine',
-      image: shineImg,
-      price: '₹450/day',
-      specs: {
-        engine: '124cc',
-        power: '10.7 HP',
-        mileage: '55 kmpl',
-        type: 'Street'
-      }
-    },
-    {
-      id: 2,
-      name: 'Bajaj Platina',
-      image: platinaImg,
-      price: '₹450/day',
-      specs: {
-        engine: '102cc',
-        power: '8.1 HP',
-        mileage: '70 kmpl',
-        type: 'Street'
-      }
-    },
-    {
-      id: 3,
-      name: 'Hero Splendor Plus',
-      image: splendorImg,
-      price: '₹450/day',
-      specs: {
-        engine: '97cc',
-        power: '8.02 HP',
-        mileage: '60 kmpl',
-        type: 'Street'
-      }
-    },
-    {
-      id: 4,
-      name: 'Hero Passion',
-      image: passionImg,
-      price: '₹450/day',
-      specs: {
-        engine: '109cc',
-        power: '8.4 HP',
-        mileage: '60 kmpl',
-        type: 'Street'
-      }
-    },
-   
-    {
-      id: 6,
-      name: 'Hero HF Deluxe',
-      image: hfDeluxeImg,
-      price: '₹450/day',
-      specs: {
-        engine: '100cc',
-        power: '12.4 HP',
-        mileage: '50 kmpl',
-        type: 'Street'
-      }
-    }
-  ];
+  const { vehicles: normalBikes } = useVehicles('Normal Bike');
 
-  const handleBookNow = (vehicle: any) => {
-    const bookingData = {
-      category: 'Normal Bike',
-      model: vehicle.name,
-      pricePerDay: parseInt(vehicle.price.replace('₹', '').replace('/day', ''))
-    };
-    setSelectedVehicle(bookingData);
+  const handleBookNow = (vehicle: Vehicle) => {
+    setSelectedVehicle(vehicle);
     setIsModalOpen(true);
   };
 
@@ -130,7 +60,7 @@ const NormalBikePage = () => {
       <BookingModal
         isOpen={isModalOpen}
         onClose={handleCloseModal}
-        bookingData={selectedVehicle}
+        vehicle={selectedVehicle}
       />
     </>
   );
@@ -1,48 +1,17 @@
 import React from 'react';
 import VehicleGrid from '../components/VehicleGrid';
 import BookingModal from '../components/BookingModal';
-import activaImg from '../img/activa-6g-right-front-three-quarter-3.avif';
-import zestImg from '../img/tvs-scooty-zest66bb1c222451f.avif';
+import { useVehicles } from '../hooks/useVehicles';
+import type { Vehicle } from '../lib/catalog';
 
 const ScootyPage = () => {
   const [isModalOpen, setIsModalOpen] = React.useState(false);
-  const [selectedVehicle, setSelectedVehicle] = React.useState<any>(null);
+  const [selectedVehicle, setSelectedVehicle] = React.useState<Vehicle | null>(null);
 
-  const scooties = [
-    {
-      id: 1,
-      name: 'Honda Activa 6G',
-      image: activaImg,
-      price: '₹450/day',
-      specs: {
-        engine: '109cc',
-        power: '7.79 HP',
-        mileage: '55 kmpl',
-        type: 'Scooter'
-      }
-    },
-    {
-      id: 2,
-      name: 'TVS Zest 110',
-      image: zestImg,
-      price: '₹400/day',
-      specs: {
-        engine: '109cc',
-        power: '7.47 HP',
-        mileage: '62 kmpl',
-        type: 'Scooter'
-      }
-    },
-    
-  ];
+  const { vehicles: scooties } = useVehicles('Scooty');
 
-  const handleBookNow = (vehicle: any) => {
-    const bookingData = {
-      category: 'Scooty',
-      model: vehicle.name,
-      pricePerDay: parseInt(vehicle.price.replace('₹', '').replace('/day', ''))
-    };
-    setSelectedVehicle(bookingData);
+  const handleBookNow = (vehicle: Vehicle) => {
+    setSelectedVehicle(vehicle);
     setIsModalOpen(true);
   };
 
@@ -91,7 +60,7 @@ const ScootyPage = () => {
       <BookingModal
         isOpen={isModalOpen}
         onClose={handleCloseModal}
-        bookingData={selectedVehicle}
+        vehicle={selectedVehicle}
       />
     </>
   );
@@ -70,7 +70,7 @@ const SetupPage = () => {
             days: 1,
             total_price: 500,
             rental_type: 'daily',
-            status: 'test'
+            status: 'cancelled' // Test rows must not hold a vehicle
           }])
           .select();
 
@@ -1,89 +1,19 @@
 import { useState } from 'react';
 import VehicleGrid from '../components/VehicleGrid';
 import BookingModal from '../components/BookingModal';
-import pulsar150Img from '../img/pulsar150.avif';
-import pulsar125Img from '../img/pulsar-125-left-front-three-quarter.avif';
-import apacheImg from '../img/apache-160-right-side-view.avif';
-import royalEnfieldImg from '../img/royal350.avif';
-import tvsRaiderImg from '../img/tvs-raider.avif';
-
+import { useVehicles } from '../hooks/useVehicles';
+import type { Vehicle } from '../lib/catalog';
+import { getActivePromotions } from '../lib/pricing';
 
 const SportsBikePage = () => {
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [selectedVehicle, setSelectedVehicle] = useState<any>(null);
-
-  const sportsBikes = [
-    {
-      id: 1,
-      name: 'Royal Enfield Bullet',
-      image: royalEnfieldImg,
-      price: '₹900/day',
-      specs: {
-        engine: '350cc',
-        power: '18.6 HP',
-        mileage: '40 kmpl',
-        type: 'Sports'
-      }
-    },
-    {
-      id: 2,
-      name: 'Bajaj Pulsar 150',
-      image: pulsar150Img,
-      price: '₹550/day',
-      specs: {
-        engine: '150cc',
-        power: '25 HP',
-        mileage: '35 kmpl',
-        type: 'Sports'
-      }
-    },
-    {
-      id: 3,
-      name:'Bajaj Pulsar 125',
-      image: pulsar125Img,
-      price: '₹550/day',
-      specs: {
-        engine: '125cc',
-        power: '17.1 HP',
-        mileage: '42 kmpl',
-        type: 'Sports'
-      }
-    },
-    {
-      id: 4,
-      name: 'TVS Apache RTR 160',
-      image: apacheImg,
-      price: '₹600/day',
-      specs: {
-        engine: '160cc',
-        power: '24.5 HP',
-        mileage: '38 kmpl',
-        type: 'Sports'
-      }
-    },
-    {
-      id: 5,
-      name: 'TVS Raider',
-      image: tvsRaiderImg,
-      price: '₹600/day',
-      specs: {
-        engine: '125cc',
-        power: '20 HP',
-        mileage: '55 kmpl',
-        type: 'Sports'
-      }
-    },
+  const [selectedVehicle, setSelectedVehicle] = useState<Vehicle | null>(null);
 
-    
-  ];
+  const { vehicles: sportsBikes } = useVehicles('Sports Bike');
+  const promotions = getActivePromotions('Sports Bike');
 
-  const handleBookNow = (vehicle: any) => {
-    const bookingData = {
-      category: 'Sports Bike',
-      model: vehicle.name,
-      pricePerDay: parseInt(vehicle.price.replace('₹', '').replace('/day', ''))
-    };
-    setSelectedVehicle(bookingData);
+  const handleBookNow = (vehicle: Vehicle) => {
+    setSelectedVehicle(vehicle);
     setIsModalOpen(true);
   };
 
@@ -104,7 +34,7 @@ const SportsBikePage = () => {
                 <p className="font-bold text-lg">SPECIAL OFFER:</p>
               </div>
               <p className="font-semibold">
-                Get 10% OFF on Pulsar bikes + 35% OFF on WEEKLY BOOKINGS!
+                Get {promotions.map(promotion => promotion.promoText).join(' + ')}!
               </p>
               <div className="bg-black text-white px-3 py-1 rounded-full text-sm font-bold animate-bounce">
                 Limited Time
@@ -132,7 +62,7 @@ const SportsBikePage = () => {
       <BookingModal
         isOpen={isModalOpen}
         onClose={handleCloseModal}
-        bookingData={selectedVehicle}
+        vehicle={selectedVehicle}
       />
     </>
   );
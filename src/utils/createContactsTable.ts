@@ -23,10 +23,12 @@ export async function createContactsTable() {
               id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
               name text NOT NULL,
               email text NOT NULL,
-              phone text NOT NULL,
-              vehicle text NOT NULL,
+              phone text,
+              subject text NOT NULL,
               message text NOT NULL,
-              created_at timestamptz DEFAULT now()
+              status text NOT NULL DEFAULT 'new',
+              created_at timestamptz DEFAULT now(),
+              updated_at timestamptz DEFAULT now()
             );
             
             -- Enable row level security
@@ -36,14 +38,8 @@ export async function createContactsTable() {
             CREATE POLICY "Anyone can create contacts"
               ON contacts
               FOR INSERT
-              TO anon
+              TO anon, authenticated
               WITH CHECK (true);
-              
-            CREATE POLICY "Anyone can read contacts"
-              ON contacts
-              FOR SELECT
-              TO anon
-              USING (true);
             
             -- Create index
             CREATE INDEX IF NOT EXISTS contacts_created_at_idx ON contacts(created_at DESC);
@@ -5,15 +5,17 @@ LANGUAGE plpgsql
 SECURITY DEFINER
 AS $$
 BEGIN
-  -- Create the contacts table if it doesn't exist
+  -- Create the contacts table if it doesn't exist; columns match migrations/0004_contacts.sql
   CREATE TABLE IF NOT EXISTS contacts (
     id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
     name text NOT NULL,
     email text NOT NULL,
-    phone text NOT NULL,
-    vehicle text NOT NULL,
+    phone text,
+    subject text NOT NULL,
     message text NOT NULL,
-    created_at timestamptz DEFAULT now()
+    status text NOT NULL DEFAULT 'new',
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
   );
 
   -- Enable row level security
@@ -25,16 +27,10 @@ BEGIN
   CREATE POLICY "Anyone can create contacts"
     ON contacts
     FOR INSERT
-    TO anon
+    TO anon, authenticated
     WITH CHECK (true);
 
-  -- Allow anyone to read contacts (can restrict this later if needed)
-  DROP POLICY IF EXISTS "Anyone can read contacts" ON contacts;
-  CREATE POLICY "Anyone can read contacts"
-    ON contacts
-    FOR SELECT
-    TO anon
-    USING (true);
+  -- Messages are only read from the admin dashboard; see migrations/0012_staff_roles.sql
 
   -- Create index for better query performance
   CREATE INDEX IF NOT EXISTS contacts_created_at_idx ON contacts(created_at DESC);
@@ -113,7 +113,7 @@ export const testBookingInsert = async () => {
       days: 1,
       total_price: 100,
       rental_type: 'daily',
-      status: 'test'
+      status: 'cancelled' // Test rows must not hold a vehicle
     };
 
     console.log('Attempting test insert with payload:', testPayload);
@@ -0,0 +1,207 @@
+// Sends the customer their booking notifications and logs every delivery in
+// notification_deliveries. The site calls it after a booking is stored or its
+// status changes (src/lib/notifications.ts) with just the event and reference:
+// the booking is loaded here, so a caller can only trigger the message for the
+// booking's current status, and each channel sends it at most once.
+//
+// Deploy with `supabase functions deploy notify-booking` and set its secrets
+// with `supabase secrets set`:
+//
+//   NOTIFICATION_CHANNELS        whatsapp,sms,email,webhook (any subset); unset or 'stub' only logs
+//   WHATSAPP_ACCESS_TOKEN        WhatsApp Cloud API token
+//   WHATSAPP_PHONE_NUMBER_ID
+//   WHATSAPP_TEMPLATE_NAME       optional approved template taking the text as {{1}}
+//   SMS_GATEWAY_URL, SMS_API_KEY, SMS_SENDER
+//   EMAIL_API_KEY, EMAIL_FROM, EMAIL_API_URL (optional, defaults to Resend)
+//   NOTIFICATION_WEBHOOK_URL, NOTIFICATION_WEBHOOK_SECRET
+//   SITE_URL                     public site address, for the booking link in messages
+//
+// SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are provided by Supabase.
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { renderNotification, type NotificationBooking, type NotificationEvent } from '../../../src/lib/notificationTemplates.ts';
+import {
+  createEmailChannel,
+  createSmsChannel,
+  createStubChannel,
+  createWebhookChannel,
+  createWhatsAppCloudChannel,
+  deliverNotification,
+  STUB_CHANNEL_KINDS,
+  type NotificationChannel
+} from '../../../src/lib/notificationChannels.ts';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const BOOKING_SOURCES = ['bookings', 'monthly_subscriptions'] as const;
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+const env = (name: string): string | undefined => Deno.env.get(name)?.trim() || undefined;
+
+const requireEnv = (name: string): string => {
+  const value = env(name);
+  if (!value) throw new Error(`${name} is not set`);
+  return value;
+};
+
+// Channels named in NOTIFICATION_CHANNELS; a channel with missing secrets is skipped with a warning
+const getChannels = (): NotificationChannel[] => {
+  const names = (env('NOTIFICATION_CHANNELS') || 'stub').split(',').map(name => name.trim()).filter(Boolean);
+  if (names.includes('stub')) {
+    return STUB_CHANNEL_KINDS.map(kind => createStubChannel(kind));
+  }
+
+  const factories: Record<string, () => NotificationChannel> = {
+    whatsapp: () => createWhatsAppCloudChannel({
+      accessToken: requireEnv('WHATSAPP_ACCESS_TOKEN'),
+      phoneNumberId: requireEnv('WHATSAPP_PHONE_NUMBER_ID'),
+      templateName: env('WHATSAPP_TEMPLATE_NAME')
+    }),
+    sms: () => createSmsChannel({ url: requireEnv('SMS_GATEWAY_URL'), apiKey: requireEnv('SMS_API_KEY'), sender: env('SMS_SENDER') }),
+    email: () => createEmailChannel({ apiKey: requireEnv('EMAIL_API_KEY'), from: requireEnv('EMAIL_FROM'), url: env('EMAIL_API_URL') }),
+    webhook: () => createWebhookChannel({ url: requireEnv('NOTIFICATION_WEBHOOK_URL'), secret: env('NOTIFICATION_WEBHOOK_SECRET') })
+  };
+
+  return names.flatMap((name) => {
+    const factory = factories[name];
+    if (!factory) {
+      console.warn(`Unknown notification channel "${name}", skipping it`);
+      return [];
+    }
+    try {
+      return [factory()];
+    } catch (error) {
+      console.warn(`Notification channel "${name}" is not configured:`, error);
+      return [];
+    }
+  });
+};
+
+// A bare 10-digit number is taken as Indian, matching the booking form
+const toE164Phone = (phone: string): string => {
+  const digits = phone.replace(/[^\d+]/g, '');
+  return /^[6-9]\d{9}$/.test(digits) ? `+91${digits}` : digits;
+};
+
+type BookingRow = NotificationBooking & { id: string; contact: string; customer_id: string | null };
+
+const loadBooking = async (reference: string) => {
+  for (const source of BOOKING_SOURCES) {
+    const { data, error } = await supabase.from(source).select('*').eq('reference', reference).maybeSingle();
+    if (error) throw new Error(`Failed to load booking: ${error.message}`);
+    if (data) {
+      const row = data as BookingRow;
+      // Subscriptions have no rental_type column
+      return { source, booking: { ...row, rental_type: row.rental_type ?? 'monthly' } };
+    }
+  }
+  return null;
+};
+
+// Bookings only hold a phone number; signed-in customers also have an email on their account
+const findEmail = async (booking: BookingRow): Promise<string | null> => {
+  if (booking.contact.includes('@')) return booking.contact;
+  if (!booking.customer_id) return null;
+
+  const { data, error } = await supabase.auth.admin.getUserById(booking.customer_id);
+  if (error) {
+    console.warn('Could not load customer account:', error.message);
+    return null;
+  }
+  return data.user?.email ?? null;
+};
+
+const loadBusinessName = async (): Promise<string> => {
+  const { data } = await supabase.from('settings').select('value').eq('key', 'business_name').maybeSingle();
+  return (data?.value as string | undefined)?.trim() || 'RideRental';
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' } });
+
+Deno.serve(async (request) => {
+  if (request.method === 'OPTIONS') return new Response('ok', { headers: CORS_HEADERS });
+
+  let event: NotificationEvent;
+  let reference: string;
+  try {
+    const body = await request.json();
+    event = body.event;
+    reference = String(body.reference || '').trim().toUpperCase();
+  } catch {
+    return json({ error: 'Expected a JSON body' }, 400);
+  }
+  if ((event !== 'booking_created' && event !== 'status_changed') || !reference) {
+    return json({ error: 'event and reference are required' }, 400);
+  }
+
+  try {
+    const found = await loadBooking(reference);
+    if (!found) return json({ error: 'Booking not found' }, 404);
+    const { source, booking } = found;
+
+    const channels = getChannels();
+    const bookingStatus = event === 'booking_created' ? 'pending' : booking.status;
+
+    // Channels that already delivered this message; a repeated call leaves them out
+    const { data: previous, error: previousError } = await supabase
+      .from('notification_deliveries')
+      .select('channel')
+      .eq('booking_source', source)
+      .eq('booking_id', booking.id)
+      .eq('event', event)
+      .eq('booking_status', bookingStatus)
+      .eq('status', 'sent');
+    if (previousError) throw new Error(`Failed to read delivery log: ${previousError.message}`);
+    const alreadySent = new Set((previous || []).map(row => row.channel as string));
+    const pending = channels.filter(channel => !alreadySent.has(channel.name));
+    if (pending.length === 0) return json({ deliveries: [] });
+
+    const siteUrl = env('SITE_URL');
+    const rendered = renderNotification(event, { ...booking, status: bookingStatus }, {
+      businessName: await loadBusinessName(),
+      lookupUrl: siteUrl ? `${siteUrl.replace(/\/$/, '')}/booking/${booking.reference}` : undefined
+    });
+    if (!rendered) return json({ deliveries: [] });
+
+    const deliveries = await deliverNotification(
+      {
+        event,
+        reference: booking.reference,
+        language: rendered.language,
+        subject: rendered.subject,
+        text: rendered.text,
+        to: { phone: booking.contact.includes('@') ? null : toE164Phone(booking.contact), email: await findEmail(booking) }
+      },
+      pending
+    );
+
+    const { error: logError } = await supabase.from('notification_deliveries').insert(deliveries.map(delivery => ({
+      booking_source: source,
+      booking_id: booking.id,
+      reference: booking.reference,
+      event,
+      booking_status: bookingStatus,
+      channel: delivery.channel,
+      channel_kind: delivery.kind,
+      recipient: delivery.recipient,
+      language: rendered.language,
+      subject: rendered.subject,
+      body: rendered.text,
+      status: delivery.result.status,
+      error: delivery.result.status === 'failed' ? delivery.result.error
+        : delivery.result.status === 'skipped' ? delivery.result.reason : null,
+      provider_message_id: delivery.result.status === 'sent' ? delivery.result.providerMessageId ?? null : null
+    })));
+    if (logError) console.error('Failed to log notification deliveries:', logError.message);
+
+    return json({ deliveries: deliveries.map(({ channel, result }) => ({ channel, status: result.status })) });
+  } catch (error) {
+    console.error('notify-booking failed:', error);
+    return json({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
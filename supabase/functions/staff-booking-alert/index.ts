@@ -0,0 +1,183 @@
+// Sends the staff alerts queued in staff_alerts (see migrations/0020_staff_booking_alerts.sql).
+// Call it from a database webhook on staff_alerts INSERTs and from a cron
+// schedule; each call works through whatever is due, so the request body is
+// ignored. Failed alerts are retried with backoff and, after MAX_ATTEMPTS,
+// marked 'dead' and copied to staff_alert_dead_letters.
+//
+// Deploy with `supabase functions deploy staff-booking-alert` and set its
+// secrets with `supabase secrets set`:
+//
+//   TELEGRAM_BOT_TOKEN           for 'telegram' destinations
+//   EMAIL_API_KEY, EMAIL_FROM    for 'email' destinations (EMAIL_API_URL optional, defaults to Resend)
+//   ALERT_WEBHOOK_SECRET         optional, sent to 'webhook' destinations as X-Webhook-Secret
+//   SITE_URL                     optional, links the alert to the admin dashboard
+//
+// SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are provided by Supabase.
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import {
+  createEmailChannel,
+  createWebhookChannel,
+  type DeliveryResult,
+  type OutgoingNotification
+} from '../../../src/lib/notificationChannels.ts';
+
+const MAX_ATTEMPTS = 6;
+
+// Retries back off from one minute, doubling up to an hour between attempts
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+const env = (name: string): string | undefined => Deno.env.get(name)?.trim() || undefined;
+
+interface AlertPayload {
+  reference: string | null;
+  name: string | null;
+  contact: string | null;
+  model: string | null;
+  rental_type: string;
+  pickup_date: string | null;
+  pickup_time: string | null;
+  return_date: string | null;
+  return_time: string | null;
+  total_price: number | null;
+  created_at: string | null;
+}
+
+interface ClaimedAlert {
+  id: string;
+  attempts: number;
+  payload: AlertPayload;
+  destination_kind: 'webhook' | 'telegram' | 'email';
+  destination_target: string;
+}
+
+const retryDelay = (attempts: number): number =>
+  Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+
+const formatWhen = (date: string | null, time: string | null): string => {
+  if (!date) return '—';
+  const day = new Date(`${date}T00:00`).toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short' });
+  return time ? `${day}, ${time.slice(0, 5)}` : day;
+};
+
+const formatAlert = (payload: AlertPayload): { subject: string; text: string } => {
+  const reference = payload.reference || 'without reference';
+  const siteUrl = env('SITE_URL');
+  const lines = [
+    `🛵 New ${payload.rental_type} booking ${reference}`,
+    `Vehicle: ${payload.model ?? '—'}`,
+    `Customer: ${payload.name ?? '—'}`,
+    `Contact: ${payload.contact ?? '—'}`,
+    `Pickup: ${formatWhen(payload.pickup_date, payload.pickup_time)}`,
+    `Return: ${formatWhen(payload.return_date, payload.return_time)}`,
+    `Total: ₹${(payload.total_price ?? 0).toLocaleString('en-IN')}`
+  ];
+  if (siteUrl) lines.push(`${siteUrl.replace(/\/$/, '')}/admin`);
+
+  return { subject: `New booking ${reference}: ${payload.model ?? ''}`.trim(), text: lines.join('\n') };
+};
+
+const sendTelegram = async (chatId: string, text: string): Promise<DeliveryResult> => {
+  const token = env('TELEGRAM_BOT_TOKEN');
+  if (!token) return { status: 'failed', error: 'TELEGRAM_BOT_TOKEN is not set' };
+
+  try {
+    const response = await fetch(`https://api.telegram.org/bot${token}/sendMessage`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ chat_id: chatId, text, disable_web_page_preview: true })
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok || !body.ok) {
+      return { status: 'failed', error: `${response.status}: ${body.description ?? response.statusText}` };
+    }
+    return { status: 'sent', providerMessageId: String(body.result?.message_id ?? '') || null };
+  } catch (error) {
+    return { status: 'failed', error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+const sendAlert = async (alert: ClaimedAlert): Promise<DeliveryResult> => {
+  const { subject, text } = formatAlert(alert.payload);
+
+  if (alert.destination_kind === 'telegram') {
+    return sendTelegram(alert.destination_target, text);
+  }
+
+  const notification: OutgoingNotification = {
+    event: 'staff_alert',
+    reference: alert.payload.reference ?? '',
+    language: 'en',
+    subject,
+    text,
+    to: { email: alert.destination_kind === 'email' ? alert.destination_target : null }
+  };
+
+  if (alert.destination_kind === 'email') {
+    const apiKey = env('EMAIL_API_KEY');
+    const from = env('EMAIL_FROM');
+    if (!apiKey || !from) return { status: 'failed', error: 'EMAIL_API_KEY and EMAIL_FROM must be set' };
+    return createEmailChannel({ apiKey, from, url: env('EMAIL_API_URL') }).send(notification);
+  }
+
+  // Webhooks also get the raw booking details for their own formatting
+  return createWebhookChannel({ url: alert.destination_target, secret: env('ALERT_WEBHOOK_SECRET') })
+    .send({ ...notification, booking: alert.payload } as OutgoingNotification);
+};
+
+const recordResult = async (alert: ClaimedAlert, result: DeliveryResult) => {
+  const attempts = alert.attempts + 1;
+
+  if (result.status === 'sent' || result.status === 'skipped') {
+    await supabase.from('staff_alerts')
+      .update({ status: 'sent', attempts, sent_at: new Date().toISOString(), last_error: null })
+      .eq('id', alert.id);
+    return;
+  }
+
+  if (attempts < MAX_ATTEMPTS) {
+    await supabase.from('staff_alerts')
+      .update({ attempts, last_error: result.error, next_attempt_at: new Date(Date.now() + retryDelay(attempts)).toISOString() })
+      .eq('id', alert.id);
+    return;
+  }
+
+  await supabase.from('staff_alerts').update({ status: 'dead', attempts, last_error: result.error }).eq('id', alert.id);
+  await supabase.from('staff_alert_dead_letters').insert([{
+    alert_id: alert.id,
+    destination_kind: alert.destination_kind,
+    destination_target: alert.destination_target,
+    payload: alert.payload,
+    attempts,
+    last_error: result.error
+  }]);
+  console.error(`Staff alert ${alert.id} gave up after ${attempts} attempts:`, result.error);
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+Deno.serve(async () => {
+  const { data, error } = await supabase.rpc('claim_staff_alerts', { p_limit: 20 });
+  if (error) {
+    console.error('Failed to claim staff alerts:', error.message);
+    return json({ error: error.message }, 500);
+  }
+
+  const alerts = (data || []) as ClaimedAlert[];
+  const summary = { sent: 0, retrying: 0, dead: 0 };
+
+  for (const alert of alerts) {
+    const result = await sendAlert(alert);
+    await recordResult(alert, result);
+
+    if (result.status !== 'failed') summary.sent++;
+    else if (alert.attempts + 1 < MAX_ATTEMPTS) summary.retrying++;
+    else summary.dead++;
+  }
+
+  return json(summary);
+});
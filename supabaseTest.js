@@ -47,7 +47,7 @@ async function testConnection() {
       } else if (error.message.includes('relation') && error.message.includes('does not exist')) {
         console.log('\nTROUBLESHOOTING:');
         console.log('1. The bookings table does not exist in your database');
-        console.log('2. Run the SQL in setup-bookings-table.sql to create it');
+        console.log('2. Run npm run migrate -- up (or node setup-bookings-table.js) to create it');
       }
       
       process.exit(1);